@@ -4,8 +4,12 @@ import android.app.Application
 import com.facebook.react.ReactApplication
 import com.facebook.react.ReactNativeHost
 import com.facebook.react.ReactPackage
+import com.facebook.react.modules.network.OkHttpClientProvider
 import com.facebook.react.shell.MainReactPackage
 import com.facebook.soloader.SoLoader
+import com.stratospheremobile.downloads.DownloadsPackage
+import com.stratospheremobile.pinning.CertificatePinningPackage
+import com.stratospheremobile.pinning.PinningOkHttpClientFactory
 import java.util.Arrays
 
 class MainApplication : Application(), ReactApplication {
@@ -18,7 +22,9 @@ class MainApplication : Application(), ReactApplication {
     override fun getPackages(): List<ReactPackage> {
       @SuppressWarnings("UnnecessaryLocalVariable")
       val packages = Arrays.asList<ReactPackage>(
-          MainReactPackage()
+          MainReactPackage(),
+          CertificatePinningPackage(),
+          DownloadsPackage()
       )
       return packages
     }
@@ -35,5 +41,6 @@ class MainApplication : Application(), ReactApplication {
   override fun onCreate() {
     super.onCreate()
     SoLoader.init(this, /* native exopackage */ false)
+    OkHttpClientProvider.setOkHttpClientFactory(PinningOkHttpClientFactory(this))
   }
 }
@@ -0,0 +1,90 @@
+package com.stratospheremobile.downloads
+
+import android.content.ContentValues
+import android.media.MediaScannerConnection
+import android.os.Build
+import android.os.Environment
+import android.provider.MediaStore
+import androidx.annotation.RequiresApi
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import java.io.File
+import java.io.IOException
+
+class DownloadsModule(reactContext: ReactApplicationContext) :
+  ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = "Downloads"
+
+  /**
+   * Saves text to the shared Downloads folder and resolves with the name it
+   * was saved under, which differs from [fileName] if that name was taken.
+   * Android 10 and up go through MediaStore, which works without storage
+   * permission and sees files other apps put there.
+   */
+  @ReactMethod
+  fun saveText(fileName: String, mimeType: String, content: String, promise: Promise) {
+    Thread {
+      try {
+        val bytes = content.toByteArray(Charsets.UTF_8)
+        val savedName = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+          saveWithMediaStore(fileName, mimeType, bytes)
+        } else {
+          saveToDirectory(fileName, mimeType, bytes)
+        }
+        promise.resolve(savedName)
+      } catch (e: Exception) {
+        promise.reject("E_SAVE_FAILED", e.message ?: "Could not save $fileName", e)
+      }
+    }.start()
+  }
+
+  @RequiresApi(Build.VERSION_CODES.Q)
+  private fun saveWithMediaStore(fileName: String, mimeType: String, bytes: ByteArray): String {
+    val resolver = reactApplicationContext.contentResolver
+    val values = ContentValues().apply {
+      put(MediaStore.Downloads.DISPLAY_NAME, fileName)
+      put(MediaStore.Downloads.MIME_TYPE, mimeType)
+      put(MediaStore.Downloads.IS_PENDING, 1)
+    }
+    val collection = MediaStore.Downloads.getContentUri(MediaStore.VOLUME_EXTERNAL_PRIMARY)
+    val uri = resolver.insert(collection, values) ?: throw IOException("Could not create $fileName")
+
+    try {
+      val stream = resolver.openOutputStream(uri) ?: throw IOException("Could not write $fileName")
+      stream.use { it.write(bytes) }
+      values.clear()
+      values.put(MediaStore.Downloads.IS_PENDING, 0)
+      resolver.update(uri, values, null, null)
+    } catch (e: Exception) {
+      resolver.delete(uri, null, null)
+      throw e
+    }
+
+    // MediaStore picks a free name itself when this one is taken
+    return resolver.query(uri, arrayOf(MediaStore.Downloads.DISPLAY_NAME), null, null, null)?.use {
+      if (it.moveToFirst()) it.getString(0) else null
+    } ?: fileName
+  }
+
+  // Older versions write the file directly, which needs storage permission
+  @Suppress("DEPRECATION")
+  private fun saveToDirectory(fileName: String, mimeType: String, bytes: ByteArray): String {
+    val directory = Environment.getExternalStoragePublicDirectory(Environment.DIRECTORY_DOWNLOADS)
+    directory.mkdirs()
+
+    val dot = fileName.lastIndexOf('.').let { if (it > 0) it else fileName.length }
+    var file = File(directory, fileName)
+    var copy = 2
+    while (file.exists()) {
+      file = File(directory, "${fileName.substring(0, dot)} ($copy)${fileName.substring(dot)}")
+      copy++
+    }
+
+    file.writeBytes(bytes)
+    MediaScannerConnection.scanFile(reactApplicationContext, arrayOf(file.absolutePath), arrayOf(mimeType), null)
+    return file.name
+  }
+}
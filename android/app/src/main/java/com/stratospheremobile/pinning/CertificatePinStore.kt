@@ -0,0 +1,32 @@
+package com.stratospheremobile.pinning
+
+import android.content.Context
+import java.security.MessageDigest
+import java.security.cert.Certificate
+
+/**
+ * Persists the SHA-256 fingerprint trusted for each bridge, keyed by host:port.
+ */
+class CertificatePinStore(context: Context) {
+
+  private val prefs = context.getSharedPreferences("certificate_pins", Context.MODE_PRIVATE)
+
+  fun get(host: String, port: Int): String? = prefs.getString(key(host, port), null)
+
+  fun pin(host: String, port: Int, fingerprint: String) {
+    prefs.edit().putString(key(host, port), fingerprint.lowercase()).apply()
+  }
+
+  fun forget(host: String, port: Int) {
+    prefs.edit().remove(key(host, port)).apply()
+  }
+
+  private fun key(host: String, port: Int) = "$host:$port"
+
+  companion object {
+    fun fingerprint(certificate: Certificate): String =
+      MessageDigest.getInstance("SHA-256")
+        .digest(certificate.encoded)
+        .joinToString("") { "%02x".format(it) }
+  }
+}
@@ -0,0 +1,65 @@
+package com.stratospheremobile.pinning
+
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import java.net.InetSocketAddress
+import java.security.cert.X509Certificate
+import javax.net.ssl.SSLContext
+import javax.net.ssl.SSLSocket
+import javax.net.ssl.X509TrustManager
+
+class CertificatePinningModule(reactContext: ReactApplicationContext) :
+  ReactContextBaseJavaModule(reactContext) {
+
+  private val store = CertificatePinStore(reactContext)
+
+  override fun getName(): String = "CertificatePinning"
+
+  /**
+   * Reads the certificate a bridge presents without trusting it. Only the
+   * handshake happens on this socket; no request is sent.
+   */
+  @ReactMethod
+  fun getServerFingerprint(host: String, port: Int, timeoutMs: Int, promise: Promise) {
+    Thread {
+      try {
+        val sslContext = SSLContext.getInstance("TLS").apply {
+          init(null, arrayOf(AcceptAllTrustManager), null)
+        }
+        (sslContext.socketFactory.createSocket() as SSLSocket).use { socket ->
+          socket.connect(InetSocketAddress(host, port), timeoutMs)
+          socket.soTimeout = timeoutMs
+          socket.startHandshake()
+          promise.resolve(CertificatePinStore.fingerprint(socket.session.peerCertificates[0]))
+        }
+      } catch (e: Exception) {
+        promise.reject("E_CERTIFICATE_FETCH", e.message ?: "Could not read certificate", e)
+      }
+    }.start()
+  }
+
+  @ReactMethod
+  fun getPinnedFingerprint(host: String, port: Int, promise: Promise) {
+    promise.resolve(store.get(host, port))
+  }
+
+  @ReactMethod
+  fun pin(host: String, port: Int, fingerprint: String, promise: Promise) {
+    store.pin(host, port, fingerprint)
+    promise.resolve(null)
+  }
+
+  @ReactMethod
+  fun forget(host: String, port: Int, promise: Promise) {
+    store.forget(host, port)
+    promise.resolve(null)
+  }
+
+  private object AcceptAllTrustManager : X509TrustManager {
+    override fun checkClientTrusted(chain: Array<X509Certificate>, authType: String) {}
+    override fun checkServerTrusted(chain: Array<X509Certificate>, authType: String) {}
+    override fun getAcceptedIssuers(): Array<X509Certificate> = arrayOf()
+  }
+}
@@ -0,0 +1,30 @@
+package com.stratospheremobile.pinning
+
+import android.content.Context
+import com.facebook.react.modules.network.OkHttpClientFactory
+import com.facebook.react.modules.network.OkHttpClientProvider
+import javax.net.ssl.HttpsURLConnection
+import javax.net.ssl.SSLContext
+import okhttp3.OkHttpClient
+
+/**
+ * Client used by fetch/XMLHttpRequest. React Native's WebSocket module builds
+ * its own client, so wss:// to a self-signed bridge falls back to polling.
+ */
+class PinningOkHttpClientFactory(private val context: Context) : OkHttpClientFactory {
+
+  override fun createNewNetworkModuleClient(): OkHttpClient {
+    val store = CertificatePinStore(context)
+    val trustManager = PinningTrustManager(store)
+    val sslContext = SSLContext.getInstance("TLS").apply { init(null, arrayOf(trustManager), null) }
+    val defaultVerifier = HttpsURLConnection.getDefaultHostnameVerifier()
+
+    return OkHttpClientProvider.createClientBuilder(context)
+      .sslSocketFactory(sslContext.socketFactory, trustManager)
+      // Self-signed bridge certificates rarely name the LAN address; the pin covers identity
+      .hostnameVerifier { hostname, session ->
+        store.get(hostname, session.peerPort) != null || defaultVerifier.verify(hostname, session)
+      }
+      .build()
+  }
+}
@@ -0,0 +1,65 @@
+package com.stratospheremobile.pinning
+
+import java.net.Socket
+import java.security.KeyStore
+import java.security.cert.CertificateException
+import java.security.cert.X509Certificate
+import javax.net.ssl.SSLEngine
+import javax.net.ssl.SSLSocket
+import javax.net.ssl.TrustManagerFactory
+import javax.net.ssl.X509ExtendedTrustManager
+import javax.net.ssl.X509TrustManager
+
+/**
+ * Trusts a pinned bridge by its certificate fingerprint alone, so self-signed
+ * certificates work. Hosts without a pin go through normal CA validation.
+ */
+class PinningTrustManager(private val store: CertificatePinStore) : X509ExtendedTrustManager() {
+
+  private val systemTrustManager: X509TrustManager =
+    TrustManagerFactory.getInstance(TrustManagerFactory.getDefaultAlgorithm())
+      .apply { init(null as KeyStore?) }
+      .trustManagers
+      .filterIsInstance<X509TrustManager>()
+      .first()
+
+  override fun checkServerTrusted(chain: Array<X509Certificate>, authType: String, socket: Socket) {
+    val session = (socket as? SSLSocket)?.handshakeSession
+    checkPinned(chain, authType, session?.peerHost, session?.peerPort ?: -1)
+  }
+
+  override fun checkServerTrusted(chain: Array<X509Certificate>, authType: String, engine: SSLEngine) {
+    checkPinned(chain, authType, engine.peerHost, engine.peerPort)
+  }
+
+  override fun checkServerTrusted(chain: Array<X509Certificate>, authType: String) {
+    systemTrustManager.checkServerTrusted(chain, authType)
+  }
+
+  override fun checkClientTrusted(chain: Array<X509Certificate>, authType: String, socket: Socket) {
+    systemTrustManager.checkClientTrusted(chain, authType)
+  }
+
+  override fun checkClientTrusted(chain: Array<X509Certificate>, authType: String, engine: SSLEngine) {
+    systemTrustManager.checkClientTrusted(chain, authType)
+  }
+
+  override fun checkClientTrusted(chain: Array<X509Certificate>, authType: String) {
+    systemTrustManager.checkClientTrusted(chain, authType)
+  }
+
+  override fun getAcceptedIssuers(): Array<X509Certificate> = systemTrustManager.acceptedIssuers
+
+  private fun checkPinned(chain: Array<X509Certificate>, authType: String, host: String?, port: Int) {
+    val pinned = host?.let { store.get(it, port) }
+    if (pinned == null) {
+      systemTrustManager.checkServerTrusted(chain, authType)
+      return
+    }
+
+    val presented = CertificatePinStore.fingerprint(chain[0])
+    if (!presented.equals(pinned, ignoreCase = true)) {
+      throw CertificateException("Certificate for $host:$port does not match the pinned fingerprint")
+    }
+  }
+}
@@ -2,6 +2,8 @@
  * @format
  */
 
+// uuid and pairing keys need crypto.getRandomValues
+import 'react-native-get-random-values';
 import { AppRegistry } from 'react-native';
 import App from './src/App.tsx';
 import { name as appName } from './app.json';
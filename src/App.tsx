@@ -10,6 +10,11 @@ import {ThemeProvider} from './contexts/ThemeContext';
 
 import OnboardingScreen from './screens/OnboardingScreen';
 import SetupScreen from './screens/SetupScreen';
+import SettingsScreen from './screens/SettingsScreen';
+import FileBrowserScreen from './screens/FileBrowserScreen';
+import CodeViewerScreen from './screens/CodeViewerScreen';
+import GitScreen from './screens/GitScreen';
+import SessionsScreen from './screens/SessionsScreen';
 import MainTabNavigator from './navigation/MainTabNavigator';
 import {RootStackParamList} from './types';
 
@@ -34,6 +39,11 @@ const App: React.FC = () => {
                 <Stack.Screen name="Onboarding" component={OnboardingScreen} />
                 <Stack.Screen name="Setup" component={SetupScreen} />
                 <Stack.Screen name="Main" component={MainTabNavigator} />
+                <Stack.Screen name="Settings" component={SettingsScreen} />
+                <Stack.Screen name="FileBrowser" component={FileBrowserScreen} />
+                <Stack.Screen name="CodeViewer" component={CodeViewerScreen} />
+                <Stack.Screen name="Git" component={GitScreen} />
+                <Stack.Screen name="Sessions" component={SessionsScreen} />
               </Stack.Navigator>
             </NavigationContainer>
           </ConnectionProvider>
@@ -0,0 +1,173 @@
+import React, {useMemo} from 'react';
+import {View, Text, StyleSheet, ScrollView, Platform} from 'react-native';
+import {useTheme} from '../contexts/ThemeContext';
+import {DiffHunk, DiffLine, toHunks, toSplitRows} from '../utils/diff';
+
+interface DiffViewProps {
+  // Either whole-file lines to group into hunks, or hunks from a patch
+  lines?: DiffLine[];
+  hunks?: DiffHunk[];
+  context?: number;
+  mode?: 'inline' | 'split';
+}
+
+const DiffView: React.FC<DiffViewProps> = ({lines, hunks: givenHunks, context = 3, mode = 'inline'}) => {
+  const {theme} = useTheme();
+  const hunks = useMemo(
+    () => givenHunks || toHunks(lines || [], context),
+    [givenHunks, lines, context]
+  );
+
+  const getLineColors = (line: DiffLine) => {
+    switch (line.type) {
+      case 'add':
+        return {backgroundColor: theme.colors.success + '26', marker: '+', color: theme.colors.success};
+      case 'remove':
+        return {backgroundColor: theme.colors.error + '26', marker: '-', color: theme.colors.error};
+      default:
+        return {backgroundColor: 'transparent', marker: ' ', color: theme.colors.textMuted};
+    }
+  };
+
+  if (hunks.length === 0) {
+    return (
+      <Text style={[styles.emptyText, {color: theme.colors.textMuted}]}>
+        No changes
+      </Text>
+    );
+  }
+
+  const renderHunkHeader = (hunk: DiffHunk) => (
+    <Text style={[styles.hunkHeader, {color: theme.colors.info, backgroundColor: theme.colors.info + '14'}]}>
+      @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+    </Text>
+  );
+
+  const renderSplitSide = (line: DiffLine | undefined, side: 'left' | 'right') => {
+    const colors = line ? getLineColors(line) : null;
+    return (
+      <View
+        style={[
+          styles.splitSide,
+          side === 'left' && {borderRightColor: theme.colors.border, borderRightWidth: StyleSheet.hairlineWidth},
+          {backgroundColor: colors ? colors.backgroundColor : theme.colors.surfaceVariant + '80'},
+        ]}>
+        {line && (
+          <>
+            <Text style={[styles.lineNumber, styles.splitNumber, {color: theme.colors.textMuted}]}>
+              {(side === 'left' ? line.oldNumber : line.newNumber) ?? ''}
+            </Text>
+            <Text style={[styles.code, styles.splitCode, {color: theme.colors.text}]}>{line.text || ' '}</Text>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  if (mode === 'split') {
+    return (
+      <View style={styles.container}>
+        {hunks.map(hunk => (
+          <View key={`${hunk.oldStart}:${hunk.newStart}`}>
+            {renderHunkHeader(hunk)}
+            {toSplitRows(hunk.lines).map((row, index) => (
+              <View key={index} style={styles.splitRow}>
+                {renderSplitSide(row.left, 'left')}
+                {renderSplitSide(row.right, 'right')}
+              </View>
+            ))}
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView horizontal bounces={false}>
+      <View style={styles.container}>
+        {hunks.map(hunk => (
+          <View key={`${hunk.oldStart}:${hunk.newStart}`}>
+            {renderHunkHeader(hunk)}
+            {hunk.lines.map((line, index) => {
+              const colors = getLineColors(line);
+              return (
+                <View
+                  key={index}
+                  style={[styles.line, {backgroundColor: colors.backgroundColor}]}>
+                  <Text style={[styles.lineNumber, {color: theme.colors.textMuted}]}>
+                    {line.oldNumber ?? ''}
+                  </Text>
+                  <Text style={[styles.lineNumber, {color: theme.colors.textMuted}]}>
+                    {line.newNumber ?? ''}
+                  </Text>
+                  <Text style={[styles.marker, {color: colors.color}]}>{colors.marker}</Text>
+                  <Text style={[styles.code, {color: theme.colors.text}]}>{line.text || ' '}</Text>
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+};
+
+const monospace = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const styles = StyleSheet.create({
+  container: {
+    minWidth: '100%',
+    paddingBottom: 4,
+  },
+  hunkHeader: {
+    fontFamily: monospace,
+    fontSize: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  line: {
+    flexDirection: 'row',
+    paddingRight: 12,
+  },
+  lineNumber: {
+    fontFamily: monospace,
+    fontSize: 11,
+    lineHeight: 18,
+    width: 36,
+    textAlign: 'right',
+    paddingRight: 6,
+  },
+  marker: {
+    fontFamily: monospace,
+    fontSize: 12,
+    lineHeight: 18,
+    width: 14,
+    textAlign: 'center',
+  },
+  code: {
+    fontFamily: monospace,
+    fontSize: 12,
+    lineHeight: 18,
+  },
+  splitRow: {
+    flexDirection: 'row',
+  },
+  splitSide: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  splitNumber: {
+    width: 28,
+  },
+  splitCode: {
+    flex: 1,
+    paddingRight: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    padding: 16,
+    textAlign: 'center',
+  },
+});
+
+export default DiffView;
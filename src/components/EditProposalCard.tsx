@@ -0,0 +1,238 @@
+import React, {useMemo, useState} from 'react';
+import {View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Platform} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import {useTheme} from '../contexts/ThemeContext';
+import DiffView from './DiffView';
+import {MessageEdit} from '../types';
+import {FilePatch, parseUnifiedDiff} from '../utils/patch';
+import {countChanges} from '../utils/diff';
+import {getFileIcon, getExtension} from '../utils/fileTree';
+
+interface EditProposalCardProps {
+  edit: MessageEdit;
+  isBusy?: boolean;
+  onApply?: () => void;
+  onReject?: () => void;
+  onRevert?: () => void;
+}
+
+const EditProposalCard: React.FC<EditProposalCardProps> = ({
+  edit,
+  isBusy = false,
+  onApply,
+  onReject,
+  onRevert,
+}) => {
+  const {theme} = useTheme();
+  const [mode, setMode] = useState<'inline' | 'split'>('inline');
+
+  const parsed = useMemo((): {patch: FilePatch | null; error: string | null} => {
+    try {
+      return {patch: parseUnifiedDiff(edit.diff), error: null};
+    } catch (error) {
+      return {patch: null, error: error instanceof Error ? error.message : 'Invalid diff'};
+    }
+  }, [edit.diff]);
+
+  const changes = useMemo(
+    () => countChanges(parsed.patch ? parsed.patch.hunks.flatMap(hunk => hunk.lines) : []),
+    [parsed]
+  );
+
+  const fileName = edit.filePath.split(/[\\/]/).pop() || edit.filePath;
+
+  const renderStatus = () => {
+    if (isBusy) {
+      return <ActivityIndicator size="small" color={theme.colors.primary} />;
+    }
+
+    switch (edit.status) {
+      case 'applied':
+        return (
+          <>
+            <View style={styles.statusBadge}>
+              <Icon name="checkmark-circle" size={16} color={theme.colors.success} />
+              <Text style={[styles.statusText, {color: theme.colors.success}]}>Applied</Text>
+            </View>
+            {onRevert && (
+              <TouchableOpacity
+                style={[styles.actionButton, {borderColor: theme.colors.border}]}
+                onPress={onRevert}>
+                <Icon name="arrow-undo" size={14} color={theme.colors.text} />
+                <Text style={[styles.actionText, {color: theme.colors.text}]}>Revert</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        );
+      case 'rejected':
+        return (
+          <View style={styles.statusBadge}>
+            <Icon name="close-circle" size={16} color={theme.colors.textMuted} />
+            <Text style={[styles.statusText, {color: theme.colors.textMuted}]}>Rejected</Text>
+          </View>
+        );
+      default:
+        return (
+          <>
+            {edit.status === 'reverted' ? (
+              <View style={styles.statusBadge}>
+                <Icon name="arrow-undo-circle" size={16} color={theme.colors.warning} />
+                <Text style={[styles.statusText, {color: theme.colors.warning}]}>Reverted</Text>
+              </View>
+            ) : (
+              onReject && (
+                <TouchableOpacity
+                  style={[styles.actionButton, {borderColor: theme.colors.border}]}
+                  onPress={onReject}>
+                  <Text style={[styles.actionText, {color: theme.colors.text}]}>Reject</Text>
+                </TouchableOpacity>
+              )
+            )}
+            {onApply && parsed.patch && (
+              <TouchableOpacity
+                style={[styles.actionButton, {backgroundColor: theme.colors.primary, borderColor: theme.colors.primary}]}
+                onPress={onApply}>
+                <Text style={[styles.actionText, {color: 'white'}]}>
+                  {edit.status === 'reverted' ? 'Apply Again' : 'Apply'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </>
+        );
+    }
+  };
+
+  return (
+    <View style={[styles.container, {backgroundColor: theme.colors.background, borderColor: theme.colors.border}]}>
+      <View style={[styles.header, {borderBottomColor: theme.colors.border}]}>
+        <Icon name={getFileIcon(getExtension(fileName))} size={16} color={theme.colors.textSecondary} />
+        <View style={styles.headerInfo}>
+          <Text style={[styles.fileName, {color: theme.colors.text}]} numberOfLines={1}>
+            {fileName}
+          </Text>
+          <Text style={[styles.filePath, {color: theme.colors.textMuted}]} numberOfLines={1} ellipsizeMode="head">
+            {edit.filePath}
+          </Text>
+        </View>
+        <Text style={[styles.changeCount, {color: theme.colors.success}]}>+{changes.additions}</Text>
+        <Text style={[styles.changeCount, {color: theme.colors.error}]}>-{changes.deletions}</Text>
+        <TouchableOpacity
+          style={styles.modeButton}
+          onPress={() => setMode(mode === 'inline' ? 'split' : 'inline')}>
+          <Icon
+            name={mode === 'inline' ? 'albums-outline' : 'reorder-four-outline'}
+            size={16}
+            color={theme.colors.textMuted}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {edit.description ? (
+        <Text style={[styles.description, {color: theme.colors.textSecondary}]}>{edit.description}</Text>
+      ) : null}
+
+      <ScrollView style={styles.diff} nestedScrollEnabled>
+        {parsed.patch ? (
+          <DiffView hunks={parsed.patch.hunks} mode={mode} />
+        ) : (
+          <View style={styles.invalid}>
+            <Text style={[styles.invalidText, {color: theme.colors.error}]}>{parsed.error}</Text>
+            <Text style={[styles.rawDiff, {color: theme.colors.textSecondary}]}>{edit.diff}</Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={[styles.footer, {borderTopColor: theme.colors.border}]}>{renderStatus()}</View>
+    </View>
+  );
+};
+
+const monospace = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 10,
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  fileName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  filePath: {
+    fontSize: 11,
+  },
+  changeCount: {
+    fontSize: 12,
+    fontFamily: monospace,
+    marginLeft: 6,
+  },
+  modeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  description: {
+    fontSize: 13,
+    paddingHorizontal: 10,
+    paddingTop: 6,
+  },
+  diff: {
+    maxHeight: 320,
+  },
+  invalid: {
+    padding: 10,
+  },
+  invalidText: {
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  rawDiff: {
+    fontFamily: monospace,
+    fontSize: 12,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 8,
+    padding: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 'auto',
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 2,
+  },
+});
+
+export default EditProposalCard;
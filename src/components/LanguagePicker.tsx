@@ -0,0 +1,98 @@
+import React from 'react';
+import {View, Text, TouchableOpacity, Modal, ScrollView, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import {useTheme} from '../contexts/ThemeContext';
+import {SPEECH_LANGUAGES} from '../utils/languages';
+
+interface LanguagePickerProps {
+  visible: boolean;
+  title: string;
+  selected: string;
+  onSelect: (code: string) => void;
+  onClose: () => void;
+}
+
+const LanguagePicker: React.FC<LanguagePickerProps> = ({
+  visible,
+  title,
+  selected,
+  onSelect,
+  onClose,
+}) => {
+  const {theme} = useTheme();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableOpacity
+        style={[styles.overlay, {backgroundColor: theme.colors.overlay}]}
+        activeOpacity={1}
+        onPress={onClose}>
+        <View style={[styles.sheet, {backgroundColor: theme.colors.surface}]}>
+          <Text style={[styles.title, {color: theme.colors.textSecondary}]}>{title}</Text>
+          <ScrollView>
+            {SPEECH_LANGUAGES.map(language => {
+              const isSelected = language.code === selected;
+              return (
+                <TouchableOpacity
+                  key={language.code}
+                  style={styles.option}
+                  onPress={() => {
+                    onClose();
+                    onSelect(language.code);
+                  }}>
+                  <Text
+                    style={[
+                      styles.optionText,
+                      {color: isSelected ? theme.colors.primary : theme.colors.text},
+                    ]}>
+                    {language.name}
+                  </Text>
+                  <Text style={[styles.optionCode, {color: theme.colors.textMuted}]}>
+                    {language.code}
+                  </Text>
+                  {isSelected && <Icon name="checkmark" size={20} color={theme.colors.primary} />}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '70%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 12,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  optionCode: {
+    fontSize: 13,
+    marginRight: 12,
+  },
+});
+
+export default LanguagePicker;
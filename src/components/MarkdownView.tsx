@@ -0,0 +1,295 @@
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Clipboard,
+  Linking,
+  Platform,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import {useTheme} from '../contexts/ThemeContext';
+import {InlineNode, MarkdownBlock, isSafeLink, parseInline, parseMarkdown} from '../utils/markdown';
+import {getLanguageForFence, getSyntaxColors, tokenizeLines} from '../utils/syntaxHighlight';
+
+interface MarkdownViewProps {
+  content: string;
+  textColor: string;
+  // Rendered after the last block, e.g. a streaming cursor
+  trailing?: React.ReactNode;
+}
+
+const HEADING_SIZES = [22, 20, 18, 17, 16, 16];
+
+const CodeBlock: React.FC<{language: string; code: string}> = ({language, code}) => {
+  const {theme} = useTheme();
+  const [copied, setCopied] = useState(false);
+  const resetTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (resetTimer.current) {
+      clearTimeout(resetTimer.current);
+    }
+  }, []);
+
+  const tokens = useMemo(
+    () => tokenizeLines(code.split('\n'), getLanguageForFence(language)),
+    [code, language]
+  );
+  const syntaxColors = getSyntaxColors(theme.isDark);
+
+  const handleCopy = () => {
+    Clipboard.setString(code);
+    setCopied(true);
+    if (resetTimer.current) {
+      clearTimeout(resetTimer.current);
+    }
+    resetTimer.current = setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <View style={[styles.codeBlock, {backgroundColor: theme.colors.background, borderColor: theme.colors.border}]}>
+      <View style={[styles.codeHeader, {borderBottomColor: theme.colors.border}]}>
+        <Text style={[styles.codeLanguage, {color: theme.colors.textMuted}]}>
+          {language || 'code'}
+        </Text>
+        <TouchableOpacity style={styles.copyButton} onPress={handleCopy}>
+          <Icon
+            name={copied ? 'checkmark' : 'copy-outline'}
+            size={14}
+            color={copied ? theme.colors.success : theme.colors.textMuted}
+          />
+          <Text style={[styles.copyText, {color: copied ? theme.colors.success : theme.colors.textMuted}]}>
+            {copied ? 'Copied' : 'Copy'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.codeContent}>
+        <Text style={styles.codeText}>
+          {tokens.map((lineTokens, lineIndex) => (
+            <Text key={lineIndex}>
+              {lineIndex > 0 ? '\n' : ''}
+              {lineTokens.map((token, tokenIndex) => (
+                <Text
+                  key={tokenIndex}
+                  style={[
+                    {color: syntaxColors[token.type]},
+                    token.type === 'comment' && styles.commentText,
+                  ]}>
+                  {token.text}
+                </Text>
+              ))}
+            </Text>
+          ))}
+        </Text>
+      </ScrollView>
+    </View>
+  );
+};
+
+const MarkdownView: React.FC<MarkdownViewProps> = ({content, textColor, trailing}) => {
+  const {theme} = useTheme();
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  const openLink = (url: string) => {
+    if (!isSafeLink(url)) {
+      return;
+    }
+    Linking.openURL(url).catch(error => {
+      console.log('MarkdownView: Could not open link', url, error);
+    });
+  };
+
+  const renderInline = (nodes: InlineNode[], keyPrefix: string = ''): React.ReactNode[] =>
+    nodes.map((node, index) => {
+      const key = `${keyPrefix}${index}`;
+      switch (node.type) {
+        case 'code':
+          return (
+            <Text
+              key={key}
+              style={[styles.inlineCode, {backgroundColor: theme.colors.surfaceVariant, color: theme.colors.accent}]}>
+              {node.text}
+            </Text>
+          );
+        case 'bold':
+          return <Text key={key} style={styles.bold}>{renderInline(node.children, `${key}.`)}</Text>;
+        case 'italic':
+          return <Text key={key} style={styles.italic}>{renderInline(node.children, `${key}.`)}</Text>;
+        case 'strike':
+          return <Text key={key} style={styles.strike}>{renderInline(node.children, `${key}.`)}</Text>;
+        case 'link':
+          return (
+            <Text
+              key={key}
+              style={[styles.link, {color: theme.colors.primary}]}
+              onPress={() => openLink(node.url)}>
+              {renderInline(node.children, `${key}.`)}
+            </Text>
+          );
+        default:
+          return node.text;
+      }
+    });
+
+  const renderBlock = (block: MarkdownBlock, index: number, isLast: boolean) => {
+    const tail = isLast ? trailing : null;
+
+    switch (block.type) {
+      case 'heading':
+        return (
+          <Text
+            key={index}
+            style={[
+              styles.heading,
+              {color: textColor, fontSize: HEADING_SIZES[block.level - 1], lineHeight: HEADING_SIZES[block.level - 1] + 6},
+            ]}>
+            {renderInline(parseInline(block.text))}
+            {tail}
+          </Text>
+        );
+      case 'quote':
+        return (
+          <View key={index} style={[styles.quote, {borderLeftColor: theme.colors.border}]}>
+            <Text style={[styles.text, {color: theme.colors.textSecondary}]}>
+              {renderInline(parseInline(block.text))}
+              {tail}
+            </Text>
+          </View>
+        );
+      case 'list':
+        return (
+          <View key={index} style={styles.list}>
+            {block.items.map((item, itemIndex) => (
+              <View key={itemIndex} style={[styles.listItem, {paddingLeft: item.depth * 16}]}>
+                <Text style={[styles.text, styles.listMarker, {color: textColor}]}>{item.marker}</Text>
+                <Text style={[styles.text, styles.listText, {color: textColor}]}>
+                  {renderInline(parseInline(item.text))}
+                  {itemIndex === block.items.length - 1 ? tail : null}
+                </Text>
+              </View>
+            ))}
+          </View>
+        );
+      case 'code':
+        return (
+          <View key={index}>
+            <CodeBlock language={block.language} code={block.code} />
+            {tail}
+          </View>
+        );
+      case 'rule':
+        return <View key={index} style={[styles.rule, {backgroundColor: theme.colors.border}]} />;
+      default:
+        return (
+          <Text key={index} style={[styles.text, {color: textColor}]}>
+            {renderInline(parseInline(block.text))}
+            {tail}
+          </Text>
+        );
+    }
+  };
+
+  if (blocks.length === 0) {
+    return <Text style={[styles.text, {color: textColor}]}>{trailing}</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {blocks.map((block, index) => renderBlock(block, index, index === blocks.length - 1))}
+    </View>
+  );
+};
+
+const monospace = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  text: {
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  heading: {
+    fontWeight: '700',
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  strike: {
+    textDecorationLine: 'line-through',
+  },
+  link: {
+    textDecorationLine: 'underline',
+  },
+  inlineCode: {
+    fontFamily: monospace,
+    fontSize: 14,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+  },
+  list: {
+    gap: 4,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    minWidth: 20,
+    marginRight: 4,
+  },
+  listText: {
+    flex: 1,
+  },
+  rule: {
+    height: StyleSheet.hairlineWidth,
+    marginVertical: 4,
+  },
+  codeBlock: {
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  codeLanguage: {
+    fontSize: 12,
+    fontFamily: monospace,
+  },
+  copyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  copyText: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  codeContent: {
+    padding: 10,
+  },
+  codeText: {
+    fontFamily: monospace,
+    fontSize: 13,
+    lineHeight: 19,
+  },
+  commentText: {
+    fontStyle: 'italic',
+  },
+});
+
+export default MarkdownView;
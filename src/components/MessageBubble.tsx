@@ -1,4 +1,4 @@
-import React, {useEffect, useRef} from 'react';
+import React, {useEffect, useRef, useState} from 'react';
 import {
   View,
   Text,
@@ -6,16 +6,32 @@ import {
   Animated,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
+  Image,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import {useTheme} from '../contexts/ThemeContext';
-import {Message} from '../types';
+import MarkdownView from './MarkdownView';
+import EditProposalCard from './EditProposalCard';
+import {Message, MessageEdit, MessageAttachment} from '../types';
+import {OutboxEntry} from '../services/Outbox';
+import AudioClipService from '../services/AudioClipService';
+import {formatFileSize} from '../utils/fileTree';
+import {getAttachmentIcon, isImage} from '../utils/attachments';
 
 interface MessageBubbleProps {
   message: Message;
   onLongPress?: (message: Message) => void;
   showTimestamp?: boolean;
   isTyping?: boolean;
+  onApplyEdit?: (message: Message, edit: MessageEdit) => void;
+  onRejectEdit?: (message: Message, edit: MessageEdit) => void;
+  onRevertEdit?: (message: Message, edit: MessageEdit) => void;
+  busyEditId?: string | null;
+  // Set while the message is waiting in the outbox
+  delivery?: OutboxEntry;
+  onRetryDelivery?: (id: string) => void;
+  onDiscardDelivery?: (id: string) => void;
 }
 
 const MessageBubble: React.FC<MessageBubbleProps> = ({
@@ -23,6 +39,13 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
   onLongPress,
   showTimestamp = false,
   isTyping = false,
+  onApplyEdit,
+  onRejectEdit,
+  onRevertEdit,
+  busyEditId,
+  delivery,
+  onRetryDelivery,
+  onDiscardDelivery,
 }) => {
   const {theme} = useTheme();
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -30,6 +53,36 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
 
   const isUser = message.role === 'user';
   const isAssistant = message.role === 'assistant';
+  const audioUri = message.audio?.uri;
+  // Picked copies the OS has since cleared show as file cards instead
+  const [missingThumbnails, setMissingThumbnails] = useState<string[]>([]);
+  const [isPlaying, setIsPlaying] = useState(
+    () => !!audioUri && AudioClipService.getPlayingUri() === audioUri
+  );
+
+  useEffect(() => {
+    if (!audioUri) return;
+    return AudioClipService.onPlaybackChange(uri => setIsPlaying(uri === audioUri));
+  }, [audioUri]);
+
+  const handleToggleAudio = async () => {
+    if (!audioUri) return;
+    if (isPlaying) {
+      AudioClipService.stopPlayback();
+      return;
+    }
+    try {
+      await AudioClipService.play(audioUri);
+    } catch (error) {
+      console.error('Voice clip playback error:', error);
+      Alert.alert('Playback Error', 'This recording is no longer available.');
+    }
+  };
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
 
   useEffect(() => {
     Animated.parallel([
@@ -106,6 +159,41 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
     );
   };
 
+  const renderAttachment = (attachment: MessageAttachment) => {
+    const {localUri} = attachment;
+    if (isImage(attachment.mimeType) && localUri && !missingThumbnails.includes(attachment.id)) {
+      return (
+        <Image
+          key={attachment.id}
+          source={{uri: localUri}}
+          style={styles.thumbnail}
+          resizeMode="cover"
+          onError={() => setMissingThumbnails(prev => [...prev, attachment.id])}
+        />
+      );
+    }
+
+    const color = isUser ? 'white' : theme.colors.text;
+    return (
+      <View
+        key={attachment.id}
+        style={[
+          styles.fileCard,
+          {backgroundColor: isUser ? 'rgba(255, 255, 255, 0.15)' : theme.colors.surfaceVariant},
+        ]}>
+        <Icon name={getAttachmentIcon(attachment.mimeType)} size={22} color={color} />
+        <View style={styles.fileCardInfo}>
+          <Text style={[styles.fileCardName, {color}]} numberOfLines={1}>
+            {attachment.name}
+          </Text>
+          <Text style={[styles.fileCardSize, {color: isUser ? 'white' : theme.colors.textMuted}]}>
+            {formatFileSize(attachment.size)}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
   const renderMessageContent = () => {
     if (message.isLoading) {
       return (
@@ -118,25 +206,93 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
       );
     }
 
+    const cursor = message.isStreaming ? (
+      <Text style={{color: theme.colors.primary}}>▍</Text>
+    ) : null;
+
     return (
       <View>
-        <Text style={getTextStyle()}>
-          {message.content}
-        </Text>
+        {message.attachments && message.attachments.length > 0 && (
+          <View style={styles.attachments}>{message.attachments.map(renderAttachment)}</View>
+        )}
+        {isAssistant ? (
+          <MarkdownView content={message.content} textColor={theme.colors.text} trailing={cursor} />
+        ) : (
+          <Text style={getTextStyle()}>
+            {message.content}
+            {cursor}
+          </Text>
+        )}
+        {message.edits?.map(edit => (
+          <EditProposalCard
+            key={edit.id}
+            edit={edit}
+            isBusy={busyEditId === edit.id}
+            onApply={onApplyEdit && (() => onApplyEdit(message, edit))}
+            onReject={onRejectEdit && (() => onRejectEdit(message, edit))}
+            onRevert={onRevertEdit && (() => onRevertEdit(message, edit))}
+          />
+        ))}
         {message.isVoice && (
-          <View style={styles.voiceIndicator}>
+          <TouchableOpacity
+            style={styles.voiceIndicator}
+            onPress={handleToggleAudio}
+            disabled={!message.audio}>
             <Icon
-              name="mic"
-              size={14}
+              name={!message.audio ? 'mic' : isPlaying ? 'stop-circle' : 'play-circle'}
+              size={message.audio ? 18 : 14}
               color={isUser ? 'white' : theme.colors.textMuted}
             />
             <Text style={[
               styles.voiceText,
               {color: isUser ? 'white' : theme.colors.textMuted}
             ]}>
-              Voice message
+              Voice message{message.audio ? ` · ${formatDuration(message.audio.duration)}` : ''}
             </Text>
-          </View>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderDelivery = () => {
+    if (!delivery) return null;
+
+    if (delivery.status === 'failed') {
+      return (
+        <View style={[styles.deliveryRow, {justifyContent: isUser ? 'flex-end' : 'flex-start'}]}>
+          <Icon name="alert-circle" size={14} color={theme.colors.error} />
+          <Text style={[styles.deliveryText, {color: theme.colors.error}]} numberOfLines={1}>
+            {delivery.error || 'Failed to send'}
+          </Text>
+          {onRetryDelivery && (
+            <TouchableOpacity onPress={() => onRetryDelivery(delivery.id)}>
+              <Text style={[styles.deliveryAction, {color: theme.colors.primary}]}>Retry</Text>
+            </TouchableOpacity>
+          )}
+          {onDiscardDelivery && (
+            <TouchableOpacity onPress={() => onDiscardDelivery(delivery.id)}>
+              <Text style={[styles.deliveryAction, {color: theme.colors.error}]}>Discard</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <View style={[styles.deliveryRow, {justifyContent: isUser ? 'flex-end' : 'flex-start'}]}>
+        {delivery.status === 'sending' ? (
+          <ActivityIndicator size="small" color={theme.colors.textMuted} />
+        ) : (
+          <Icon name="time-outline" size={14} color={theme.colors.textMuted} />
+        )}
+        <Text style={[styles.deliveryText, {color: theme.colors.textMuted}]}>
+          {delivery.status === 'sending' ? 'Sending...' : 'Waiting for connection'}
+        </Text>
+        {delivery.status === 'queued' && onDiscardDelivery && (
+          <TouchableOpacity onPress={() => onDiscardDelivery(delivery.id)}>
+            <Text style={[styles.deliveryAction, {color: theme.colors.textMuted}]}>Discard</Text>
+          </TouchableOpacity>
         )}
       </View>
     );
@@ -165,13 +321,16 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
               styles.bubble,
               getBubbleStyle(),
               message.isLoading && styles.loadingBubble,
+              delivery && styles.pendingBubble,
             ]}
             onLongPress={() => onLongPress?.(message)}
             activeOpacity={0.8}>
             {renderMessageContent()}
           </TouchableOpacity>
           
-          {showTimestamp && (
+          {renderDelivery()}
+
+          {showTimestamp && !delivery && (
             <Text style={[
               styles.timestamp,
               {
@@ -219,6 +378,25 @@ const styles = StyleSheet.create({
   loadingBubble: {
     opacity: 0.8,
   },
+  pendingBubble: {
+    opacity: 0.6,
+  },
+  deliveryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    marginHorizontal: 16,
+  },
+  deliveryText: {
+    fontSize: 12,
+    marginLeft: 4,
+    flexShrink: 1,
+  },
+  deliveryAction: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 12,
+  },
   loadingContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -226,6 +404,40 @@ const styles = StyleSheet.create({
   loadingText: {
     fontStyle: 'italic',
   },
+  attachments: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  thumbnail: {
+    width: 160,
+    height: 120,
+    borderRadius: 12,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: 200,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  fileCardInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  fileCardName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  fileCardSize: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
   voiceIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,87 @@
+import React, {useRef} from 'react';
+import {Animated, PanResponder, StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+interface Props {
+  children: React.ReactNode;
+  actionLabel: string;
+  actionIcon: string;
+  actionColor: string;
+  onAction: () => void;
+}
+
+const ACTION_WIDTH = 88;
+
+// Swiping left reveals a single action button behind the row
+const SwipeableRow: React.FC<Props> = ({children, actionLabel, actionIcon, actionColor, onAction}) => {
+  const translateX = useRef(new Animated.Value(0)).current;
+  const isOpen = useRef(false);
+
+  const settle = (open: boolean) => {
+    isOpen.current = open;
+    Animated.spring(translateX, {
+      toValue: open ? -ACTION_WIDTH : 0,
+      useNativeDriver: true,
+      bounciness: 0,
+    }).start();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Leave vertical scrolling and taps to the list
+      onMoveShouldSetPanResponder: (_event, gesture) =>
+        Math.abs(gesture.dx) > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderMove: (_event, gesture) => {
+        const offset = (isOpen.current ? -ACTION_WIDTH : 0) + gesture.dx;
+        translateX.setValue(Math.min(0, Math.max(-ACTION_WIDTH * 1.5, offset)));
+      },
+      onPanResponderRelease: (_event, gesture) => {
+        const offset = (isOpen.current ? -ACTION_WIDTH : 0) + gesture.dx;
+        settle(offset < -ACTION_WIDTH / 2 || gesture.vx < -0.5);
+      },
+      onPanResponderTerminate: () => settle(isOpen.current),
+    })
+  ).current;
+
+  const handleAction = () => {
+    settle(false);
+    onAction();
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.action, {backgroundColor: actionColor}]}
+        onPress={handleAction}>
+        <Icon name={actionIcon} size={20} color="white" />
+        <Text style={styles.actionText}>{actionLabel}</Text>
+      </TouchableOpacity>
+      <Animated.View style={{transform: [{translateX}]}} {...panResponder.panHandlers}>
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  action: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    right: 0,
+    width: ACTION_WIDTH,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  actionText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+});
+
+export default SwipeableRow;
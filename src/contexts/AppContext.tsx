@@ -1,7 +1,22 @@
-import React, {createContext, useContext, useState, useEffect} from 'react';
+import React, {createContext, useContext, useState, useEffect, useRef} from 'react';
+import {AppState} from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {v4 as uuidv4} from 'uuid';
-import {ChatSession, Message, AppSettings, User} from '../types';
+import {
+  ChatSession,
+  Message,
+  AppSettings,
+  User,
+  Connection,
+  AppliedEdit,
+  ContextAttachment,
+} from '../types';
+import {ChatMessage, RemoteChatSession} from '../services/ApiService';
+import {mergeMessages} from '../utils/chatSync';
+import {DEFAULT_SPEECH_LANGUAGE} from '../utils/languages';
+import {isSameAttachment} from '../utils/contextAttachments';
+import ChatStore, {PAGE_SIZE} from '../services/ChatStore';
+import AudioClipService from '../services/AudioClipService';
 
 interface AppContextValue {
   user: User | null;
@@ -10,12 +25,38 @@ interface AppContextValue {
   currentSession: ChatSession | null;
   createNewSession: () => ChatSession;
   selectSession: (sessionId: string) => void;
-  addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => void;
-  updateMessage: (messageId: string, updates: Partial<Message>) => void;
+  addMessage: (message: Omit<Message, 'id' | 'timestamp'>, sessionId?: string) => Message | null;
+  updateMessage: (messageId: string, updates: Partial<Message>, sessionId?: string) => void;
+  deleteMessage: (messageId: string, sessionId?: string) => void;
+  // Sessions start with only their latest messages loaded
+  loadEarlierMessages: (sessionId: string) => Promise<void>;
+  loadAllMessages: (sessionId: string) => Promise<Message[]>;
+  mergeRemoteHistory: (sessionId: string, messages: ChatMessage[], remote?: RemoteChatSession) => void;
+  addAppliedEdit: (edit: AppliedEdit) => void;
+  updateAppliedEdit: (editId: string, updates: Partial<AppliedEdit>) => void;
+  renameSession: (sessionId: string, title: string) => void;
+  togglePinSession: (sessionId: string) => void;
+  setSessionLanguage: (sessionId: string, language: string) => void;
   deleteSession: (sessionId: string) => void;
+  // Adds exported sessions back; returns how many were imported
+  importSessions: (sessions: ChatSession[]) => number;
+  // Deleted here but possibly still on the computer; cleared once it's gone there too
+  deletedSessionIds: string[];
+  forgetDeletedSessions: (sessionIds: string[]) => void;
   clearAllSessions: () => void;
+  // Files and snippets waiting to go out with the next chat message
+  contextAttachments: ContextAttachment[];
+  addContextAttachment: (attachment: Omit<ContextAttachment, 'id'>) => void;
+  removeContextAttachment: (attachmentId: string) => void;
+  clearContextAttachments: () => void;
   settings: AppSettings;
   updateSettings: (updates: Partial<AppSettings>) => void;
+  connectionProfiles: Connection[];
+  activeConnection: Connection | null;
+  addConnectionProfile: (profile: Omit<Connection, 'id' | 'isConnected'>, makeActive?: boolean) => Connection;
+  updateConnectionProfile: (profileId: string, updates: Partial<Connection>) => void;
+  deleteConnectionProfile: (profileId: string) => void;
+  selectConnectionProfile: (profileId: string) => void;
   isLoading: boolean;
   isFirstLaunch: boolean;
   setIsFirstLaunch: (value: boolean) => void;
@@ -25,15 +66,24 @@ const defaultSettings: AppSettings = {
   theme: 'system',
   voiceEnabled: true,
   autoSend: true,
+  readAloud: true,
+  requireWakePhrase: false,
+  speechLanguage: DEFAULT_SPEECH_LANGUAGE,
+  recordVoiceClips: false,
   connectionSettings: {
-    host: '10.194.219.53', // Correct hardcoded IP address
-    port: 47893,           // Correct mobile bridge port
+    host: '10.194.219.53', // Seeds the first connection profile on a fresh install
+    port: 47893,           // Default mobile bridge port
+    protocol: 'http',
     autoReconnect: true,
   },
 };
 
-// Log to verify hardcoded settings
-console.log('🚀 AppContext: Hardcoded connection settings loaded:', defaultSettings.connectionSettings);
+const toConnectionSettings = (profile: Connection): AppSettings['connectionSettings'] => ({
+  host: profile.host,
+  port: profile.port,
+  protocol: profile.protocol,
+  autoReconnect: profile.autoReconnect,
+});
 
 const AppContext = createContext<AppContextValue | undefined>(undefined);
 
@@ -44,6 +94,11 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({children}) =
   const [settings, setSettings] = useState<AppSettings>(defaultSettings);
   const [isLoading, setIsLoading] = useState(true);
   const [isFirstLaunch, setIsFirstLaunch] = useState(false);
+  const [connectionProfiles, setConnectionProfiles] = useState<Connection[]>([]);
+  const [deletedSessionIds, setDeletedSessionIds] = useState<string[]>([]);
+  const [contextAttachments, setContextAttachments] = useState<ContextAttachment[]>([]);
+  const chatSessionsRef = useRef(chatSessions);
+  chatSessionsRef.current = chatSessions;
 
   useEffect(() => {
     loadAppData();
@@ -53,55 +108,97 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({children}) =
     if (!isLoading) {
       saveAppData();
     }
-  }, [chatSessions, settings, user, isLoading]);
+  }, [settings, user, connectionProfiles, deletedSessionIds, isLoading]);
+
+  // The store only rewrites the records that changed
+  useEffect(() => {
+    if (!isLoading) {
+      ChatStore.save(chatSessions);
+    }
+  }, [chatSessions, isLoading]);
+
+  // Pending chat writes go out before the app can be killed in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'active') {
+        ChatStore.flush();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
 
   const loadAppData = async () => {
     try {
       const [
         savedUser,
-        savedSessions,
+        sessions,
         savedSettings,
         firstLaunch,
+        savedProfiles,
+        savedDeletedSessions,
       ] = await Promise.all([
         AsyncStorage.getItem('user'),
-        AsyncStorage.getItem('chatSessions'),
+        ChatStore.loadSessions(),
         AsyncStorage.getItem('settings'),
         AsyncStorage.getItem('isFirstLaunch'),
+        AsyncStorage.getItem('connectionProfiles'),
+        AsyncStorage.getItem('deletedChatSessions'),
       ]);
 
       if (savedUser) {
         setUser(JSON.parse(savedUser));
       }
 
-      if (savedSessions) {
-        const sessions = JSON.parse(savedSessions).map((session: any) => ({
-          ...session,
-          createdAt: new Date(session.createdAt),
-          updatedAt: new Date(session.updatedAt),
-          messages: session.messages.map((msg: any) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp),
-          })),
-        }));
-        setChatSessions(sessions);
-        
-        if (sessions.length > 0) {
-          setCurrentSession(sessions[0]);
-        }
+      if (sessions.length > 0) {
+        const opened = await withLatestMessages(sessions[0]);
+        setChatSessions([opened, ...sessions.slice(1)]);
+        setCurrentSession(opened);
+      }
+
+      if (savedDeletedSessions) {
+        setDeletedSessionIds(JSON.parse(savedDeletedSessions));
       }
 
+      let loadedSettings: AppSettings = defaultSettings;
       if (savedSettings) {
         const parsed = JSON.parse(savedSettings);
-        // Force hardcoded connection settings - never use cached connection data
-        const settingsWithHardcodedConnection = {
-          ...defaultSettings, 
+        loadedSettings = {
+          ...defaultSettings,
           ...parsed,
-          connectionSettings: defaultSettings.connectionSettings  // Always use hardcoded connection settings
+          connectionSettings: {
+            ...defaultSettings.connectionSettings,
+            ...parsed.connectionSettings,
+          },
         };
-        console.log('🚀 AppContext: Forcing hardcoded connection settings:', defaultSettings.connectionSettings);
-        setSettings(settingsWithHardcodedConnection);
       }
 
+      let profiles: Connection[] = savedProfiles
+        ? JSON.parse(savedProfiles).map((profile: any) => ({
+            ...profile,
+            isConnected: false,
+            lastConnected: profile.lastConnected ? new Date(profile.lastConnected) : undefined,
+          }))
+        : [];
+
+      if (profiles.length === 0) {
+        // Migrate the single saved host into the first profile
+        profiles = [{
+          id: uuidv4(),
+          name: 'My Computer',
+          ...loadedSettings.connectionSettings,
+          isConnected: false,
+        }];
+      }
+
+      const activeProfile =
+        profiles.find(profile => profile.id === loadedSettings.activeConnectionId) || profiles[0];
+      setConnectionProfiles(profiles);
+      setSettings({
+        ...loadedSettings,
+        activeConnectionId: activeProfile.id,
+        connectionSettings: toConnectionSettings(activeProfile),
+      });
+
       setIsFirstLaunch(firstLaunch === null);
     } catch (error) {
       console.error('Error loading app data:', error);
@@ -118,16 +215,21 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({children}) =
         savePromises.push(AsyncStorage.setItem('user', JSON.stringify(user)));
       }
 
-      if (chatSessions.length > 0) {
-        savePromises.push(
-          AsyncStorage.setItem('chatSessions', JSON.stringify(chatSessions))
-        );
-      }
-
       savePromises.push(
         AsyncStorage.setItem('settings', JSON.stringify(settings))
       );
 
+      savePromises.push(
+        AsyncStorage.setItem('deletedChatSessions', JSON.stringify(deletedSessionIds))
+      );
+
+      savePromises.push(
+        AsyncStorage.setItem(
+          'connectionProfiles',
+          JSON.stringify(connectionProfiles.map(({isConnected, ...profile}) => profile))
+        )
+      );
+
       await Promise.all(savePromises);
     } catch (error) {
       console.error('Error saving app data:', error);
@@ -148,15 +250,67 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({children}) =
     return newSession;
   };
 
+  // Loads the last page or so of a session that has nothing loaded yet
+  const withLatestMessages = async (session: ChatSession): Promise<ChatSession> => {
+    const offset = session.messageOffset || 0;
+    if (session.messages.length > 0 || offset === 0) {
+      return session;
+    }
+    const start = Math.max(0, offset - PAGE_SIZE);
+    const messages = await ChatStore.loadMessages(session.id, start, offset);
+    return {...session, messages, messageOffset: start};
+  };
+
   const selectSession = (sessionId: string) => {
     const session = chatSessions.find(s => s.id === sessionId);
     if (session) {
       setCurrentSession(session);
+      if (session.messages.length === 0 && session.messageOffset) {
+        loadStoredMessages(sessionId, PAGE_SIZE);
+      }
     }
   };
 
-  const addMessage = (message: Omit<Message, 'id' | 'timestamp'>) => {
-    if (!currentSession) return;
+  // Prepends up to `count` stored messages (all of them by default)
+  const loadStoredMessages = async (sessionId: string, count?: number): Promise<Message[]> => {
+    const session = chatSessionsRef.current.find(s => s.id === sessionId);
+    const offset = session?.messageOffset || 0;
+    if (!session || offset === 0) {
+      return session?.messages || [];
+    }
+
+    const start = count === undefined ? 0 : Math.max(0, offset - count);
+    const earlier = await ChatStore.loadMessages(sessionId, start, offset);
+    updateSession(sessionId, current =>
+      // Another load got there first
+      (current.messageOffset || 0) !== offset
+        ? current
+        : {...current, messages: [...earlier, ...current.messages], messageOffset: start}
+    );
+    return [...earlier, ...session.messages];
+  };
+
+  const loadEarlierMessages = async (sessionId: string) => {
+    await loadStoredMessages(sessionId, PAGE_SIZE);
+  };
+
+  const loadAllMessages = (sessionId: string) => loadStoredMessages(sessionId);
+
+  // Applies the same change to the stored copy and, if it's open, the current one
+  const updateSession = (sessionId: string, update: (session: ChatSession) => ChatSession) => {
+    setChatSessions(prev =>
+      prev.map(session => (session.id === sessionId ? update(session) : session))
+    );
+    setCurrentSession(prev => (prev && prev.id === sessionId ? update(prev) : prev));
+  };
+
+  // Both default to the current session; queued messages answer into the
+  // session they were written in
+  const addMessage = (
+    message: Omit<Message, 'id' | 'timestamp'>,
+    sessionId: string | undefined = currentSession?.id
+  ): Message | null => {
+    if (!sessionId) return null;
 
     const newMessage: Message = {
       id: uuidv4(),
@@ -164,67 +318,131 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({children}) =
       ...message,
     };
 
-    setChatSessions(prev =>
-      prev.map(session =>
-        session.id === currentSession.id
-          ? {
-              ...session,
-              messages: [...session.messages, newMessage],
-              updatedAt: new Date(),
-              title: session.messages.length === 0 
-                ? message.content.substring(0, 30) + (message.content.length > 30 ? '...' : '')
-                : session.title,
-            }
-          : session
-      )
-    );
+    updateSession(sessionId, session => ({
+      ...session,
+      messages: [...session.messages, newMessage],
+      updatedAt: new Date(),
+      title: (session.messageOffset || 0) + session.messages.length === 0
+        ? message.content.substring(0, 30) + (message.content.length > 30 ? '...' : '')
+        : session.title,
+    }));
 
-    setCurrentSession(prev =>
-      prev
-        ? {
-            ...prev,
-            messages: [...prev.messages, newMessage],
-            updatedAt: new Date(),
-            title: prev.messages.length === 0 
-              ? message.content.substring(0, 30) + (message.content.length > 30 ? '...' : '')
-              : prev.title,
-          }
-        : null
-    );
+    return newMessage;
   };
 
-  const updateMessage = (messageId: string, updates: Partial<Message>) => {
+  const updateMessage = (
+    messageId: string,
+    updates: Partial<Message>,
+    sessionId: string | undefined = currentSession?.id
+  ) => {
+    if (!sessionId) return;
+
+    updateSession(sessionId, session => ({
+      ...session,
+      messages: session.messages.map(msg =>
+        msg.id === messageId ? {...msg, ...updates} : msg
+      ),
+      updatedAt: new Date(),
+    }));
+  };
+
+  const deleteMessage = (messageId: string, sessionId: string | undefined = currentSession?.id) => {
+    if (!sessionId) return;
+
+    updateSession(sessionId, session => ({
+      ...session,
+      messages: session.messages.filter(msg => msg.id !== messageId),
+    }));
+  };
+
+  // Folds the bridge's copy of a conversation in, creating it if it was
+  // started on another device
+  const mergeRemoteHistory = (
+    sessionId: string,
+    messages: ChatMessage[],
+    remote?: RemoteChatSession
+  ) => {
+    const merge = (session: ChatSession): ChatSession => {
+      const merged = mergeMessages(session.messages, messages);
+      const last = merged[merged.length - 1];
+      return {
+        ...session,
+        messages: merged,
+        updatedAt: last && last.timestamp > session.updatedAt ? last.timestamp : session.updatedAt,
+        lastSyncedAt: new Date(),
+      };
+    };
+
+    setChatSessions(prev => {
+      if (prev.some(session => session.id === sessionId)) {
+        return prev.map(session => (session.id === sessionId ? merge(session) : session));
+      }
+      if (messages.length === 0 || deletedSessionIds.includes(sessionId)) {
+        return prev;
+      }
+
+      const firstMessage = messages[0].content;
+      const created = merge({
+        id: sessionId,
+        title: remote?.title ||
+          firstMessage.substring(0, 30) + (firstMessage.length > 30 ? '...' : ''),
+        messages: [],
+        createdAt: remote?.createdAt || new Date(messages[0].timestamp),
+        updatedAt: remote?.updatedAt || new Date(messages[0].timestamp),
+      });
+      return [...prev, created].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    });
+    setCurrentSession(prev => (prev && prev.id === sessionId ? merge(prev) : prev));
+  };
+
+  const updateCurrentSession = (update: (session: ChatSession) => ChatSession) => {
     if (!currentSession) return;
+    updateSession(currentSession.id, update);
+  };
 
-    setChatSessions(prev =>
-      prev.map(session =>
-        session.id === currentSession.id
-          ? {
-              ...session,
-              messages: session.messages.map(msg =>
-                msg.id === messageId ? {...msg, ...updates} : msg
-              ),
-              updatedAt: new Date(),
-            }
-          : session
-      )
-    );
+  const addAppliedEdit = (edit: AppliedEdit) => {
+    updateCurrentSession(session => ({
+      ...session,
+      appliedEdits: [edit, ...(session.appliedEdits || [])],
+    }));
+  };
 
-    setCurrentSession(prev =>
-      prev
-        ? {
-            ...prev,
-            messages: prev.messages.map(msg =>
-              msg.id === messageId ? {...msg, ...updates} : msg
-            ),
-            updatedAt: new Date(),
-          }
-        : null
-    );
+  const updateAppliedEdit = (editId: string, updates: Partial<AppliedEdit>) => {
+    updateCurrentSession(session => ({
+      ...session,
+      appliedEdits: (session.appliedEdits || []).map(edit =>
+        edit.id === editId ? {...edit, ...updates} : edit
+      ),
+    }));
+  };
+
+  const renameSession = (sessionId: string, title: string) => {
+    updateSession(sessionId, session => ({...session, title}));
+  };
+
+  const togglePinSession = (sessionId: string) => {
+    updateSession(sessionId, session => ({...session, pinned: !session.pinned}));
+  };
+
+  const setSessionLanguage = (sessionId: string, speechLanguage: string) => {
+    updateSession(sessionId, session => ({...session, speechLanguage}));
   };
 
   const deleteSession = (sessionId: string) => {
+    // Recordings live outside the chat store, including for unloaded pages
+    const deleted = chatSessionsRef.current.find(session => session.id === sessionId);
+    if (deleted) {
+      ChatStore.loadMessages(sessionId, 0, deleted.messageOffset || 0).then(earlier =>
+        [...earlier, ...deleted.messages].forEach(message => {
+          if (message.audio) {
+            AudioClipService.deleteClip(message.audio.uri);
+          }
+        })
+      );
+    }
+
     setChatSessions(prev => prev.filter(session => session.id !== sessionId));
+    setDeletedSessionIds(prev => (prev.includes(sessionId) ? prev : [...prev, sessionId]));
     
     if (currentSession?.id === sessionId) {
       const remainingSessions = chatSessions.filter(s => s.id !== sessionId);
@@ -232,8 +450,40 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({children}) =
     }
   };
 
+  const importSessions = (sessions: ChatSession[]): number => {
+    const existingIds = new Set(chatSessions.map(session => session.id));
+    const imported = sessions.map(session => {
+      if (!existingIds.has(session.id)) {
+        return session;
+      }
+      // A second copy of a conversation gets its own identity, so syncing
+      // treats it as new rather than as the original
+      return {
+        ...session,
+        id: uuidv4(),
+        lastSyncedAt: undefined,
+        messages: session.messages.map(({remoteId, ...message}) => message),
+      };
+    });
+
+    const importedIds = imported.map(session => session.id);
+    setDeletedSessionIds(prev => prev.filter(id => !importedIds.includes(id)));
+    setChatSessions(prev =>
+      [...imported, ...prev].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    );
+    return imported.length;
+  };
+
+  const forgetDeletedSessions = (sessionIds: string[]) => {
+    setDeletedSessionIds(prev => prev.filter(id => !sessionIds.includes(id)));
+  };
+
   const clearAllSessions = () => {
+    // Same as deleting each one, so the next sync removes them from the computer too
+    const clearedIds = chatSessionsRef.current.map(session => session.id);
+    AudioClipService.deleteAllClips();
     setChatSessions([]);
+    setDeletedSessionIds(prev => [...prev, ...clearedIds.filter(id => !prev.includes(id))]);
     setCurrentSession(null);
   };
 
@@ -241,6 +491,92 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({children}) =
     setSettings(prev => ({...prev, ...updates}));
   };
 
+  const activeConnection =
+    connectionProfiles.find(profile => profile.id === settings.activeConnectionId) || null;
+
+  const addConnectionProfile = (
+    profile: Omit<Connection, 'id' | 'isConnected'>,
+    makeActive: boolean = false
+  ): Connection => {
+    const newProfile: Connection = {
+      id: uuidv4(),
+      isConnected: false,
+      ...profile,
+    };
+
+    setConnectionProfiles(prev => [...prev, newProfile]);
+    if (makeActive) {
+      setSettings(prev => ({
+        ...prev,
+        activeConnectionId: newProfile.id,
+        connectionSettings: toConnectionSettings(newProfile),
+      }));
+    }
+    return newProfile;
+  };
+
+  const updateConnectionProfile = (profileId: string, updates: Partial<Connection>) => {
+    setConnectionProfiles(prev =>
+      prev.map(profile =>
+        profile.id === profileId ? {...profile, ...updates, id: profile.id} : profile
+      )
+    );
+
+    // Keep the mirrored connection settings in step with the active profile
+    if (profileId === settings.activeConnectionId) {
+      const profile = connectionProfiles.find(p => p.id === profileId);
+      if (profile) {
+        setSettings(prev => ({
+          ...prev,
+          connectionSettings: toConnectionSettings({...profile, ...updates}),
+        }));
+      }
+    }
+  };
+
+  const deleteConnectionProfile = (profileId: string) => {
+    const remainingProfiles = connectionProfiles.filter(profile => profile.id !== profileId);
+    setConnectionProfiles(remainingProfiles);
+
+    if (settings.activeConnectionId === profileId) {
+      const nextProfile = remainingProfiles[0];
+      setSettings(prev => ({
+        ...prev,
+        activeConnectionId: nextProfile?.id,
+        connectionSettings: nextProfile
+          ? toConnectionSettings(nextProfile)
+          : prev.connectionSettings,
+      }));
+    }
+  };
+
+  const selectConnectionProfile = (profileId: string) => {
+    const profile = connectionProfiles.find(p => p.id === profileId);
+    if (profile) {
+      setSettings(prev => ({
+        ...prev,
+        activeConnectionId: profile.id,
+        connectionSettings: toConnectionSettings(profile),
+      }));
+    }
+  };
+
+  // Attaching the same file or range again replaces it with the fresh content
+  const addContextAttachment = (attachment: Omit<ContextAttachment, 'id'>) => {
+    setContextAttachments(prev => [
+      ...prev.filter(existing => !isSameAttachment(existing, attachment)),
+      {...attachment, id: uuidv4()},
+    ]);
+  };
+
+  const removeContextAttachment = (attachmentId: string) => {
+    setContextAttachments(prev => prev.filter(attachment => attachment.id !== attachmentId));
+  };
+
+  const clearContextAttachments = () => {
+    setContextAttachments([]);
+  };
+
   const handleSetIsFirstLaunch = async (value: boolean) => {
     setIsFirstLaunch(value);
     if (!value) {
@@ -259,10 +595,32 @@ export const AppProvider: React.FC<{children: React.ReactNode}> = ({children}) =
         selectSession,
         addMessage,
         updateMessage,
+        deleteMessage,
+        loadEarlierMessages,
+        loadAllMessages,
+        mergeRemoteHistory,
+        addAppliedEdit,
+        updateAppliedEdit,
+        renameSession,
+        togglePinSession,
+        setSessionLanguage,
         deleteSession,
+        importSessions,
+        deletedSessionIds,
+        forgetDeletedSessions,
         clearAllSessions,
+        contextAttachments,
+        addContextAttachment,
+        removeContextAttachment,
+        clearContextAttachments,
         settings,
         updateSettings,
+        connectionProfiles,
+        activeConnection,
+        addConnectionProfile,
+        updateConnectionProfile,
+        deleteConnectionProfile,
+        selectConnectionProfile,
         isLoading,
         isFirstLaunch,
         setIsFirstLaunch: handleSetIsFirstLaunch,
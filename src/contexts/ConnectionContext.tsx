@@ -4,13 +4,23 @@ import React, {
   useEffect,
   useState,
   useCallback,
+  useRef,
   ReactNode,
 } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
-import {AppState, AppStateStatus} from 'react-native';
-import ApiService, { ApiConfig, SessionInfo, ChatMessage, Project, ProjectDetails } from '../services/ApiService';
+import {Alert, AppState, AppStateStatus, Linking} from 'react-native';
+import ApiService, { ApiConfig, SessionInfo, ChatMessage, Project, ProjectDetails, StreamCallbacks, RealtimeEventMap, RealtimeEventType, GitStatus, GitBranch, GitCommit, RemoteChatSession } from '../services/ApiService';
+import DiscoveryService, { DiscoveredBridge } from '../services/DiscoveryService';
+import CertificatePinningService from '../services/CertificatePinningService';
+import Outbox, {OutboxEntry} from '../services/Outbox';
+import {v4 as uuidv4} from 'uuid';
 import {useApp} from './AppContext';
+import {parsePairingPayload} from '../utils/pairing';
+import {toMessageEdits} from '../utils/messages';
+import {getLocalOnlyMessages, toChatMessage} from '../utils/chatSync';
+import {PickedFile} from '../utils/attachments';
+import {MessageAttachment} from '../types';
 
 export interface ConnectionConfig {
   serverUrl: string;
@@ -22,6 +32,15 @@ export interface ConnectionConfig {
   pollingInterval: number;
 }
 
+// File calls hand back their own error: lastError is a render-time value,
+// so a screen awaiting the call would read the previous one
+export interface FileResult<T> {
+  data: T | null;
+  // Set whenever data is null
+  error: string | null;
+  notFound: boolean;
+}
+
 export interface ConnectionContextValue {
   isConnected: boolean;
   isConnecting: boolean;
@@ -34,6 +53,18 @@ export interface ConnectionContextValue {
   disconnect: () => void;
   reconnect: () => Promise<boolean>;
   updateConfig: (newConfig: Partial<ConnectionConfig>) => void;
+  // LAN discovery
+  discoveredBridges: DiscoveredBridge[];
+  isDiscovering: boolean;
+  discoverBridges: () => Promise<DiscoveredBridge[]>;
+  stopDiscovery: () => void;
+  connectToBridge: (bridge: DiscoveredBridge) => void;
+  // Pairing
+  isPaired: boolean;
+  isPairing: boolean;
+  pairWithComputer: (code: string) => Promise<boolean>;
+  unpairComputer: () => Promise<void>;
+  forgetCertificate: (host: string, port: number) => Promise<void>;
   getConnectionStatus: () => {
     connected: boolean;
     connecting: boolean;
@@ -44,17 +75,47 @@ export interface ConnectionContextValue {
   };
   // API methods
   sendMessage: (message: string, isVoice?: boolean, context?: any) => Promise<{message: ChatMessage; userMessage: ChatMessage} | null>;
-  sendVoiceMessage: (text: string, language?: string, context?: any) => Promise<{message: ChatMessage; userMessage: ChatMessage} | null>;
-  getChatHistory: (limit?: number, offset?: number) => Promise<{messages: ChatMessage[]; total: number} | null>;
+  sendMessageStream: (message: string, isVoice: boolean, context: any, callbacks: StreamCallbacks) => Promise<{message: ChatMessage; userMessage: ChatMessage} | null>;
+  sendVoiceMessage: (text: string, language?: string, context?: any, clientMessageId?: string) => Promise<{message: ChatMessage; userMessage: ChatMessage} | null>;
+  transcribeAudio: (uri: string, language?: string) => Promise<string | null>;
+  // Null if the upload failed or was cancelled
+  uploadAttachment: (
+    file: PickedFile,
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+  ) => Promise<MessageAttachment | null>;
+  getChatHistory: (limit?: number, offset?: number, sessionId?: string) => Promise<{messages: ChatMessage[]; total: number} | null>;
+  // Pushes local-only messages and pulls every conversation from the computer
+  syncChatHistory: () => Promise<boolean>;
+  isSyncingChat: boolean;
+  lastChatSync: Date | null;
   clearChatHistory: () => Promise<boolean>;
   getProjects: () => Promise<Project[] | null>;
   rescanRepositories: () => Promise<Project[] | null>;
   openProject: (projectId: string, projectPath: string) => Promise<ProjectDetails | null>;
   getCurrentProject: () => Promise<ProjectDetails | null>;
-  readFile: (filePath: string) => Promise<{path: string; content: string; size: number; modified: Date; extension: string} | null>;
-  writeFile: (filePath: string, content: string) => Promise<{path: string; size: number; modified: Date} | null>;
+  readFile: (filePath: string) => Promise<FileResult<{path: string; content: string; size: number; modified: Date; extension: string}>>;
+  writeFile: (filePath: string, content: string) => Promise<FileResult<{path: string; size: number; modified: Date}>>;
+  getGitStatus: (repoPath: string) => Promise<GitStatus | null>;
+  getGitDiff: (repoPath: string, filePath: string, staged: boolean) => Promise<string | null>;
+  stageFiles: (repoPath: string, files: string[]) => Promise<boolean>;
+  unstageFiles: (repoPath: string, files: string[]) => Promise<boolean>;
+  commit: (repoPath: string, message: string) => Promise<GitCommit | null>;
+  getBranches: (repoPath: string) => Promise<GitBranch[] | null>;
+  checkoutBranch: (repoPath: string, branch: string, create?: boolean) => Promise<boolean>;
+  getGitLog: (repoPath: string, limit?: number) => Promise<GitCommit[] | null>;
   healthCheck: () => Promise<boolean>;
   getDebugInfo: () => any;
+  onRealtimeEvent: <K extends RealtimeEventType>(event: K, callback: (data: RealtimeEventMap[K]) => void) => () => void;
+  // Chat messages waiting for a connection, oldest first
+  outbox: OutboxEntry[];
+  // With an error, the entry is a send that already failed and waits for a retry
+  queueMessage: (
+    entry: Omit<OutboxEntry, 'id' | 'createdAt' | 'attempts' | 'status'> & {id?: string},
+    error?: string
+  ) => Promise<OutboxEntry>;
+  retryQueuedMessage: (id: string) => Promise<void>;
+  discardQueuedMessage: (id: string) => Promise<void>;
   // Legacy compatibility
   repositories: Project[];
   currentProject: string | null;
@@ -70,7 +131,7 @@ export interface ConnectionContextValue {
 }
 
 const defaultConfig: ConnectionConfig = {
-  serverUrl: '10.194.219.53', // Hardcoded IP address
+  serverUrl: '10.194.219.53', // Replaced by the active connection profile once loaded
   port: 47893, // Correct mobile bridge port
   protocol: 'http',
   timeout: 30000,
@@ -79,6 +140,9 @@ const defaultConfig: ConnectionConfig = {
   pollingInterval: 5000,
 };
 
+// Several messages tend to arrive together; sync once they settle
+const CHAT_SYNC_DEBOUNCE_MS = 2000;
+
 // AGGRESSIVE LOGGING - This should show in React Native logs
 console.log('======================================');
 console.log('🚀🚀🚀 ConnectionContext DEFAULT CONFIG:');
@@ -90,6 +154,16 @@ console.log('======================================');
 console.log('🚀 ConnectionContext: Using hardcoded IP address:', defaultConfig.serverUrl);
 console.log('🚀 ConnectionContext: Auto-repository opening enabled');
 
+// The bridge answers a missing file with a 404 or with the OS error
+const toFileError = (error: any, fallback: string): FileResult<never> => {
+  const message: string = error?.response?.data?.error || error?.message || fallback;
+  return {
+    data: null,
+    error: message,
+    notFound: error?.response?.status === 404 || /not found|ENOENT|no such file/i.test(message),
+  };
+};
+
 const ConnectionContext = createContext<ConnectionContextValue | undefined>(
   undefined
 );
@@ -109,7 +183,22 @@ interface ConnectionProviderProps {
 export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
   children,
 }) => {
-  const {settings} = useApp();
+  const {
+    settings,
+    activeConnection,
+    connectionProfiles,
+    addConnectionProfile,
+    updateConnectionProfile,
+    selectConnectionProfile,
+    addMessage,
+    updateMessage,
+    deleteMessage,
+    chatSessions,
+    mergeRemoteHistory,
+    loadAllMessages,
+    deletedSessionIds,
+    forgetDeletedSessions,
+  } = useApp();
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [config, setConfig] = useState<ConnectionConfig>(defaultConfig);
@@ -128,23 +217,70 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
   const [syncRetryCount, setSyncRetryCount] = useState(0);
   const [syncError, setSyncError] = useState<string | null>(null);
   const [autoOpeningProject, setAutoOpeningProject] = useState(false);
+  const realtimeUnsubscribers = useRef<Array<() => void>>([]);
+  const connectAfterSwitch = useRef(false);
+  const discoveryService = useRef<DiscoveryService | null>(null);
+  const [discoveredBridges, setDiscoveredBridges] = useState<DiscoveredBridge[]>([]);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [isPaired, setIsPaired] = useState(false);
+  const [isPairing, setIsPairing] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isSyncingChat, setIsSyncingChat] = useState(false);
+  const [lastChatSync, setLastChatSync] = useState<Date | null>(null);
+  const chatSessionsRef = useRef(chatSessions);
+  chatSessionsRef.current = chatSessions;
+  const deletedSessionIdsRef = useRef(deletedSessionIds);
+  deletedSessionIdsRef.current = deletedSessionIds;
+  const chatSyncInFlight = useRef(false);
+
+  useEffect(() => Outbox.subscribe(setOutbox), []);
+
+  // Replies to queued messages land in the session they were written in,
+  // even if the user has since moved on to another one
+  useEffect(() => {
+    if (!apiService) {
+      return;
+    }
+    return apiService.onOutboxDelivered((entry, result) => {
+      updateMessage(entry.messageId, {remoteId: result.userMessage.id}, entry.sessionId);
+      addMessage(
+        {
+          content: result.message.content,
+          role: 'assistant',
+          isVoice: result.message.isVoice,
+          edits: toMessageEdits(result.message.edits),
+          remoteId: result.message.id,
+        },
+        entry.sessionId
+      );
+    });
+  }, [apiService]);
 
   // Load saved configuration on mount
   useEffect(() => {
     loadConfig();
   }, []);
   
-  // Sync with app settings
+  // Sync with the active connection profile (mirrored in app settings)
   useEffect(() => {
     if (settings.connectionSettings) {
       const newConfig = {
         ...config,
         serverUrl: settings.connectionSettings.host,
         port: settings.connectionSettings.port,
+        protocol: settings.connectionSettings.protocol || config.protocol,
       };
-      if (newConfig.serverUrl !== config.serverUrl || newConfig.port !== config.port) {
+      if (
+        newConfig.serverUrl !== config.serverUrl ||
+        newConfig.port !== config.port ||
+        newConfig.protocol !== config.protocol
+      ) {
         console.log('Updating connection config from app settings:', newConfig);
+        // Switching computers while connected should land connected on the new one
+        connectAfterSwitch.current =
+          connectAfterSwitch.current || isConnected || settings.connectionSettings.autoReconnect;
         setConfig(newConfig);
+        saveConfig(newConfig);
       }
     }
   }, [settings.connectionSettings]);
@@ -162,6 +298,8 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
       
       const service = new ApiService(apiConfig);
       setApiService(service);
+      setIsPaired(false);
+      service.checkPaired().then(setIsPaired);
 
       // Set up connection listeners
       const unsubscribe = service.onConnectionChange((connected) => {
@@ -190,10 +328,19 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
         unsubscribe();
         service.disconnect();
         stopProjectSync();
+        setIsConnected(false);
       };
     }
   }, [config]);
 
+  // Connect the freshly created service after switching connection profiles
+  useEffect(() => {
+    if (apiService && connectAfterSwitch.current) {
+      connectAfterSwitch.current = false;
+      connect();
+    }
+  }, [apiService]);
+
   // Network state monitoring
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener(state => {
@@ -393,22 +540,27 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
       
       if (success) {
         console.log('API connected successfully');
-        // Start polling for updates
-        apiService.startPolling(config.pollingInterval);
-        
-        // Set up polling listeners
-        apiService.onPollingUpdate('session_update', (session: SessionInfo) => {
-          setSessionInfo(session);
-        });
+        if (activeConnection) {
+          updateConnectionProfile(activeConnection.id, {lastConnected: new Date()});
+        }
+        // Start the realtime event channel (falls back to polling)
+        apiService.startRealtimeUpdates(config.pollingInterval);
         
-        apiService.onPollingUpdate('project_update', (project: ProjectDetails) => {
-          if (project) {
-            setCurrentProject(project.path);
-          }
-        });
+        // Replace listeners from a previous connection
+        realtimeUnsubscribers.current.forEach(unsubscribe => unsubscribe());
+        realtimeUnsubscribers.current = [
+          apiService.onPollingUpdate('session_update', (session: SessionInfo) => {
+            setSessionInfo(session);
+          }),
+          apiService.onPollingUpdate('project_update', (project: ProjectDetails) => {
+            if (project) {
+              setCurrentProject(project.path);
+            }
+          }),
+        ];
       } else {
         console.log('API connection failed');
-        setLastError('Connection failed');
+        setLastError(apiService.getLastError() || 'Connection failed');
       }
       
       setIsConnecting(false);
@@ -419,7 +571,7 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
       setIsConnecting(false);
       return false;
     }
-  }, [config, isConnecting, isConnected, apiService]);
+  }, [config, isConnecting, isConnected, apiService, activeConnection]);
 
   const disconnect = useCallback(() => {
     if (apiService) {
@@ -456,6 +608,197 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     [config]
   );
 
+  const discoverBridges = useCallback(async (): Promise<DiscoveredBridge[]> => {
+    if (isDiscovering) {
+      return discoveredBridges;
+    }
+
+    try {
+      const netInfo = await NetInfo.fetch();
+      const details: any = netInfo.details;
+      if (netInfo.type !== 'wifi' && netInfo.type !== 'ethernet') {
+        setLastError('Connect to Wi-Fi to find computers on your network');
+        return [];
+      }
+      if (!details?.ipAddress) {
+        setLastError('Could not determine this device\'s network address');
+        return [];
+      }
+
+      setIsDiscovering(true);
+      setDiscoveredBridges([]);
+
+      const ports = Array.from(new Set([config.port, defaultConfig.port]));
+      const service = new DiscoveryService({ports, protocol: config.protocol});
+      discoveryService.current = service;
+
+      const bridges = await service.discover(details.ipAddress, details.subnet, (bridge) => {
+        setDiscoveredBridges(prev =>
+          [...prev, bridge].sort((a, b) => a.latency - b.latency)
+        );
+      });
+      console.log(`discoverBridges: Found ${bridges.length} bridges`);
+      return bridges;
+    } catch (error) {
+      console.error('discoverBridges: Discovery failed:', error);
+      return [];
+    } finally {
+      discoveryService.current = null;
+      setIsDiscovering(false);
+    }
+  }, [isDiscovering, discoveredBridges, config]);
+
+  const stopDiscovery = useCallback(() => {
+    discoveryService.current?.cancel();
+  }, []);
+
+  const connectToBridge = useCallback(
+    (bridge: DiscoveredBridge) => {
+      stopDiscovery();
+
+      const existing = connectionProfiles.find(
+        profile => profile.host === bridge.host && profile.port === bridge.port
+      );
+
+      if (existing && existing.id === activeConnection?.id) {
+        connect();
+        return;
+      }
+
+      connectAfterSwitch.current = true;
+      if (existing) {
+        selectConnectionProfile(existing.id);
+      } else {
+        addConnectionProfile(
+          {
+            name: bridge.name,
+            host: bridge.host,
+            port: bridge.port,
+            protocol: config.protocol,
+            autoReconnect: true,
+          },
+          true
+        );
+      }
+    },
+    [connectionProfiles, activeConnection, config, connect, stopDiscovery]
+  );
+
+  // Accepts the QR payload or the short code shown by the desktop app. A code
+  // without a host pairs with the computer currently selected.
+  const pairWithComputer = useCallback(
+    async (code: string): Promise<boolean> => {
+      const payload = parsePairingPayload(code);
+      if (!payload) {
+        setLastError('That doesn\'t look like a pairing code');
+        return false;
+      }
+
+      const host = payload.host || config.serverUrl;
+      const port = payload.port || config.port;
+      const isCurrentBridge = host === config.serverUrl && port === config.port;
+      const service = isCurrentBridge && apiService
+        ? apiService
+        : new ApiService({
+            baseURL: `${config.protocol}://${host}:${port}`,
+            timeout: config.timeout,
+            retryAttempts: 1,
+            retryDelay: config.retryDelay,
+          });
+
+      try {
+        setIsPairing(true);
+        setLastError(null);
+        await service.pair(payload.secret);
+        console.log('pairWithComputer: Paired with', host, port);
+      } catch (error: any) {
+        console.error('pairWithComputer: Pairing failed:', error);
+        setLastError(error.response?.data?.error || error.message || 'Pairing failed');
+        return false;
+      } finally {
+        setIsPairing(false);
+      }
+
+      if (isCurrentBridge) {
+        setIsPaired(true);
+        if (isConnected) {
+          await reconnect();
+        } else {
+          await connect();
+        }
+      } else {
+        connectToBridge({host, port, name: payload.name || host, latency: 0});
+      }
+      return true;
+    },
+    [config, apiService, isConnected, connect, reconnect, connectToBridge]
+  );
+
+  const unpairComputer = useCallback(async () => {
+    if (!apiService) {
+      return;
+    }
+    await apiService.unpair();
+    setIsPaired(false);
+    setSessionInfo(null);
+  }, [apiService]);
+
+  // Lets a regenerated bridge certificate be trusted again on the next connection
+  const forgetCertificate = useCallback(async (host: string, port: number) => {
+    await CertificatePinningService.forget(host, port);
+    console.log('forgetCertificate: Forgot pinned certificate for', host, port);
+  }, []);
+
+  // QR codes encode a stratosphere://pair link, so scanning one with the
+  // camera opens the app. Links can also come from web pages or other apps,
+  // and pairing may switch to the link's computer, so the user confirms first.
+  const pairWithComputerRef = useRef(pairWithComputer);
+  pairWithComputerRef.current = pairWithComputer;
+  const configRef = useRef(config);
+  configRef.current = config;
+  const handledInitialURL = useRef(false);
+
+  useEffect(() => {
+    if (!apiService) {
+      return;
+    }
+
+    const handleURL = ({url}: {url: string}) => {
+      if (!/^stratosphere:\/\/pair\?/i.test(url)) {
+        return;
+      }
+      const payload = parsePairingPayload(url);
+      if (!payload) {
+        setLastError('That doesn\'t look like a pairing link');
+        return;
+      }
+
+      console.log('ConnectionContext: Received pairing link');
+      const host = payload.host || configRef.current.serverUrl;
+      const port = payload.port || configRef.current.port;
+      Alert.alert(
+        'Pair with Computer?',
+        `This link pairs Stratosphere with the computer at ${host}:${port}` +
+          `${payload.name ? ` ("${payload.name}")` : ''}. ` +
+          'Only continue if you opened it from your own computer. ' +
+          'The app will send your chats and project files there.',
+        [
+          {text: 'Cancel', style: 'cancel'},
+          {text: 'Pair', onPress: () => pairWithComputerRef.current(url)},
+        ],
+        {cancelable: true}
+      );
+    };
+
+    if (!handledInitialURL.current) {
+      handledInitialURL.current = true;
+      Linking.getInitialURL().then(url => url && handleURL({url}));
+    }
+
+    const subscription = Linking.addEventListener('url', handleURL);
+    return () => subscription.remove();
+  }, [apiService]);
+
   const getConnectionStatus = useCallback(() => {
     return {
       connected: isConnected,
@@ -488,8 +831,32 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     [apiService, isConnected]
   );
 
+  const sendMessageStream = useCallback(
+    async (message: string, isVoice: boolean, context: any, callbacks: StreamCallbacks) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return null;
+      }
+
+      try {
+        setLastError(null);
+        const result = await apiService.sendMessageStream(message, isVoice, context, callbacks);
+        return result.data || null;
+      } catch (error: any) {
+        if (error.name === 'AbortError') {
+          // Cancelled by the user - not an error worth surfacing
+          return null;
+        }
+        setLastError(error.message || 'Failed to stream message');
+        console.error('Stream message error:', error);
+        return null;
+      }
+    },
+    [apiService, isConnected]
+  );
+
   const sendVoiceMessage = useCallback(
-    async (text: string, language: string = 'en-US', context?: any) => {
+    async (text: string, language: string = 'en-US', context?: any, clientMessageId?: string) => {
       if (!apiService || !isConnected) {
         setLastError('Not connected to server');
         return null;
@@ -497,7 +864,7 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
       
       try {
         setLastError(null);
-        const result = await apiService.sendVoiceMessage(text, language, context);
+        const result = await apiService.sendVoiceMessage(text, language, context, clientMessageId);
         return result.data || null;
       } catch (error: any) {
         setLastError(error.message || 'Failed to send voice message');
@@ -508,14 +875,57 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     [apiService, isConnected]
   );
 
+  const transcribeAudio = useCallback(
+    async (uri: string, language: string = 'en-US') => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return null;
+      }
+
+      try {
+        setLastError(null);
+        const result = await apiService.transcribeAudio(uri, language);
+        return result.data?.text.trim() || null;
+      } catch (error: any) {
+        setLastError(error.response?.data?.error || error.message || 'Failed to transcribe recording');
+        console.error('Transcribe audio error:', error);
+        return null;
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  const uploadAttachment = useCallback(
+    async (file: PickedFile, onProgress?: (fraction: number) => void, signal?: AbortSignal) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return null;
+      }
+
+      try {
+        setLastError(null);
+        const result = await apiService.uploadAttachment(file, onProgress, signal);
+        return result.data?.attachment || null;
+      } catch (error: any) {
+        if (signal?.aborted) {
+          return null;
+        }
+        setLastError(error.response?.data?.error || error.message || 'Failed to upload attachment');
+        console.error('Upload attachment error:', error);
+        return null;
+      }
+    },
+    [apiService, isConnected]
+  );
+
   const getChatHistory = useCallback(
-    async (limit: number = 50, offset: number = 0) => {
+    async (limit: number = 50, offset: number = 0, sessionId?: string) => {
       if (!apiService || !isConnected) {
         return null;
       }
       
       try {
-        const result = await apiService.getChatHistory(limit, offset);
+        const result = await apiService.getChatHistory(limit, offset, sessionId);
         return result.data || null;
       } catch (error) {
         console.error('Get chat history error:', error);
@@ -525,6 +935,106 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     [apiService, isConnected]
   );
 
+  const syncChatHistory = useCallback(
+    async () => {
+      if (!apiService || !isConnected || chatSyncInFlight.current) {
+        return false;
+      }
+
+      chatSyncInFlight.current = true;
+      setIsSyncingChat(true);
+      try {
+        const remoteSessions = (await apiService.getChatSessions()).data?.sessions || [];
+        const remoteById = new Map<string, RemoteChatSession>(
+          remoteSessions.map(session => [session.id, session])
+        );
+
+        // Sessions deleted on this phone are deleted on the computer too
+        const deletedIds = deletedSessionIdsRef.current;
+        for (const sessionId of deletedIds) {
+          if (remoteById.has(sessionId)) {
+            await apiService.deleteChatSession(sessionId);
+            remoteById.delete(sessionId);
+          }
+        }
+        if (deletedIds.length > 0) {
+          forgetDeletedSessions(deletedIds);
+        }
+
+        // Queued messages reach the computer through the outbox instead
+        const pendingIds = new Set((await Outbox.getEntries()).map(entry => entry.messageId));
+        const localSessions = chatSessionsRef.current;
+        const sessionIds = new Set([...localSessions.map(s => s.id), ...remoteById.keys()]);
+
+        for (const sessionId of sessionIds) {
+          const local = localSessions.find(s => s.id === sessionId);
+          const remote = remoteById.get(sessionId);
+          const localChanged = !local?.lastSyncedAt || local.updatedAt > local.lastSyncedAt;
+          const remoteChanged =
+            !!remote && (!local?.lastSyncedAt || local.lastSyncedAt < remote.updatedAt);
+          if (!localChanged && !remoteChanged) {
+            continue;
+          }
+
+          // Merging needs the whole conversation, not just the loaded pages
+          const messages = local ? await loadAllMessages(sessionId) : [];
+          const localOnly = getLocalOnlyMessages(messages, pendingIds);
+
+          if (localOnly.length > 0) {
+            await apiService.pushChatHistory(sessionId, localOnly.map(toChatMessage), local?.title);
+          } else if (!remote) {
+            continue;
+          }
+
+          // Pulled after pushing, so pushed messages come back with their ids
+          const history = await apiService.getChatHistory(
+            Math.max(remote?.messageCount || 0, messages.length, 50) + localOnly.length,
+            0,
+            sessionId
+          );
+          mergeRemoteHistory(sessionId, history.data?.messages || [], remote);
+        }
+
+        setLastChatSync(new Date());
+        return true;
+      } catch (error: any) {
+        console.error('Sync chat history error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to sync chat history');
+        return false;
+      } finally {
+        chatSyncInFlight.current = false;
+        setIsSyncingChat(false);
+      }
+    },
+    [apiService, isConnected, mergeRemoteHistory, loadAllMessages, forgetDeletedSessions]
+  );
+
+  // Catch up whenever a connection is made, and again when the computer
+  // reports new messages (from this phone or another device)
+  const syncChatHistoryRef = useRef(syncChatHistory);
+  syncChatHistoryRef.current = syncChatHistory;
+
+  useEffect(() => {
+    if (!isConnected || !apiService) {
+      return;
+    }
+    syncChatHistoryRef.current();
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = apiService.onPollingUpdate('chat_message', () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => syncChatHistoryRef.current(), CHAT_SYNC_DEBOUNCE_MS);
+    });
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      unsubscribe();
+    };
+  }, [isConnected, apiService]);
+
   const clearChatHistory = useCallback(
     async () => {
       if (!apiService || !isConnected) {
@@ -677,15 +1187,15 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
   const readFile = useCallback(
     async (filePath: string) => {
       if (!apiService || !isConnected) {
-        return null;
+        return toFileError(new Error('Not connected to server'), 'Failed to read file');
       }
       
       try {
         const result = await apiService.readFile(filePath);
-        return result.data || null;
+        return {data: result.data || null, error: result.data ? null : 'Failed to read file', notFound: false};
       } catch (error) {
         console.error('Read file error:', error);
-        return null;
+        return toFileError(error, 'Failed to read file');
       }
     },
     [apiService, isConnected]
@@ -694,14 +1204,175 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
   const writeFile = useCallback(
     async (filePath: string, content: string) => {
       if (!apiService || !isConnected) {
-        return null;
+        return toFileError(new Error('Not connected to server'), 'Failed to write file');
       }
       
       try {
         const result = await apiService.writeFile(filePath, content);
-        return result.data || null;
+        return {data: result.data || null, error: result.data ? null : 'Failed to write file', notFound: false};
       } catch (error) {
         console.error('Write file error:', error);
+        return toFileError(error, 'Failed to write file');
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  // Git operations surface the bridge's message through lastError
+  const getGitStatus = useCallback(
+    async (repoPath: string) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return null;
+      }
+
+      try {
+        setLastError(null);
+        const result = await apiService.getGitStatus(repoPath);
+        return result.data || null;
+      } catch (error: any) {
+        console.error('Git status error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to get git status');
+        return null;
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  const getGitDiff = useCallback(
+    async (repoPath: string, filePath: string, staged: boolean) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return null;
+      }
+
+      try {
+        setLastError(null);
+        const result = await apiService.getGitDiff(repoPath, filePath, staged);
+        return result.data?.diff ?? null;
+      } catch (error: any) {
+        console.error('Git diff error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to get diff');
+        return null;
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  const stageFiles = useCallback(
+    async (repoPath: string, files: string[]) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return false;
+      }
+
+      try {
+        setLastError(null);
+        await apiService.stageFiles(repoPath, files);
+        return true;
+      } catch (error: any) {
+        console.error('Stage files error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to stage files');
+        return false;
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  const unstageFiles = useCallback(
+    async (repoPath: string, files: string[]) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return false;
+      }
+
+      try {
+        setLastError(null);
+        await apiService.unstageFiles(repoPath, files);
+        return true;
+      } catch (error: any) {
+        console.error('Unstage files error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to unstage files');
+        return false;
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  const commit = useCallback(
+    async (repoPath: string, message: string) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return null;
+      }
+
+      try {
+        setLastError(null);
+        const result = await apiService.commit(repoPath, message);
+        return result.data?.commit || null;
+      } catch (error: any) {
+        console.error('Commit error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to commit');
+        return null;
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  const getBranches = useCallback(
+    async (repoPath: string) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return null;
+      }
+
+      try {
+        setLastError(null);
+        const result = await apiService.getBranches(repoPath);
+        return result.data?.branches || null;
+      } catch (error: any) {
+        console.error('Get branches error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to list branches');
+        return null;
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  const checkoutBranch = useCallback(
+    async (repoPath: string, branch: string, create: boolean = false) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return false;
+      }
+
+      try {
+        setLastError(null);
+        await apiService.checkoutBranch(repoPath, branch, create);
+        return true;
+      } catch (error: any) {
+        console.error('Checkout branch error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to switch branch');
+        return false;
+      }
+    },
+    [apiService, isConnected]
+  );
+
+  const getGitLog = useCallback(
+    async (repoPath: string, limit?: number) => {
+      if (!apiService || !isConnected) {
+        setLastError('Not connected to server');
+        return null;
+      }
+
+      try {
+        setLastError(null);
+        const result = await apiService.getGitLog(repoPath, limit);
+        return result.data?.commits || null;
+      } catch (error: any) {
+        console.error('Git log error:', error);
+        setLastError(error.response?.data?.error || error.message || 'Failed to get history');
         return null;
       }
     },
@@ -731,6 +1402,57 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     [apiService]
   );
 
+  const queueMessage = useCallback(
+    async (
+      entry: Omit<OutboxEntry, 'id' | 'createdAt' | 'attempts' | 'status'> & {id?: string},
+      error?: string
+    ) => {
+      const queuedEntry = {...entry, id: entry.id || uuidv4()};
+      if (apiService) {
+        return apiService.queueMessage(queuedEntry, error);
+      }
+      return Outbox.enqueue(queuedEntry, error);
+    },
+    [apiService]
+  );
+
+  const retryQueuedMessage = useCallback(
+    async (id: string) => {
+      if (apiService) {
+        await apiService.retryQueuedMessage(id);
+      } else {
+        await Outbox.update(id, {status: 'queued', error: undefined});
+      }
+    },
+    [apiService]
+  );
+
+  // Drops the message and its bubble - it never reached the computer
+  const discardQueuedMessage = useCallback(
+    async (id: string) => {
+      const entry = (await Outbox.getEntries()).find(e => e.id === id);
+      if (apiService) {
+        await apiService.discardQueuedMessage(id);
+      } else {
+        await Outbox.remove(id);
+      }
+      if (entry) {
+        deleteMessage(entry.messageId, entry.sessionId);
+      }
+    },
+    [apiService, deleteMessage]
+  );
+
+  const onRealtimeEvent = useCallback(
+    <K extends RealtimeEventType>(event: K, callback: (data: RealtimeEventMap[K]) => void) => {
+      if (!apiService) {
+        return () => {};
+      }
+      return apiService.onPollingUpdate(event, callback);
+    },
+    [apiService]
+  );
+
   // Legacy compatibility methods
   const refreshRepositories = useCallback(() => {
     getProjects();
@@ -748,10 +1470,26 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     disconnect,
     reconnect,
     updateConfig,
+    discoveredBridges,
+    isDiscovering,
+    discoverBridges,
+    stopDiscovery,
+    connectToBridge,
+    isPaired,
+    isPairing,
+    pairWithComputer,
+    unpairComputer,
+    forgetCertificate,
     getConnectionStatus,
     sendMessage,
+    sendMessageStream,
     sendVoiceMessage,
+    transcribeAudio,
+    uploadAttachment,
     getChatHistory,
+    syncChatHistory,
+    isSyncingChat,
+    lastChatSync,
     clearChatHistory,
     getProjects,
     rescanRepositories,
@@ -759,8 +1497,21 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({
     getCurrentProject,
     readFile,
     writeFile,
+    getGitStatus,
+    getGitDiff,
+    stageFiles,
+    unstageFiles,
+    commit,
+    getBranches,
+    checkoutBranch,
+    getGitLog,
     healthCheck,
     getDebugInfo,
+    onRealtimeEvent,
+    outbox,
+    queueMessage,
+    retryQueuedMessage,
+    discardQueuedMessage,
     // Legacy compatibility
     repositories,
     currentProject,
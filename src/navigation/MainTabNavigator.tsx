@@ -4,6 +4,7 @@ import Icon from 'react-native-vector-icons/Ionicons';
 
 import ChatScreen from '../screens/ChatScreen';
 import VoiceScreen from '../screens/VoiceScreen';
+import ProjectsScreen from '../screens/ProjectsScreen';
 
 import {useTheme} from '../contexts/ThemeContext';
 import {MainTabParamList} from '../types';
@@ -28,6 +29,9 @@ const MainTabNavigator: React.FC = () => {
             case 'Voice':
               iconName = focused ? 'mic' : 'mic-outline';
               break;
+            case 'Projects':
+              iconName = focused ? 'folder' : 'folder-outline';
+              break;
             default:
               iconName = 'help';
           }
@@ -67,6 +71,13 @@ const MainTabNavigator: React.FC = () => {
           tabBarLabel: 'Voice Chat',
         }}
       />
+      <Tab.Screen
+        name="Projects"
+        component={ProjectsScreen}
+        options={{
+          tabBarLabel: 'Projects',
+        }}
+      />
     </Tab.Navigator>
   );
 };
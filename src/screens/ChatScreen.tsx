@@ -6,14 +6,20 @@ import {
   ScrollView,
   TextInput,
   TouchableOpacity,
+  Image,
   KeyboardAvoidingView,
   Platform,
   Alert,
   Keyboard,
+  Modal,
+  RefreshControl,
 } from 'react-native';
 import {SafeAreaView} from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/Ionicons';
 import {useNavigation} from '@react-navigation/native';
+import DocumentPicker, {DocumentPickerResponse} from 'react-native-document-picker';
+import RNFS from 'react-native-fs';
+import {v4 as uuidv4} from 'uuid';
 
 import {useTheme} from '../contexts/ThemeContext';
 import {useApp} from '../contexts/AppContext';
@@ -21,23 +27,112 @@ import {useConnection} from '../contexts/ConnectionContext';
 import MessageBubble from '../components/MessageBubble';
 import VoiceButton from '../components/VoiceButton';
 import VoiceService, {VoiceResult} from '../services/VoiceService';
-import {Message} from '../types';
+import AudioClipService, {toFilePath} from '../services/AudioClipService';
+import {
+  Message,
+  MessageEdit,
+  AppliedEdit,
+  EditStatus,
+  VoiceRecording,
+  ProjectFile,
+  MessageAttachment,
+} from '../types';
+import {parseUnifiedDiff, applyPatch} from '../utils/patch';
+import {toMessageEdits} from '../utils/messages';
+import {getSessionLanguage} from '../utils/languages';
+import {formatFileSize, getFileIcon} from '../utils/fileTree';
+import {
+  MAX_CONTEXT_TOKENS,
+  findMention,
+  removeMention,
+  matchFiles,
+  estimateTokens,
+  formatTokenCount,
+  attachmentLabel,
+  toContextFiles,
+} from '../utils/contextAttachments';
+import {
+  PickedFile,
+  checkAttachmentLimits,
+  getAttachmentIcon,
+  guessMimeType,
+  isImage,
+} from '../utils/attachments';
+
+// Bigger files would crowd out the conversation; attach a range instead
+const MAX_ATTACHMENT_SIZE = 256 * 1024;
+
+const SEND_FAILED = 'Failed to send';
+
+// A picked file on its way to the computer
+interface PendingUpload {
+  key: string;
+  file: PickedFile;
+  // 0 to 1
+  progress: number;
+  attachment?: MessageAttachment;
+  error?: string;
+  controller: AbortController;
+}
 
 const ChatScreen: React.FC = () => {
   const {theme} = useTheme();
-  const {currentSession, addMessage, updateMessage, createNewSession, settings} = useApp();
-  const {isConnected, sendMessage, sendVoiceMessage, getChatHistory} = useConnection();
+  const {
+    currentSession,
+    addMessage,
+    updateMessage,
+    deleteMessage,
+    loadEarlierMessages,
+    addAppliedEdit,
+    updateAppliedEdit,
+    createNewSession,
+    settings,
+    contextAttachments,
+    addContextAttachment,
+    removeContextAttachment,
+    clearContextAttachments,
+  } = useApp();
+  const {
+    isConnected,
+    sendMessageStream,
+    sendVoiceMessage,
+    getChatHistory,
+    readFile,
+    writeFile,
+    outbox,
+    queueMessage,
+    retryQueuedMessage,
+    discardQueuedMessage,
+    syncChatHistory,
+    isSyncingChat,
+    currentProject,
+    getCurrentProject,
+    transcribeAudio,
+    uploadAttachment,
+  } = useConnection();
   const navigation = useNavigation();
   
   const [inputText, setInputText] = useState('');
+  const [inputSelection, setInputSelection] = useState({start: 0, end: 0});
+  const [projectFiles, setProjectFiles] = useState<ProjectFile[]>([]);
+  const [attachingPath, setAttachingPath] = useState<string | null>(null);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
   const [isVoiceListening, setIsVoiceListening] = useState(false);
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [partialVoiceText, setPartialVoiceText] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [busyEditId, setBusyEditId] = useState<string | null>(null);
+  const [showAppliedEdits, setShowAppliedEdits] = useState(false);
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false);
   
   const scrollViewRef = useRef<ScrollView>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
   const inputRef = useRef<TextInput>(null);
   const keyboardHeight = useRef(0);
+  // Recording made while dictating; settles once the button is released
+  const voiceClipRef = useRef<Promise<VoiceRecording | null> | null>(null);
+  const releaseVoiceClipRef = useRef<(() => void) | null>(null);
 
   useEffect(() => {
     initializeVoice();
@@ -53,19 +148,44 @@ const ChatScreen: React.FC = () => {
     return () => {
       keyboardWillShow.remove();
       keyboardWillHide.remove();
+      streamControllerRef.current?.abort();
+      AudioClipService.cancelRecording();
       VoiceService.destroy();
     };
   }, []);
 
+  const language = getSessionLanguage(currentSession, settings.speechLanguage);
+
+  useEffect(() => {
+    VoiceService.setLanguage(language);
+  }, [language]);
+
+  // Dictation spells the open project's file names correctly, and "@"
+  // mentions offer them
+  useEffect(() => {
+    if (!isConnected || !currentProject) {
+      VoiceService.setVocabulary([]);
+      setProjectFiles([]);
+      return;
+    }
+    getCurrentProject().then(project => {
+      const files = project?.files || [];
+      VoiceService.setVocabulary(files.map(file => file.name));
+      setProjectFiles(files);
+    });
+  }, [isConnected, currentProject, getCurrentProject]);
+
   useEffect(() => {
     if (!currentSession) {
       createNewSession();
     }
   }, [currentSession, createNewSession]);
 
+  // Follows new and streaming messages, but not earlier ones loaded above
+  const lastMessage = currentSession?.messages[currentSession.messages.length - 1];
   useEffect(() => {
     scrollToBottom();
-  }, [currentSession?.messages]);
+  }, [currentSession?.id, lastMessage?.id, lastMessage?.content]);
 
   const initializeVoice = async () => {
     try {
@@ -80,7 +200,7 @@ const ChatScreen: React.FC = () => {
       }
 
       const initialized = await VoiceService.initialize({
-        language: 'en-US',
+        language,
         enablePartialResults: true,
       });
       
@@ -97,94 +217,509 @@ const ChatScreen: React.FC = () => {
     }, 100);
   };
 
-  const handleSendMessage = async (text: string, isVoiceMessage = false) => {
+  const handleSendMessage = async (
+    text: string,
+    isVoiceMessage = false,
+    audio?: VoiceRecording
+  ) => {
     if (!text.trim()) return;
     if (!currentSession) {
       createNewSession();
       return;
     }
+    if (!pendingUploads.every(upload => upload.attachment)) {
+      // Dictated text waits in the input rather than going without its files
+      setInputText(text);
+      if (audio) {
+        AudioClipService.deleteClip(audio.uri);
+      }
+      Alert.alert(
+        'Attachments Not Ready',
+        'Wait for uploads to finish, or remove the ones that failed.'
+      );
+      return;
+    }
 
     // Clear input first
     setInputText('');
     setPartialVoiceText('');
+    const files = toContextFiles(contextAttachments);
+    clearContextAttachments();
+    const uploaded = pendingUploads.map(upload => upload.attachment as MessageAttachment);
+    const attachments = uploaded.length > 0 ? uploaded : undefined;
+    const attachmentIds = uploaded.map(attachment => attachment.id);
+    setPendingUploads([]);
+
+    const context = {
+      projectContext: currentSession.projectContext,
+      sessionId: currentSession.id,
+      files,
+      attachmentIds,
+    };
+    // Goes with every attempt, so the computer can ignore a repeated send
+    const clientMessageId = uuidv4();
+    const sessionId = currentSession.id;
+
+    // Held in the outbox and sent once the computer is back. With an error it
+    // waits there for the user to retry or discard it.
+    const holdInOutbox = async (messageId: string, error?: string) => {
+      await queueMessage(
+        {
+          id: clientMessageId,
+          kind: isVoiceMessage ? 'voice' : 'chat',
+          text: text.trim(),
+          language: isVoiceMessage ? language : undefined,
+          context,
+          sessionId,
+          messageId,
+        },
+        error
+      );
+    };
+
+    // Messages still waiting in the outbox go first, so a new one can't overtake them
+    if (!isConnected || outbox.length > 0) {
+      const userMessage = addMessage({
+        content: text.trim(),
+        role: 'user',
+        isVoice: isVoiceMessage,
+        audio,
+        attachments,
+      });
+      if (userMessage) {
+        await holdInOutbox(userMessage.id);
+      }
+      return;
+    }
 
     // Show typing indicator
     setIsTyping(true);
 
+    let userMessageId: string | null = null;
     try {
-      if (isConnected) {
-        // Send message via HTTP API
-        const context = {
-          projectContext: currentSession.projectContext,
-          sessionId: currentSession.id,
-        };
-        
-        const result = isVoiceMessage 
-          ? await sendVoiceMessage(text.trim(), 'en-US', context)
-          : await sendMessage(text.trim(), false, context);
-
-        if (result) {
-          // Add both user and assistant messages from API response
-          addMessage({
-            content: result.userMessage.content,
-            role: 'user',
-            isVoice: result.userMessage.isVoice,
-          });
-          
-          addMessage({
-            content: result.message.content,
-            role: 'assistant',
-            isVoice: result.message.isVoice,
-          });
-        } else {
-          // If API call failed, add user message and error response
+      if (!isVoiceMessage) {
+        await streamMessage(text.trim(), context, attachments, clientMessageId, messageId => {
+          userMessageId = messageId;
+          return holdInOutbox(messageId, SEND_FAILED);
+        });
+        return;
+      }
+
+      const result = await sendVoiceMessage(text.trim(), language, context, clientMessageId);
+      const userMessage = addMessage({
+        content: result ? result.userMessage.content : text.trim(),
+        role: 'user',
+        isVoice: isVoiceMessage,
+        remoteId: result?.userMessage.id,
+        audio,
+        attachments,
+      });
+      userMessageId = userMessage?.id || null;
+
+      if (result) {
+        addMessage({
+          content: result.message.content,
+          role: 'assistant',
+          isVoice: result.message.isVoice,
+          edits: toMessageEdits(result.message.edits),
+          remoteId: result.message.id,
+        });
+      } else if (userMessageId) {
+        await holdInOutbox(userMessageId, SEND_FAILED);
+      }
+    } catch (error: any) {
+      console.error('Error sending message:', error);
+      if (!userMessageId) {
+        userMessageId =
           addMessage({
             content: text.trim(),
             role: 'user',
             isVoice: isVoiceMessage,
-          });
-          
-          addMessage({
-            content: 'Sorry, I encountered an error. Please try again.',
-            role: 'assistant',
-          });
-        }
-      } else {
-        // Add user message first
-        addMessage({
-          content: text.trim(),
-          role: 'user',
-          isVoice: isVoiceMessage,
-        });
-        
-        // Show connection error
-        setTimeout(() => {
-          addMessage({
-            content: "I'm not connected to the computer app. Please check your connection and try again.",
-            role: 'assistant',
-          });
-          setIsTyping(false);
-        }, 500);
+            audio,
+            attachments,
+          })?.id || null;
+      }
+      if (userMessageId) {
+        await holdInOutbox(userMessageId, error.message || SEND_FAILED);
+      }
+    } finally {
+      setIsTyping(false);
+    }
+  };
+
+  const streamMessage = async (
+    text: string,
+    context: any,
+    attachments: MessageAttachment[] | undefined,
+    clientMessageId: string,
+    onFailed: (userMessageId: string) => Promise<void>
+  ) => {
+    const userMessage = addMessage({
+      content: text,
+      role: 'user',
+      isVoice: false,
+      attachments,
+    });
+
+    const assistantMessage = addMessage({
+      content: '',
+      role: 'assistant',
+      isStreaming: true,
+    });
+    if (!assistantMessage) return;
+
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+    setIsStreaming(true);
+
+    let streamedContent = '';
+    const result = await sendMessageStream(text, false, context, {
+      signal: controller.signal,
+      clientMessageId,
+      onToken: (_token, content) => {
+        // The growing bubble replaces the typing indicator
+        setIsTyping(false);
+        streamedContent = content;
+        updateMessage(assistantMessage.id, {content});
+      },
+    });
+
+    streamControllerRef.current = null;
+    setIsStreaming(false);
+
+    if (result) {
+      if (userMessage) {
+        updateMessage(userMessage.id, {remoteId: result.userMessage.id});
+      }
+      updateMessage(assistantMessage.id, {
+        content: result.message.content,
+        edits: toMessageEdits(result.message.edits),
+        isStreaming: false,
+        remoteId: result.message.id,
+      });
+    } else if (controller.signal.aborted) {
+      updateMessage(assistantMessage.id, {
+        content: streamedContent || 'Response cancelled.',
+        isStreaming: false,
+        localOnly: true,
+      });
+    } else if (streamedContent || !userMessage) {
+      // The computer has the message and was already replying
+      updateMessage(assistantMessage.id, {
+        content: streamedContent || 'Sorry, I encountered an error. Please try again.',
+        isStreaming: false,
+        localOnly: true,
+      });
+    } else {
+      // Nothing came back, so the message waits in the outbox to be retried
+      deleteMessage(assistantMessage.id);
+      await onFailed(userMessage.id);
+    }
+  };
+
+  const handleCancelStream = () => {
+    streamControllerRef.current?.abort();
+  };
+
+  const mention = isVoiceListening ? null : findMention(inputText, inputSelection.end);
+
+  // Swaps the "@query" for a chip holding the file's current content
+  const handleAttachFile = async (file: ProjectFile) => {
+    if (mention) {
+      setInputText(removeMention(inputText, mention));
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      Alert.alert(
+        'File Too Large',
+        `${file.name} is over 256 KB. Open it and attach the lines you need instead.`
+      );
+      return;
+    }
+
+    setAttachingPath(file.path);
+    try {
+      const {data, error} = await readFile(file.path);
+      if (!data) {
+        Alert.alert('Could Not Attach File', error || `Could not read ${file.name}.`);
         return;
       }
+      addContextAttachment({path: file.path, name: file.name, content: data.content});
+    } finally {
+      setAttachingPath(null);
+    }
+  };
+
+  const updateUpload = (key: string, updates: Partial<PendingUpload>) => {
+    setPendingUploads(prev =>
+      prev.map(upload => (upload.key === key ? {...upload, ...updates} : upload))
+    );
+  };
+
+  const startUpload = async (upload: PendingUpload) => {
+    const attachment = await uploadAttachment(
+      upload.file,
+      progress => updateUpload(upload.key, {progress}),
+      upload.controller.signal
+    );
+    if (upload.controller.signal.aborted) return;
+    updateUpload(upload.key, attachment ? {attachment, progress: 1} : {error: 'Upload failed'});
+  };
+
+  // Some providers don't report a size, but the copy in the cache has one
+  const getCopySize = async (fileCopyUri: string | null): Promise<number | null> => {
+    if (!fileCopyUri) return null;
+    try {
+      const stat = await RNFS.stat(toFilePath(fileCopyUri));
+      return stat.size;
     } catch (error) {
-      console.error('Error sending message:', error);
-      
-      // Add user message if not added yet
-      if (currentSession.messages[currentSession.messages.length - 1]?.content !== text.trim()) {
-        addMessage({
-          content: text.trim(),
-          role: 'user',
-          isVoice: isVoiceMessage,
-        });
+      console.error('Could not read attachment size:', error);
+      return null;
+    }
+  };
+
+  // Files upload as soon as they're picked so sending doesn't wait on them
+  const handlePickAttachments = async () => {
+    if (!isConnected) {
+      Alert.alert('Not Connected', 'Connect to your computer to attach files.');
+      return;
+    }
+
+    let results: DocumentPickerResponse[];
+    try {
+      results = await DocumentPicker.pick({
+        type: [DocumentPicker.types.allFiles],
+        allowMultiSelection: true,
+        // Android hands out content:// URIs that don't outlive the picker
+        copyTo: 'cachesDirectory',
+      });
+    } catch (error) {
+      if (!DocumentPicker.isCancel(error)) {
+        console.error('Document picker failed:', error);
+        Alert.alert('Could Not Open Files', 'Please try again.');
       }
-      
-      addMessage({
-        content: 'Sorry, I encountered an error. Please try again.',
-        role: 'assistant',
+      return;
+    }
+
+    const picked: PickedFile[] = [];
+    const unsized: string[] = [];
+    for (const result of results) {
+      const name = result.name || result.uri.split('/').pop() || 'attachment';
+      const size = result.size ?? (await getCopySize(result.fileCopyUri));
+      if (size === null) {
+        // Without a size the limits can't be checked, so don't guess
+        unsized.push(`${name}: couldn't tell how big it is`);
+        continue;
+      }
+      picked.push({
+        uri: result.fileCopyUri || result.uri,
+        name,
+        mimeType: guessMimeType(name, result.type),
+        size,
+      });
+    }
+    const {accepted, rejected} = checkAttachmentLimits(
+      picked,
+      pendingUploads.map(upload => upload.file)
+    );
+    if (unsized.length + rejected.length > 0) {
+      Alert.alert('Some Files Were Not Attached', [...unsized, ...rejected].join('\n'));
+    }
+
+    const uploads = accepted.map(file => ({
+      key: uuidv4(),
+      file,
+      progress: 0,
+      controller: new AbortController(),
+    }));
+    setPendingUploads(prev => [...prev, ...uploads]);
+    uploads.forEach(startUpload);
+  };
+
+  const handleRetryUpload = (upload: PendingUpload) => {
+    const retry = {...upload, progress: 0, error: undefined, controller: new AbortController()};
+    updateUpload(upload.key, retry);
+    startUpload(retry);
+  };
+
+  const handleRemoveUpload = (upload: PendingUpload) => {
+    upload.controller.abort();
+    setPendingUploads(prev => prev.filter(pending => pending.key !== upload.key));
+  };
+
+  const setEditStatus = (messageId: string, editId: string, status: EditStatus) => {
+    const message = currentSession?.messages.find(m => m.id === messageId);
+    if (!message?.edits) return;
+    updateMessage(messageId, {
+      edits: message.edits.map(edit => (edit.id === editId ? {...edit, status} : edit)),
+    });
+  };
+
+  const handleApplyEdit = async (message: Message, edit: MessageEdit) => {
+    if (!isConnected) {
+      Alert.alert('Not Connected', 'Connect to your computer to apply changes.');
+      return;
+    }
+
+    setBusyEditId(edit.id);
+    try {
+      const patch = parseUnifiedDiff(edit.diff);
+      if (patch.newPath === null) {
+        Alert.alert('Cannot Apply', 'Deleting files is only supported from your computer.');
+        return;
+      }
+
+      const current = await readFile(edit.filePath);
+      const createdFile = patch.oldPath === null;
+      if (createdFile && current.data) {
+        // The assistant thought this was a new file; writing it would replace the real one
+        Alert.alert(
+          'File Already Exists',
+          `${edit.filePath} already exists on your computer, and this change would replace it. Ask for an edit to the existing file instead.`
+        );
+        return;
+      }
+      if (!current.data && !(createdFile && current.notFound)) {
+        Alert.alert('Apply Failed', current.error || `Could not read ${edit.filePath}.`);
+        return;
+      }
+
+      const previousContent = current.data?.content || '';
+      const newContent = applyPatch(previousContent, patch);
+      const written = await writeFile(edit.filePath, newContent);
+      if (!written.data) {
+        Alert.alert('Apply Failed', written.error || `Could not write ${edit.filePath}.`);
+        return;
+      }
+
+      console.log('ChatScreen: Applied edit to', edit.filePath);
+      addAppliedEdit({
+        id: uuidv4(),
+        messageId: message.id,
+        editId: edit.id,
+        filePath: edit.filePath,
+        previousContent,
+        newContent,
+        createdFile,
+        appliedAt: new Date(),
       });
+      setEditStatus(message.id, edit.id, 'applied');
+    } catch (error) {
+      Alert.alert('Apply Failed', error instanceof Error ? error.message : 'Could not apply this change.');
     } finally {
-      setIsTyping(false);
+      setBusyEditId(null);
+    }
+  };
+
+  const handleRejectEdit = (message: Message, edit: MessageEdit) => {
+    setEditStatus(message.id, edit.id, 'rejected');
+  };
+
+  const revertAppliedEdit = async (applied: AppliedEdit) => {
+    setBusyEditId(applied.editId);
+    try {
+      const written = await writeFile(applied.filePath, applied.previousContent);
+      if (!written.data) {
+        Alert.alert('Revert Failed', written.error || `Could not write ${applied.filePath}.`);
+        return;
+      }
+      console.log('ChatScreen: Reverted edit to', applied.filePath);
+      updateAppliedEdit(applied.id, {revertedAt: new Date()});
+      setEditStatus(applied.messageId, applied.editId, 'reverted');
+    } finally {
+      setBusyEditId(null);
+    }
+  };
+
+  const handleRevertApplied = async (applied: AppliedEdit) => {
+    if (!isConnected) {
+      Alert.alert('Not Connected', 'Connect to your computer to revert changes.');
+      return;
+    }
+
+    // Files can't be deleted from the phone, and emptying it isn't a revert
+    if (applied.createdFile) {
+      Alert.alert(
+        'Delete on Your Computer',
+        `${applied.filePath} was created by this change. To undo it, delete the file on your computer.`
+      );
+      return;
+    }
+
+    // Reverting restores the whole file, so check nothing else changed it since
+    const current = await readFile(applied.filePath);
+    if (current.data && current.data.content !== applied.newContent) {
+      Alert.alert(
+        'File Changed Since',
+        `${applied.filePath} has been modified after this change was applied. Reverting will discard those modifications too.`,
+        [
+          {text: 'Cancel', style: 'cancel'},
+          {text: 'Revert Anyway', style: 'destructive', onPress: () => revertAppliedEdit(applied)},
+        ]
+      );
+      return;
+    }
+    await revertAppliedEdit(applied);
+  };
+
+  const handleRevertEdit = (message: Message, edit: MessageEdit) => {
+    const applied = currentSession?.appliedEdits?.find(
+      entry => entry.messageId === message.id && entry.editId === edit.id && !entry.revertedAt
+    );
+    if (applied) {
+      handleRevertApplied(applied);
+    }
+  };
+
+  // Only letting go of the button ends the recording. The recogniser can
+  // finish or fail while the user is still talking, and the clip is what the
+  // computer transcribes when it does.
+  const stopVoiceClip = () => {
+    releaseVoiceClipRef.current?.();
+    releaseVoiceClipRef.current = null;
+  };
+
+  const takeVoiceClip = async (): Promise<VoiceRecording | null> => {
+    const clip = voiceClipRef.current;
+    voiceClipRef.current = null;
+    return clip ? await clip : null;
+  };
+
+  const discardVoiceClip = async () => {
+    stopVoiceClip();
+    const clip = await takeVoiceClip();
+    if (clip) {
+      AudioClipService.deleteClip(clip.uri);
+    }
+  };
+
+  // Sends a dictated message, or leaves it in the input to be edited
+  const handleDictation = async (text: string, audio: VoiceRecording | null) => {
+    if (settings.autoSend) {
+      await handleSendMessage(text, true, audio || undefined);
+      return;
+    }
+    setInputText(text);
+    // Typed messages don't keep recordings
+    if (audio) {
+      AudioClipService.deleteClip(audio.uri);
+    }
+  };
+
+  // When the device couldn't make out the words, the computer may
+  const transcribeOnComputer = async (error?: string) => {
+    const clip = await takeVoiceClip();
+    const text = clip && isConnected ? await transcribeAudio(clip.uri, language) : null;
+    if (clip && text) {
+      setPartialVoiceText('');
+      await handleDictation(text, clip);
+      return;
+    }
+    if (clip) {
+      AudioClipService.deleteClip(clip.uri);
+    }
+    setPartialVoiceText('');
+    if (error) {
+      Alert.alert('Voice Error', error);
     }
   };
 
@@ -192,6 +727,14 @@ const ChatScreen: React.FC = () => {
     if (!isVoiceEnabled) return;
 
     try {
+      // Android may not share the microphone with the recogniser; the
+      // recording is then transcribed on the computer instead
+      if (settings.recordVoiceClips && (await AudioClipService.startRecording())) {
+        voiceClipRef.current = new Promise(resolve => {
+          releaseVoiceClipRef.current = () => resolve(AudioClipService.stopRecording());
+        });
+      }
+
       const started = await VoiceService.startListening(
         handleVoiceResult,
         handleVoiceError,
@@ -205,15 +748,18 @@ const ChatScreen: React.FC = () => {
       );
 
       if (!started) {
+        discardVoiceClip();
         Alert.alert('Voice Error', 'Failed to start voice recognition');
       }
     } catch (error) {
       console.error('Voice start error:', error);
+      discardVoiceClip();
       Alert.alert('Voice Error', 'Failed to start voice recognition');
     }
   };
 
   const handleVoiceStop = async () => {
+    stopVoiceClip();
     if (!isVoiceListening) return;
 
     try {
@@ -223,24 +769,21 @@ const ChatScreen: React.FC = () => {
     }
   };
 
-  const handleVoiceResult = (result: VoiceResult) => {
-    if (result.isFinal) {
-      setPartialVoiceText(result.text);
-      if (settings.autoSend) {
-        handleSendMessage(result.text, true);
-      } else {
-        setInputText(result.text);
-      }
-    } else {
-      setPartialVoiceText(result.text);
+  const handleVoiceResult = async (result: VoiceResult) => {
+    setPartialVoiceText(result.text);
+    if (!result.isFinal) return;
+
+    if (!result.text.trim()) {
+      await transcribeOnComputer();
+      return;
     }
+    await handleDictation(result.text, await takeVoiceClip());
   };
 
   const handleVoiceError = (error: string) => {
     console.error('Voice error:', error);
     setIsVoiceListening(false);
-    setPartialVoiceText('');
-    Alert.alert('Voice Error', error);
+    transcribeOnComputer(error);
   };
 
   const handleNewChat = () => {
@@ -250,7 +793,7 @@ const ChatScreen: React.FC = () => {
   };
 
   const renderWelcomeMessage = () => {
-    if (currentSession?.messages.length === 0) {
+    if (currentSession?.messages.length === 0 && !currentSession.messageOffset) {
       return (
         <View style={styles.welcomeContainer}>
           <View style={styles.welcomeGradient}>
@@ -332,6 +875,44 @@ const ChatScreen: React.FC = () => {
     return null;
   };
 
+  const handleDiscardQueued = (id: string) => {
+    Alert.alert(
+      'Discard Message?',
+      'This message has not been sent to your computer.',
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {text: 'Discard', style: 'destructive', onPress: () => discardQueuedMessage(id)},
+      ]
+    );
+  };
+
+  const handleLoadEarlier = async () => {
+    if (!currentSession || isLoadingEarlier) return;
+    setIsLoadingEarlier(true);
+    try {
+      await loadEarlierMessages(currentSession.id);
+    } finally {
+      setIsLoadingEarlier(false);
+    }
+  };
+
+  const renderLoadEarlier = () => {
+    if (!currentSession?.messageOffset) return null;
+
+    return (
+      <TouchableOpacity
+        style={styles.loadEarlierButton}
+        onPress={handleLoadEarlier}
+        disabled={isLoadingEarlier}>
+        <Text style={[styles.loadEarlierText, {color: theme.colors.textSecondary}]}>
+          {isLoadingEarlier
+            ? 'Loading…'
+            : `Show earlier messages (${currentSession.messageOffset})`}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const renderMessages = () => {
     if (!currentSession?.messages.length) return null;
 
@@ -340,10 +921,215 @@ const ChatScreen: React.FC = () => {
         key={message.id}
         message={message}
         showTimestamp={true}
+        delivery={outbox.find(entry => entry.messageId === message.id)}
+        onRetryDelivery={retryQueuedMessage}
+        onDiscardDelivery={handleDiscardQueued}
+        onApplyEdit={handleApplyEdit}
+        onRejectEdit={handleRejectEdit}
+        onRevertEdit={handleRevertEdit}
+        busyEditId={busyEditId}
       />
     ));
   };
 
+  const renderMentionPicker = () => {
+    if (!mention) return null;
+
+    const matches = matchFiles(projectFiles, mention.query);
+
+    return (
+      <View style={[styles.mentionPicker, {backgroundColor: theme.colors.background, borderColor: theme.colors.border}]}>
+        {projectFiles.length === 0 ? (
+          <Text style={[styles.mentionEmpty, {color: theme.colors.textMuted}]}>
+            {isConnected ? 'Open a project to mention its files' : 'Connect to your computer to mention files'}
+          </Text>
+        ) : matches.length === 0 ? (
+          <Text style={[styles.mentionEmpty, {color: theme.colors.textMuted}]}>
+            No files match "{mention.query}"
+          </Text>
+        ) : (
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {matches.map(file => (
+              <TouchableOpacity
+                key={file.path}
+                style={styles.mentionRow}
+                onPress={() => handleAttachFile(file)}
+                disabled={attachingPath !== null}>
+                <Icon name={getFileIcon(file.extension)} size={16} color={theme.colors.textSecondary} />
+                <View style={styles.mentionInfo}>
+                  <Text style={[styles.mentionName, {color: theme.colors.text}]} numberOfLines={1}>
+                    {file.name}
+                  </Text>
+                  <Text style={[styles.mentionPath, {color: theme.colors.textMuted}]} numberOfLines={1} ellipsizeMode="head">
+                    {file.relativePath}
+                  </Text>
+                </View>
+                <Text style={[styles.mentionPath, {color: theme.colors.textMuted}]}>
+                  {attachingPath === file.path ? 'Attaching…' : formatFileSize(file.size)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  const renderAttachments = () => {
+    if (contextAttachments.length === 0) return null;
+
+    const totalTokens = contextAttachments.reduce(
+      (total, attachment) => total + estimateTokens(attachment.content),
+      0
+    );
+
+    return (
+      <View style={styles.attachments}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {contextAttachments.map(attachment => (
+            <View
+              key={attachment.id}
+              style={[styles.attachmentChip, {backgroundColor: theme.colors.surfaceVariant, borderColor: theme.colors.border}]}>
+              <Icon
+                name={attachment.startLine !== undefined ? 'code-slash-outline' : 'document-text-outline'}
+                size={14}
+                color={theme.colors.primary}
+              />
+              <View style={styles.attachmentInfo}>
+                <Text style={[styles.attachmentName, {color: theme.colors.text}]} numberOfLines={1}>
+                  {attachmentLabel(attachment)}
+                </Text>
+                <Text style={[styles.attachmentSize, {color: theme.colors.textMuted}]}>
+                  {formatFileSize(attachment.content.length)} · {formatTokenCount(estimateTokens(attachment.content))}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => removeContextAttachment(attachment.id)}
+                hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+                <Icon name="close-circle" size={18} color={theme.colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+        {totalTokens > MAX_CONTEXT_TOKENS && (
+          <Text style={[styles.attachmentWarning, {color: theme.colors.warning}]}>
+            {formatTokenCount(totalTokens)} attached. Large context may slow down or cut off the reply.
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderUploads = () => {
+    if (pendingUploads.length === 0) return null;
+
+    return (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        style={styles.attachments}>
+        {pendingUploads.map(upload => {
+          const {file} = upload;
+          const isUploading = !upload.attachment && !upload.error;
+          return (
+            <TouchableOpacity
+              key={upload.key}
+              style={[styles.uploadCard, {backgroundColor: theme.colors.surfaceVariant, borderColor: upload.error ? theme.colors.error : theme.colors.border}]}
+              onPress={() => handleRetryUpload(upload)}
+              disabled={!upload.error}>
+              {isImage(file.mimeType) ? (
+                <Image source={{uri: file.uri}} style={styles.uploadThumbnail} />
+              ) : (
+                <View style={[styles.uploadThumbnail, styles.uploadIcon, {backgroundColor: theme.colors.background}]}>
+                  <Icon name={getAttachmentIcon(file.mimeType)} size={20} color={theme.colors.primary} />
+                </View>
+              )}
+              <View style={styles.uploadInfo}>
+                <Text style={[styles.attachmentName, {color: theme.colors.text}]} numberOfLines={1}>
+                  {file.name}
+                </Text>
+                <Text style={[styles.attachmentSize, {color: upload.error ? theme.colors.error : theme.colors.textMuted}]}>
+                  {upload.error
+                    ? `${upload.error} · Tap to retry`
+                    : isUploading
+                      ? `Uploading ${Math.round(upload.progress * 100)}%`
+                      : formatFileSize(file.size)}
+                </Text>
+                {isUploading && (
+                  <View style={[styles.uploadTrack, {backgroundColor: theme.colors.border}]}>
+                    <View style={[styles.uploadProgress, {width: `${upload.progress * 100}%`, backgroundColor: theme.colors.primary}]} />
+                  </View>
+                )}
+              </View>
+              <TouchableOpacity
+                onPress={() => handleRemoveUpload(upload)}
+                hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+                <Icon name="close-circle" size={18} color={theme.colors.textMuted} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    );
+  };
+
+  const renderAppliedEdits = () => {
+    const appliedEdits = currentSession?.appliedEdits || [];
+
+    return (
+      <Modal
+        visible={showAppliedEdits}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowAppliedEdits(false)}>
+        <View style={[styles.modalOverlay, {backgroundColor: theme.colors.overlay}]}>
+          <View style={[styles.appliedEditsSheet, {backgroundColor: theme.colors.surface}]}>
+            <View style={[styles.appliedEditsHeader, {borderBottomColor: theme.colors.border}]}>
+              <Text style={[styles.appliedEditsTitle, {color: theme.colors.text}]}>Applied Changes</Text>
+              <TouchableOpacity onPress={() => setShowAppliedEdits(false)}>
+                <Icon name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView>
+              {appliedEdits.length === 0 ? (
+                <Text style={[styles.appliedEditsEmpty, {color: theme.colors.textMuted}]}>
+                  Changes you apply from this chat will appear here.
+                </Text>
+              ) : (
+                appliedEdits.map(applied => (
+                  <View
+                    key={applied.id}
+                    style={[styles.appliedEditRow, {borderBottomColor: theme.colors.border}]}>
+                    <View style={styles.appliedEditInfo}>
+                      <Text style={[styles.appliedEditPath, {color: theme.colors.text}]} numberOfLines={1} ellipsizeMode="head">
+                        {applied.filePath}
+                      </Text>
+                      <Text style={[styles.appliedEditMeta, {color: theme.colors.textMuted}]}>
+                        {applied.revertedAt
+                          ? `Reverted ${new Date(applied.revertedAt).toLocaleTimeString([], {hour: '2-digit', minute: '2-digit'})}`
+                          : `Applied ${new Date(applied.appliedAt).toLocaleTimeString([], {hour: '2-digit', minute: '2-digit'})}`}
+                      </Text>
+                    </View>
+                    {!applied.revertedAt && (
+                      <TouchableOpacity
+                        style={[styles.revertButton, {borderColor: theme.colors.border}]}
+                        onPress={() => handleRevertApplied(applied)}
+                        disabled={busyEditId !== null}>
+                        <Icon name="arrow-undo" size={14} color={theme.colors.text} />
+                        <Text style={[styles.revertButtonText, {color: theme.colors.text}]}>Revert</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
   return (
     <SafeAreaView style={[styles.container, {backgroundColor: theme.colors.background}]}>
       {/* Header */}
@@ -369,11 +1155,25 @@ const ChatScreen: React.FC = () => {
             </Text>
           </View>
         </View>
-        <TouchableOpacity
-          style={[styles.newChatButton, {backgroundColor: theme.colors.primary}]}
-          onPress={handleNewChat}>
-          <Icon name="add" size={20} color="white" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerIconButton}
+            onPress={() => navigation.navigate('Sessions' as never)}>
+            <Icon name="chatbubbles-outline" size={22} color={theme.colors.text} />
+          </TouchableOpacity>
+          {currentSession?.appliedEdits?.length ? (
+            <TouchableOpacity
+              style={styles.headerIconButton}
+              onPress={() => setShowAppliedEdits(true)}>
+              <Icon name="git-compare-outline" size={22} color={theme.colors.text} />
+            </TouchableOpacity>
+          ) : null}
+          <TouchableOpacity
+            style={[styles.newChatButton, {backgroundColor: theme.colors.primary}]}
+            onPress={handleNewChat}>
+            <Icon name="add" size={20} color="white" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Messages */}
@@ -385,8 +1185,14 @@ const ChatScreen: React.FC = () => {
           ref={scrollViewRef}
           style={styles.messagesContainer}
           contentContainerStyle={styles.messagesContent}
-          showsVerticalScrollIndicator={false}>
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            isConnected ? (
+              <RefreshControl refreshing={isSyncingChat} onRefresh={syncChatHistory} />
+            ) : undefined
+          }>
           {renderWelcomeMessage()}
+          {renderLoadEarlier()}
           {renderMessages()}
           {isTyping && (
             <MessageBubble
@@ -412,8 +1218,18 @@ const ChatScreen: React.FC = () => {
               </Text>
             </View>
           ) : null}
-          
+
+          {renderMentionPicker()}
+          {renderAttachments()}
+          {renderUploads()}
+
           <View style={styles.inputRow}>
+            <TouchableOpacity
+              style={styles.attachButton}
+              onPress={handlePickAttachments}
+              disabled={isVoiceListening}>
+              <Icon name="attach" size={24} color={isConnected ? theme.colors.textSecondary : theme.colors.textMuted} />
+            </TouchableOpacity>
             <TextInput
               ref={inputRef}
               style={[
@@ -426,7 +1242,8 @@ const ChatScreen: React.FC = () => {
               ]}
               value={inputText}
               onChangeText={setInputText}
-              placeholder="Type a message or hold to speak..."
+              onSelectionChange={event => setInputSelection(event.nativeEvent.selection)}
+              placeholder="Type a message, @ to attach a file..."
               placeholderTextColor={theme.colors.textMuted}
               multiline
               maxLength={1000}
@@ -444,21 +1261,31 @@ const ChatScreen: React.FC = () => {
                 style={styles.voiceButton}
               />
               
-              <TouchableOpacity
-                style={[
-                  styles.sendButton,
-                  {
-                    backgroundColor: inputText.trim() ? theme.colors.primary : theme.colors.textMuted,
-                  },
-                ]}
-                onPress={() => handleSendMessage(inputText)}
-                disabled={!inputText.trim()}>
-                <Icon name="send" size={18} color="white" />
-              </TouchableOpacity>
+              {isStreaming ? (
+                <TouchableOpacity
+                  style={[styles.sendButton, {backgroundColor: theme.colors.error}]}
+                  onPress={handleCancelStream}>
+                  <Icon name="stop" size={18} color="white" />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[
+                    styles.sendButton,
+                    {
+                      backgroundColor: inputText.trim() ? theme.colors.primary : theme.colors.textMuted,
+                    },
+                  ]}
+                  onPress={() => handleSendMessage(inputText)}
+                  disabled={!inputText.trim()}>
+                  <Icon name="send" size={18} color="white" />
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         </View>
       </KeyboardAvoidingView>
+
+      {renderAppliedEdits()}
     </SafeAreaView>
   );
 };
@@ -503,6 +1330,84 @@ const styles = StyleSheet.create({
   connectionText: {
     fontSize: 12,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  loadEarlierButton: {
+    alignSelf: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  loadEarlierText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  headerIconButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  appliedEditsSheet: {
+    maxHeight: '70%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingBottom: 24,
+  },
+  appliedEditsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  appliedEditsTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  appliedEditsEmpty: {
+    fontSize: 14,
+    textAlign: 'center',
+    padding: 24,
+  },
+  appliedEditRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  appliedEditInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  appliedEditPath: {
+    fontSize: 15,
+  },
+  appliedEditMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  revertButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  revertButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   newChatButton: {
     width: 40,
     height: 40,
@@ -608,6 +1513,102 @@ const styles = StyleSheet.create({
     fontSize: 14,
     flex: 1,
   },
+  mentionPicker: {
+    maxHeight: 220,
+    borderWidth: 1,
+    borderRadius: 12,
+    marginBottom: 8,
+    paddingVertical: 4,
+  },
+  mentionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  mentionInfo: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  mentionName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  mentionPath: {
+    fontSize: 12,
+  },
+  mentionEmpty: {
+    fontSize: 13,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  attachments: {
+    marginBottom: 8,
+  },
+  attachmentChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 240,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingLeft: 10,
+    paddingRight: 6,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  attachmentInfo: {
+    flexShrink: 1,
+    marginHorizontal: 6,
+  },
+  attachmentName: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  attachmentSize: {
+    fontSize: 11,
+  },
+  attachmentWarning: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  uploadCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: 220,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 6,
+    marginRight: 8,
+  },
+  uploadThumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: 8,
+  },
+  uploadIcon: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  uploadInfo: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  uploadTrack: {
+    height: 3,
+    borderRadius: 2,
+    marginTop: 4,
+    overflow: 'hidden',
+  },
+  uploadProgress: {
+    height: 3,
+  },
+  attachButton: {
+    width: 36,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 4,
+  },
   inputRow: {
     flexDirection: 'row',
     alignItems: 'flex-end',
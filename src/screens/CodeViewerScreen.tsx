@@ -0,0 +1,864 @@
+import React, {useState, useEffect, useMemo, useRef, useCallback, memo} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Dimensions,
+  Keyboard,
+  Modal,
+  Platform,
+} from 'react-native';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {StackNavigationProp} from '@react-navigation/stack';
+import {EventArg, NavigationAction, RouteProp} from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+import {useTheme} from '../contexts/ThemeContext';
+import {useConnection} from '../contexts/ConnectionContext';
+import {useApp} from '../contexts/AppContext';
+import DiffView from '../components/DiffView';
+import {RootStackParamList} from '../types';
+import {formatFileSize, getExtension} from '../utils/fileTree';
+import {diffLines} from '../utils/diff';
+import {EditHistory, createHistory, recordEdit, undo, redo} from '../utils/editHistory';
+import {estimateTokens, formatTokenCount} from '../utils/contextAttachments';
+import {
+  Token,
+  TokenType,
+  MatchRange,
+  getLanguageForExtension,
+  getSyntaxColors,
+  tokenizeLines,
+  applyMatchRanges,
+  findMatches,
+} from '../utils/syntaxHighlight';
+
+type CodeViewerScreenNavigationProp = StackNavigationProp<RootStackParamList, 'CodeViewer'>;
+type CodeViewerScreenRouteProp = RouteProp<RootStackParamList, 'CodeViewer'>;
+type BeforeRemoveEvent = EventArg<'beforeRemove', true, {action: NavigationAction}>;
+
+interface Props {
+  navigation: CodeViewerScreenNavigationProp;
+  route: CodeViewerScreenRouteProp;
+}
+
+interface LoadedFile {
+  content: string;
+  size: number;
+  modified: Date;
+  extension: string;
+}
+
+const LINE_HEIGHT = 20;
+const CHAR_WIDTH = 7.8;
+// Past this, tokenizing up front costs more than highlighting is worth
+const MAX_HIGHLIGHT_LINES = 20000;
+// A single TextInput holds the whole file while editing
+const MAX_EDITABLE_SIZE = 512 * 1024;
+
+interface CodeLineProps {
+  lineNumber: number;
+  tokens: Token[];
+  matches?: MatchRange[];
+  isCurrent: boolean;
+  isSelected: boolean;
+  softWrap: boolean;
+  gutterWidth: number;
+  syntaxColors: Record<TokenType, string>;
+  gutterColor: string;
+  matchColor: string;
+  currentLineColor: string;
+  selectedLineColor: string;
+  onPressNumber: (index: number) => void;
+  onLongPressNumber: (index: number) => void;
+}
+
+// Line indexes, 0-based; the anchor is where the selection was started
+interface LineSelection {
+  anchor: number;
+  start: number;
+  end: number;
+}
+
+const CodeLine = memo(({
+  lineNumber,
+  tokens,
+  matches,
+  isCurrent,
+  isSelected,
+  softWrap,
+  gutterWidth,
+  syntaxColors,
+  gutterColor,
+  matchColor,
+  currentLineColor,
+  selectedLineColor,
+  onPressNumber,
+  onLongPressNumber,
+}: CodeLineProps) => (
+  <View
+    style={[
+      styles.line,
+      isCurrent && {backgroundColor: currentLineColor},
+      isSelected && {backgroundColor: selectedLineColor},
+    ]}>
+    <Text
+      style={[styles.lineNumber, {width: gutterWidth, color: gutterColor}]}
+      onPress={() => onPressNumber(lineNumber - 1)}
+      onLongPress={() => onLongPressNumber(lineNumber - 1)}>
+      {lineNumber}
+    </Text>
+    <Text style={[styles.code, softWrap && styles.codeWrapped]} numberOfLines={softWrap ? undefined : 1}>
+      {applyMatchRanges(tokens, matches || []).map((token, index) => (
+        <Text
+          key={index}
+          style={[
+            {color: syntaxColors[token.type]},
+            token.type === 'comment' && styles.commentText,
+            token.isMatch && {backgroundColor: matchColor},
+          ]}>
+          {token.text}
+        </Text>
+      ))}
+      {tokens.length === 0 ? ' ' : null}
+    </Text>
+  </View>
+));
+
+const CodeViewerScreen: React.FC<Props> = ({navigation, route}) => {
+  const {theme} = useTheme();
+  const {isConnected, readFile, writeFile} = useConnection();
+  const {addContextAttachment} = useApp();
+  const {filePath, fileName} = route.params;
+
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [softWrap, setSoftWrap] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [currentMatch, setCurrentMatch] = useState(0);
+  const [showGoToLine, setShowGoToLine] = useState(false);
+  const [goToLineText, setGoToLineText] = useState('');
+  const [highlightedLine, setHighlightedLine] = useState<number | null>(null);
+  const [history, setHistory] = useState<EditHistory | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // The computer's version when a save found it changed underneath us
+  const [conflict, setConflict] = useState<LoadedFile | null>(null);
+  const [showConflictDiff, setShowConflictDiff] = useState(false);
+  // Lines picked to attach to the next chat message
+  const [selection, setSelection] = useState<LineSelection | null>(null);
+  const listRef = useRef<FlatList<number>>(null);
+
+  const isEditing = history !== null;
+  const isDirty = !!file && !!history && history.present !== file.content;
+
+  useEffect(() => {
+    loadFile();
+  }, [filePath, isConnected]);
+
+  const loadFile = async () => {
+    if (!isConnected) {
+      setIsLoading(false);
+      setLoadError('Please connect to your computer app to view files.');
+      return;
+    }
+
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const result = await readFile(filePath);
+      if (result.data) {
+        setFile(result.data);
+      } else {
+        setLoadError(result.error || 'Could not read this file.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Don't lose edits to a back swipe
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('beforeRemove', (e: BeforeRemoveEvent) => {
+      if (!isDirty) {
+        return;
+      }
+      e.preventDefault();
+      Alert.alert(
+        'Discard Changes?',
+        'You have unsaved changes to this file.',
+        [
+          {text: 'Keep Editing', style: 'cancel'},
+          {text: 'Discard', style: 'destructive', onPress: () => navigation.dispatch(e.data.action)},
+        ]
+      );
+    });
+    return unsubscribe;
+  }, [navigation, isDirty]);
+
+  const handleStartEditing = () => {
+    if (!file) return;
+    if (file.content.length > MAX_EDITABLE_SIZE) {
+      Alert.alert('File Too Large', 'Files over 512 KB can only be viewed on the phone.');
+      return;
+    }
+    setShowSearch(false);
+    setShowGoToLine(false);
+    setSelection(null);
+    setHistory(createHistory(file.content));
+  };
+
+  const handleStopEditing = () => {
+    if (!isDirty) {
+      setHistory(null);
+      return;
+    }
+    Alert.alert(
+      'Unsaved Changes',
+      'Save your changes before leaving edit mode?',
+      [
+        {text: 'Keep Editing', style: 'cancel'},
+        {text: 'Discard', style: 'destructive', onPress: () => setHistory(null)},
+        {text: 'Save', onPress: async () => {
+          if (await handleSave()) {
+            setHistory(null);
+          }
+        }},
+      ]
+    );
+  };
+
+  const applyServerVersion = (latest: LoadedFile) => {
+    setFile(latest);
+    setHistory(history ? createHistory(latest.content) : null);
+    setConflict(null);
+    setShowConflictDiff(false);
+  };
+
+  const promptConflict = (latest: LoadedFile) => {
+    Alert.alert(
+      'File Changed on Computer',
+      `${fileName || 'This file'} was modified on your computer after you opened it.`,
+      [
+        {text: 'Show Diff', onPress: () => setShowConflictDiff(true)},
+        {text: 'Reload', onPress: () => applyServerVersion(latest)},
+        {text: 'Overwrite', style: 'destructive', onPress: () => handleSave(true)},
+      ],
+      {cancelable: true}
+    );
+  };
+
+  // Returns whether the file was written
+  const handleSave = async (overwrite: boolean = false): Promise<boolean> => {
+    if (!file || !history) {
+      return false;
+    }
+
+    setIsSaving(true);
+    try {
+      if (!overwrite) {
+        // Someone may have edited the file on the desktop since we read it
+        const {data: latest, error} = await readFile(filePath);
+        if (!latest) {
+          Alert.alert('Save Failed', error || 'Could not check the file on your computer. Please try again.');
+          return false;
+        }
+        if (
+          new Date(latest.modified).getTime() !== new Date(file.modified).getTime() &&
+          latest.content !== file.content
+        ) {
+          setConflict(latest);
+          promptConflict(latest);
+          return false;
+        }
+      }
+
+      const content = history.present;
+      const {data: result, error} = await writeFile(filePath, content);
+      if (!result) {
+        Alert.alert('Save Failed', error || 'Could not save the file. Please try again.');
+        return false;
+      }
+
+      console.log('CodeViewerScreen: Saved', filePath);
+      setFile({...file, content, size: result.size, modified: result.modified});
+      setConflict(null);
+      setShowConflictDiff(false);
+      return true;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const lines = useMemo(() => (file ? file.content.split(/\r?\n/) : []), [file]);
+  const lineIndexes = useMemo(() => lines.map((_, index) => index), [lines]);
+
+  const language = useMemo(
+    () => getLanguageForExtension(file?.extension || getExtension(fileName || filePath)),
+    [file, fileName, filePath]
+  );
+
+  const tokens = useMemo(
+    () => tokenizeLines(lines, lines.length <= MAX_HIGHLIGHT_LINES ? language : null),
+    [lines, language]
+  );
+
+  const matches = useMemo(() => findMatches(lines, searchQuery), [lines, searchQuery]);
+
+  const matchesByLine = useMemo(() => {
+    const byLine = new Map<number, MatchRange[]>();
+    matches.forEach(match => {
+      const ranges = byLine.get(match.line) || [];
+      ranges.push({start: match.start, end: match.end});
+      byLine.set(match.line, ranges);
+    });
+    return byLine;
+  }, [matches]);
+
+  const gutterWidth = String(lines.length).length * CHAR_WIDTH + 16;
+  const contentWidth = useMemo(() => {
+    const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
+    return Math.max(Dimensions.get('window').width, gutterWidth + longest * CHAR_WIDTH + 32);
+  }, [lines, gutterWidth]);
+
+  const syntaxColors = getSyntaxColors(theme.isDark);
+
+  const scrollToLine = useCallback((line: number) => {
+    setHighlightedLine(line);
+    listRef.current?.scrollToIndex({index: line, animated: true, viewPosition: 0.3});
+  }, []);
+
+  useEffect(() => {
+    setCurrentMatch(0);
+    if (matches.length > 0) {
+      scrollToLine(matches[0].line);
+    }
+  }, [matches]);
+
+  const handleNextMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = (currentMatch + direction + matches.length) % matches.length;
+    setCurrentMatch(next);
+    scrollToLine(matches[next].line);
+  };
+
+  const handleGoToLine = () => {
+    const line = parseInt(goToLineText, 10);
+    if (isNaN(line)) return;
+    scrollToLine(Math.min(Math.max(line, 1), lines.length) - 1);
+    setShowGoToLine(false);
+    setGoToLineText('');
+    Keyboard.dismiss();
+  };
+
+  // Long-pressing a line number starts a selection; tapping another one
+  // stretches it from where it started
+  const handleLongPressNumber = useCallback((index: number) => {
+    setSelection({anchor: index, start: index, end: index});
+  }, []);
+
+  const handlePressNumber = useCallback((index: number) => {
+    setSelection(current =>
+      current && {
+        anchor: current.anchor,
+        start: Math.min(current.anchor, index),
+        end: Math.max(current.anchor, index),
+      }
+    );
+  }, []);
+
+  const selectedText = useMemo(
+    () => (selection ? lines.slice(selection.start, selection.end + 1).join('\n') : ''),
+    [lines, selection]
+  );
+
+  const handleAddToChat = () => {
+    if (!selection) return;
+    addContextAttachment({
+      path: filePath,
+      name: fileName || filePath.split(/[\\/]/).pop() || filePath,
+      content: selectedText,
+      startLine: selection.start + 1,
+      endLine: selection.end + 1,
+    });
+    setSelection(null);
+    Alert.alert(
+      'Added to Chat',
+      'The selected lines will be sent with your next message.',
+      [
+        {text: 'Keep Reading', style: 'cancel'},
+        {text: 'Go to Chat', onPress: () => navigation.navigate('Main', {screen: 'Chat'} as never)},
+      ]
+    );
+  };
+
+  const renderLine = useCallback(
+    ({item: index}: {item: number}) => (
+      <CodeLine
+        lineNumber={index + 1}
+        tokens={tokens[index] || []}
+        matches={matchesByLine.get(index)}
+        isCurrent={index === highlightedLine}
+        isSelected={!!selection && index >= selection.start && index <= selection.end}
+        softWrap={softWrap}
+        gutterWidth={gutterWidth}
+        syntaxColors={syntaxColors}
+        gutterColor={theme.colors.textMuted}
+        matchColor={theme.colors.warning + '66'}
+        currentLineColor={theme.colors.primary + '22'}
+        selectedLineColor={theme.colors.primary + '44'}
+        onPressNumber={handlePressNumber}
+        onLongPressNumber={handleLongPressNumber}
+      />
+    ),
+    [
+      tokens,
+      matchesByLine,
+      highlightedLine,
+      selection,
+      softWrap,
+      gutterWidth,
+      syntaxColors,
+      theme,
+      handlePressNumber,
+      handleLongPressNumber,
+    ]
+  );
+
+  const renderToolbarButton = (
+    icon: string,
+    onPress: () => void,
+    isActive: boolean = false,
+    disabled: boolean = false
+  ) => (
+    <TouchableOpacity style={styles.headerButton} onPress={onPress} disabled={disabled}>
+      <Icon
+        name={icon}
+        size={22}
+        color={disabled ? theme.colors.textMuted : isActive ? theme.colors.primary : theme.colors.text}
+      />
+    </TouchableOpacity>
+  );
+
+  const renderViewerButtons = () => (
+    <>
+      {renderToolbarButton('search', () => {
+        setShowSearch(!showSearch);
+        setShowGoToLine(false);
+      }, showSearch)}
+      {renderToolbarButton('arrow-redo-outline', () => {
+        setShowGoToLine(!showGoToLine);
+        setShowSearch(false);
+      }, showGoToLine)}
+      {renderToolbarButton('return-down-forward-outline', () => setSoftWrap(!softWrap), softWrap)}
+      {renderToolbarButton('create-outline', handleStartEditing, false, !file)}
+    </>
+  );
+
+  const renderEditorButtons = () => (
+    <>
+      {renderToolbarButton('arrow-undo', () => history && setHistory(undo(history)), false, !history?.past.length)}
+      {renderToolbarButton('arrow-redo', () => history && setHistory(redo(history)), false, !history?.future.length)}
+      {isSaving ? (
+        <View style={styles.headerButton}>
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+        </View>
+      ) : (
+        renderToolbarButton('save-outline', () => handleSave(), isDirty, !isDirty)
+      )}
+      {renderToolbarButton('checkmark', handleStopEditing)}
+    </>
+  );
+
+  const renderEditor = () => (
+    <TextInput
+      style={[styles.editor, {color: syntaxColors.plain}]}
+      value={history?.present}
+      onChangeText={(text) => history && setHistory(recordEdit(history, text))}
+      multiline
+      autoCapitalize="none"
+      autoCorrect={false}
+      spellCheck={false}
+      textAlignVertical="top"
+      keyboardType={Platform.OS === 'android' ? 'visible-password' : 'default'}
+    />
+  );
+
+  const renderConflictDiff = () => (
+    <Modal
+      visible={showConflictDiff && conflict !== null}
+      animationType="slide"
+      onRequestClose={() => setShowConflictDiff(false)}>
+      <SafeAreaView style={[styles.container, {backgroundColor: theme.colors.background}]}>
+        <View style={[styles.header, {backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border}]}>
+          <TouchableOpacity style={styles.headerButton} onPress={() => setShowConflictDiff(false)}>
+            <Icon name="close" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={[styles.headerTitle, {color: theme.colors.text}]}>Computer vs. Your Edits</Text>
+            <Text style={[styles.headerSubtitle, {color: theme.colors.textMuted}]}>
+              - on computer · + your version
+            </Text>
+          </View>
+        </View>
+        <ScrollView style={styles.container}>
+          {conflict && history && (
+            <DiffView lines={diffLines(conflict.content, history.present)} />
+          )}
+        </ScrollView>
+        <View style={[styles.conflictActions, {borderTopColor: theme.colors.border}]}>
+          <TouchableOpacity
+            style={[styles.conflictButton, {borderColor: theme.colors.border}]}
+            onPress={() => conflict && applyServerVersion(conflict)}>
+            <Text style={[styles.conflictButtonText, {color: theme.colors.text}]}>Reload</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.conflictButton, {backgroundColor: theme.colors.error, borderColor: theme.colors.error}]}
+            onPress={() => handleSave(true)}>
+            <Text style={[styles.conflictButtonText, {color: 'white'}]}>Overwrite</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+
+  const renderSearchBar = () => (
+    <View style={[styles.toolbar, {backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border}]}>
+      <Icon name="search" size={18} color={theme.colors.textMuted} />
+      <TextInput
+        style={[styles.toolbarInput, {color: theme.colors.text}]}
+        value={searchQuery}
+        onChangeText={setSearchQuery}
+        placeholder="Find in file"
+        placeholderTextColor={theme.colors.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus
+        returnKeyType="search"
+        onSubmitEditing={() => handleNextMatch(1)}
+      />
+      <Text style={[styles.matchCount, {color: theme.colors.textMuted}]}>
+        {matches.length > 0 ? `${currentMatch + 1} of ${matches.length}` : searchQuery ? 'No results' : ''}
+      </Text>
+      <TouchableOpacity style={styles.toolbarButton} onPress={() => handleNextMatch(-1)}>
+        <Icon name="chevron-up" size={20} color={theme.colors.text} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.toolbarButton} onPress={() => handleNextMatch(1)}>
+        <Icon name="chevron-down" size={20} color={theme.colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderGoToLineBar = () => (
+    <View style={[styles.toolbar, {backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border}]}>
+      <Icon name="arrow-redo-outline" size={18} color={theme.colors.textMuted} />
+      <TextInput
+        style={[styles.toolbarInput, {color: theme.colors.text}]}
+        value={goToLineText}
+        onChangeText={setGoToLineText}
+        placeholder={`Go to line (1-${lines.length})`}
+        placeholderTextColor={theme.colors.textMuted}
+        keyboardType="number-pad"
+        autoFocus
+        returnKeyType="go"
+        onSubmitEditing={handleGoToLine}
+      />
+      <TouchableOpacity style={styles.toolbarButton} onPress={handleGoToLine}>
+        <Text style={[styles.goText, {color: theme.colors.primary}]}>Go</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSelectionBar = () => {
+    if (!selection) return null;
+
+    const lineCount = selection.end - selection.start + 1;
+    return (
+      <View style={[styles.selectionBar, {backgroundColor: theme.colors.surface, borderTopColor: theme.colors.border}]}>
+        <View style={styles.selectionInfo}>
+          <Text style={[styles.selectionTitle, {color: theme.colors.text}]}>
+            {lineCount === 1
+              ? `Line ${selection.start + 1}`
+              : `Lines ${selection.start + 1}-${selection.end + 1}`}
+          </Text>
+          <Text style={[styles.selectionHint, {color: theme.colors.textMuted}]}>
+            {lineCount === 1
+              ? 'Tap another line number to extend'
+              : formatTokenCount(estimateTokens(selectedText))}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => setSelection(null)}>
+          <Text style={[styles.goText, {color: theme.colors.textSecondary}]}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.addToChatButton, {backgroundColor: theme.colors.primary}]}
+          onPress={handleAddToChat}>
+          <Icon name="chatbubble-ellipses-outline" size={16} color="white" />
+          <Text style={styles.addToChatText}>Add to Chat</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderCode = () => {
+    const list = (
+      <FlatList
+        ref={listRef}
+        data={lineIndexes}
+        keyExtractor={item => String(item)}
+        renderItem={renderLine}
+        style={softWrap ? undefined : {width: contentWidth}}
+        contentContainerStyle={styles.codeContent}
+        initialNumToRender={40}
+        maxToRenderPerBatch={40}
+        windowSize={11}
+        removeClippedSubviews
+        keyboardShouldPersistTaps="handled"
+        // Fixed-height rows make jumping to any line instant; wrapped rows vary
+        getItemLayout={softWrap ? undefined : (_, index) => ({
+          length: LINE_HEIGHT,
+          offset: LINE_HEIGHT * index,
+          index,
+        })}
+        onScrollToIndexFailed={({index, averageItemLength}) => {
+          listRef.current?.scrollToOffset({offset: index * averageItemLength, animated: false});
+          setTimeout(() => listRef.current?.scrollToIndex({index, animated: true, viewPosition: 0.3}), 100);
+        }}
+      />
+    );
+
+    if (softWrap) {
+      return list;
+    }
+
+    return (
+      <ScrollView horizontal bounces={false} keyboardShouldPersistTaps="handled">
+        {list}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, {backgroundColor: theme.colors.background}]}>
+      {/* Header */}
+      <View style={[styles.header, {backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border}]}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Icon name="chevron-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={[styles.headerTitle, {color: theme.colors.text}]} numberOfLines={1}>
+            {fileName || filePath.split(/[\\/]/).pop()}
+          </Text>
+          {file && (
+            <Text style={[styles.headerSubtitle, {color: isDirty ? theme.colors.warning : theme.colors.textMuted}]}>
+              {isEditing
+                ? isDirty ? 'Unsaved changes' : 'Editing'
+                : `${lines.length} lines · ${formatFileSize(file.size)}${language ? ` · ${language}` : ''}`}
+            </Text>
+          )}
+        </View>
+        {isEditing ? renderEditorButtons() : renderViewerButtons()}
+      </View>
+
+      {showSearch && renderSearchBar()}
+      {showGoToLine && renderGoToLineBar()}
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : loadError ? (
+        <View style={styles.centered}>
+          <Icon name="alert-circle-outline" size={48} color={theme.colors.textMuted} />
+          <Text style={[styles.errorText, {color: theme.colors.textSecondary}]}>{loadError}</Text>
+          <TouchableOpacity
+            style={[styles.retryButton, {backgroundColor: theme.colors.primary}]}
+            onPress={loadFile}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={[styles.codeContainer, {backgroundColor: theme.isDark ? '#1E1E1E' : '#FFFFFF'}]}>
+          {isEditing ? renderEditor() : renderCode()}
+        </View>
+      )}
+
+      {!isEditing && renderSelectionBar()}
+
+      {renderConflictDiff()}
+    </SafeAreaView>
+  );
+};
+
+const monospace = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerCenter: {
+    flex: 1,
+    paddingHorizontal: 4,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+  },
+  toolbarInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 6,
+    marginLeft: 8,
+  },
+  toolbarButton: {
+    padding: 6,
+  },
+  matchCount: {
+    fontSize: 12,
+    marginHorizontal: 6,
+  },
+  goText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  codeContainer: {
+    flex: 1,
+  },
+  codeContent: {
+    paddingVertical: 8,
+  },
+  line: {
+    flexDirection: 'row',
+    minHeight: LINE_HEIGHT,
+    paddingRight: 16,
+  },
+  lineNumber: {
+    fontFamily: monospace,
+    fontSize: 12,
+    lineHeight: LINE_HEIGHT,
+    textAlign: 'right',
+    paddingRight: 12,
+  },
+  code: {
+    fontFamily: monospace,
+    fontSize: 13,
+    lineHeight: LINE_HEIGHT,
+  },
+  codeWrapped: {
+    flex: 1,
+  },
+  editor: {
+    flex: 1,
+    fontFamily: monospace,
+    fontSize: 13,
+    lineHeight: LINE_HEIGHT,
+    padding: 12,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    padding: 16,
+    borderTopWidth: 1,
+  },
+  conflictButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginHorizontal: 6,
+  },
+  conflictButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  commentText: {
+    fontStyle: 'italic',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  selectionInfo: {
+    flex: 1,
+  },
+  selectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  selectionHint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  addToChatButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    marginLeft: 4,
+  },
+  addToChatText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default CodeViewerScreen;
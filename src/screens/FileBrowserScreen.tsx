@@ -0,0 +1,318 @@
+import React, {useState, useEffect, useMemo, useRef} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  BackHandler,
+} from 'react-native';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {StackNavigationProp} from '@react-navigation/stack';
+import {RouteProp} from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+import {useTheme} from '../contexts/ThemeContext';
+import {useConnection} from '../contexts/ConnectionContext';
+import {ProjectDetails} from '../services/ApiService';
+import {RootStackParamList} from '../types';
+import {
+  FileTreeEntry,
+  buildStructureFromFiles,
+  listDirectory,
+  formatFileSize,
+  getFileIcon,
+  toRelativePath,
+} from '../utils/fileTree';
+
+type FileBrowserScreenNavigationProp = StackNavigationProp<RootStackParamList, 'FileBrowser'>;
+type FileBrowserScreenRouteProp = RouteProp<RootStackParamList, 'FileBrowser'>;
+
+interface Props {
+  navigation: FileBrowserScreenNavigationProp;
+  route: FileBrowserScreenRouteProp;
+}
+
+const FileBrowserScreen: React.FC<Props> = ({navigation, route}) => {
+  const {theme} = useTheme();
+  const {isConnected, openProject} = useConnection();
+  const {projectId, projectPath, projectName} = route.params;
+
+  const [project, setProject] = useState<ProjectDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pathSegments, setPathSegments] = useState<string[]>([]);
+  const breadcrumbsRef = useRef<ScrollView>(null);
+
+  useEffect(() => {
+    loadProject();
+  }, [projectId, isConnected]);
+
+  // Hardware back walks up the tree before leaving the screen
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      if (pathSegments.length > 0) {
+        setPathSegments(pathSegments.slice(0, -1));
+        return true;
+      }
+      return false;
+    });
+    return () => subscription.remove();
+  }, [pathSegments]);
+
+  const loadProject = async () => {
+    if (!isConnected) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const details = await openProject(projectId, projectPath);
+      setProject(details);
+      console.log('FileBrowserScreen: Loaded', details?.files.length || 0, 'files');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const structure = useMemo(() => {
+    if (!project) {
+      return {};
+    }
+    if (project.structure && Object.keys(project.structure).length > 0) {
+      return project.structure;
+    }
+    return buildStructureFromFiles(project.files || []);
+  }, [project]);
+
+  const entries = useMemo(
+    () => listDirectory(structure, pathSegments),
+    [structure, pathSegments]
+  );
+
+  const getAbsolutePath = (relativePath: string) => {
+    const file = project?.files.find(f => toRelativePath(f.relativePath) === relativePath);
+    if (file) {
+      return file.path;
+    }
+    const separator = projectPath.includes('\\') ? '\\' : '/';
+    return `${projectPath}${separator}${relativePath.split('/').join(separator)}`;
+  };
+
+  const handleOpenEntry = (entry: FileTreeEntry) => {
+    if (entry.isDirectory) {
+      setPathSegments([...pathSegments, entry.name]);
+      return;
+    }
+
+    navigation.navigate('CodeViewer', {
+      filePath: getAbsolutePath(entry.relativePath),
+      fileName: entry.name,
+    });
+  };
+
+  const handleBack = () => {
+    if (pathSegments.length > 0) {
+      setPathSegments(pathSegments.slice(0, -1));
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  const renderBreadcrumbs = () => (
+    <ScrollView
+      ref={breadcrumbsRef}
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={[styles.breadcrumbs, {borderBottomColor: theme.colors.border}]}
+      contentContainerStyle={styles.breadcrumbsContent}
+      onContentSizeChange={() => breadcrumbsRef.current?.scrollToEnd({animated: true})}>
+      {[projectName || 'Project', ...pathSegments].map((segment, index) => {
+        const isLast = index === pathSegments.length;
+        return (
+          <View key={`${index}-${segment}`} style={styles.breadcrumbItem}>
+            {index > 0 && (
+              <Icon name="chevron-forward" size={14} color={theme.colors.textMuted} />
+            )}
+            <TouchableOpacity
+              onPress={() => setPathSegments(pathSegments.slice(0, index))}
+              disabled={isLast}>
+              <Text
+                style={[
+                  styles.breadcrumbText,
+                  {color: isLast ? theme.colors.text : theme.colors.primary},
+                ]}>
+                {segment}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+
+  const renderEntry = ({item}: {item: FileTreeEntry}) => (
+    <TouchableOpacity
+      style={[styles.entry, {borderBottomColor: theme.colors.border}]}
+      onPress={() => handleOpenEntry(item)}>
+      <Icon
+        name={item.isDirectory ? 'folder' : getFileIcon(item.extension)}
+        size={22}
+        color={item.isDirectory ? theme.colors.primary : theme.colors.textSecondary}
+      />
+      <View style={styles.entryInfo}>
+        <Text style={[styles.entryName, {color: theme.colors.text}]} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <Text style={[styles.entryMeta, {color: theme.colors.textMuted}]}>
+          {item.isDirectory
+            ? `${item.childCount} ${item.childCount === 1 ? 'item' : 'items'} · ${formatFileSize(item.size)}`
+            : formatFileSize(item.size)}
+        </Text>
+      </View>
+      {item.isDirectory && (
+        <Icon name="chevron-forward" size={20} color={theme.colors.textMuted} />
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Icon
+        name={isConnected ? 'folder-open-outline' : 'cloud-offline-outline'}
+        size={64}
+        color={theme.colors.textMuted}
+      />
+      <Text style={[styles.emptyStateText, {color: theme.colors.textSecondary}]}>
+        {isConnected
+          ? 'This folder is empty.'
+          : 'Please connect to your computer app to browse files.'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, {backgroundColor: theme.colors.background}]}>
+      {/* Header */}
+      <View style={[styles.header, {backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border}]}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <Icon name="chevron-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={[styles.headerTitle, {color: theme.colors.text}]} numberOfLines={1}>
+            {pathSegments.length > 0 ? pathSegments[pathSegments.length - 1] : projectName || 'Files'}
+          </Text>
+          {project && (
+            <Text style={[styles.headerSubtitle, {color: theme.colors.textMuted}]}>
+              {project.files.length} files
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity style={styles.backButton} onPress={loadProject} disabled={isLoading}>
+          <Icon name="refresh" size={22} color={theme.colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {renderBreadcrumbs()}
+
+      {isLoading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={item => item.relativePath}
+          renderItem={renderEntry}
+          ListEmptyComponent={renderEmptyState}
+          contentContainerStyle={entries.length === 0 ? styles.emptyList : undefined}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  breadcrumbs: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+  },
+  breadcrumbsContent: {
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  breadcrumbItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  breadcrumbText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginHorizontal: 4,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  entryName: {
+    fontSize: 16,
+  },
+  entryMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
+
+export default FileBrowserScreen;
@@ -0,0 +1,847 @@
+import React, {useState, useEffect, useMemo, useCallback} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  Modal,
+} from 'react-native';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {StackNavigationProp} from '@react-navigation/stack';
+import {RouteProp} from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/Ionicons';
+
+import {useTheme} from '../contexts/ThemeContext';
+import {useConnection} from '../contexts/ConnectionContext';
+import DiffView from '../components/DiffView';
+import VoiceService from '../services/VoiceService';
+import {GitStatus, GitBranch, GitCommit, GitFileChange, GitFileStatus} from '../services/ApiService';
+import {RootStackParamList} from '../types';
+import {DiffHunk} from '../utils/diff';
+import {parseUnifiedDiff} from '../utils/patch';
+
+type GitScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Git'>;
+type GitScreenRouteProp = RouteProp<RootStackParamList, 'Git'>;
+
+interface Props {
+  navigation: GitScreenNavigationProp;
+  route: GitScreenRouteProp;
+}
+
+type GitTab = 'changes' | 'branches' | 'history';
+
+interface OpenDiff {
+  file: GitFileChange;
+  hunks: DiffHunk[] | null;
+  raw: string;
+}
+
+const STATUS_LETTERS: Record<GitFileStatus, string> = {
+  modified: 'M',
+  added: 'A',
+  deleted: 'D',
+  renamed: 'R',
+  untracked: 'U',
+  conflicted: '!',
+};
+
+const formatRelativeDate = (date: Date) => {
+  const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 86400 * 30) return `${Math.floor(seconds / 86400)}d ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+const GitScreen: React.FC<Props> = ({navigation, route}) => {
+  const {theme} = useTheme();
+  const {
+    isConnected,
+    lastError,
+    getGitStatus,
+    getGitDiff,
+    stageFiles,
+    unstageFiles,
+    commit,
+    getBranches,
+    checkoutBranch,
+    getGitLog,
+  } = useConnection();
+  const {projectPath, projectName} = route.params;
+
+  const [activeTab, setActiveTab] = useState<GitTab>('changes');
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [branches, setBranches] = useState<GitBranch[]>([]);
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [busyPaths, setBusyPaths] = useState<string[]>([]);
+  // Set when the last operation failed, so lastError is worth showing
+  const [showError, setShowError] = useState(false);
+  const [commitMessage, setCommitMessage] = useState('');
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [isDictating, setIsDictating] = useState(false);
+  const [newBranchName, setNewBranchName] = useState('');
+  const [isSwitchingBranch, setIsSwitchingBranch] = useState(false);
+  const [openDiff, setOpenDiff] = useState<OpenDiff | null>(null);
+  const [diffMode, setDiffMode] = useState<'inline' | 'split'>('inline');
+
+  const stagedFiles = useMemo(() => status?.files.filter(file => file.staged) || [], [status]);
+  const unstagedFiles = useMemo(() => status?.files.filter(file => !file.staged) || [], [status]);
+
+  const loadStatus = useCallback(async () => {
+    const result = await getGitStatus(projectPath);
+    setShowError(!result);
+    if (result) {
+      setStatus(result);
+    }
+  }, [getGitStatus, projectPath]);
+
+  const loadBranches = useCallback(async () => {
+    const result = await getBranches(projectPath);
+    setShowError(!result);
+    if (result) {
+      setBranches(result);
+    }
+  }, [getBranches, projectPath]);
+
+  const loadLog = useCallback(async () => {
+    const result = await getGitLog(projectPath, 50);
+    setShowError(!result);
+    if (result) {
+      setCommits(result);
+    }
+  }, [getGitLog, projectPath]);
+
+  const loadActiveTab = useCallback(async () => {
+    if (activeTab === 'branches') {
+      await loadBranches();
+    } else if (activeTab === 'history') {
+      await loadLog();
+    } else {
+      await loadStatus();
+    }
+  }, [activeTab, loadStatus, loadBranches, loadLog]);
+
+  useEffect(() => {
+    if (!isConnected) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    loadActiveTab().finally(() => setIsLoading(false));
+  }, [isConnected, loadActiveTab]);
+
+  // Dictation must not outlive the screen
+  useEffect(() => {
+    return () => {
+      if (VoiceService.getIsListening()) {
+        VoiceService.cancelListening();
+      }
+    };
+  }, []);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      // The branch name in the header comes from status
+      await Promise.all([loadActiveTab(), activeTab === 'changes' ? null : loadStatus()]);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handleToggleStaged = async (files: GitFileChange[], stage: boolean) => {
+    const paths = files.map(file => file.path);
+    if (paths.length === 0) return;
+
+    setBusyPaths(paths);
+    try {
+      const ok = stage ? await stageFiles(projectPath, paths) : await unstageFiles(projectPath, paths);
+      if (!ok) {
+        setShowError(true);
+        return;
+      }
+      await loadStatus();
+    } finally {
+      setBusyPaths([]);
+    }
+  };
+
+  const handleOpenDiff = async (file: GitFileChange) => {
+    if (file.status === 'untracked' && !file.staged) {
+      setOpenDiff({file, hunks: null, raw: 'New file. Stage it to see its contents as a diff.'});
+      return;
+    }
+
+    setBusyPaths([file.path]);
+    try {
+      const diff = await getGitDiff(projectPath, file.path, file.staged);
+      if (diff === null) {
+        setShowError(true);
+        return;
+      }
+      try {
+        setOpenDiff({file, hunks: parseUnifiedDiff(diff).hunks, raw: diff});
+      } catch (error) {
+        // Binary files and mode-only changes have no hunks
+        setOpenDiff({file, hunks: null, raw: diff.trim() || 'No textual changes.'});
+      }
+    } finally {
+      setBusyPaths([]);
+    }
+  };
+
+  const handleCommit = async () => {
+    const message = commitMessage.trim();
+    if (!message || stagedFiles.length === 0) return;
+
+    if (VoiceService.getIsListening()) {
+      await VoiceService.stopListening();
+    }
+
+    setIsCommitting(true);
+    try {
+      const result = await commit(projectPath, message);
+      if (!result) {
+        setShowError(true);
+        return;
+      }
+      console.log('GitScreen: Committed', result.shortHash);
+      setCommitMessage('');
+      await loadStatus();
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleDictate = async () => {
+    if (isDictating) {
+      await VoiceService.stopListening();
+      setIsDictating(false);
+      return;
+    }
+
+    try {
+      if (!VoiceService.getIsInitialized()) {
+        const hasPermission = await VoiceService.requestPermissions();
+        if (!hasPermission || !(await VoiceService.initialize({enablePartialResults: true}))) {
+          Alert.alert('Voice Unavailable', 'Allow microphone access to dictate commit messages.');
+          return;
+        }
+      }
+
+      // Dictation appends to whatever was already typed
+      const existing = commitMessage.trim();
+      const started = await VoiceService.startListening(
+        result => {
+          setCommitMessage(existing ? `${existing} ${result.text}` : result.text);
+        },
+        error => {
+          console.error('GitScreen: Dictation error:', error);
+          setIsDictating(false);
+        },
+        () => setIsDictating(true),
+        () => setIsDictating(false)
+      );
+      if (started) {
+        setIsDictating(true);
+      }
+    } catch (error) {
+      console.error('GitScreen: Failed to start dictation:', error);
+      Alert.alert('Voice Error', 'Failed to start voice recognition');
+    }
+  };
+
+  const switchBranch = async (branch: string, create: boolean) => {
+    setIsSwitchingBranch(true);
+    try {
+      const ok = await checkoutBranch(projectPath, branch, create);
+      if (!ok) {
+        setShowError(true);
+        return;
+      }
+      console.log('GitScreen: Switched to', branch);
+      setNewBranchName('');
+      await Promise.all([loadBranches(), loadStatus()]);
+    } finally {
+      setIsSwitchingBranch(false);
+    }
+  };
+
+  const handleSelectBranch = (branch: GitBranch) => {
+    if (branch.current) return;
+
+    const hasChanges = (status?.files.length || 0) > 0;
+    Alert.alert(
+      'Switch Branch',
+      hasChanges
+        ? `Switch to ${branch.name}? Your uncommitted changes will be carried over if they don't conflict.`
+        : `Switch to ${branch.name}?`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {text: 'Switch', onPress: () => switchBranch(branch.name, false)},
+      ]
+    );
+  };
+
+  const handleCreateBranch = () => {
+    const name = newBranchName.trim();
+    if (!name) return;
+    if (/\s|\.\.|[~^:?*[\\]/.test(name)) {
+      Alert.alert('Invalid Name', 'Branch names cannot contain spaces or any of ~ ^ : ? * [ \\ ..');
+      return;
+    }
+    switchBranch(name, true);
+  };
+
+  const getStatusColor = (fileStatus: GitFileStatus) => {
+    switch (fileStatus) {
+      case 'added':
+      case 'untracked':
+        return theme.colors.success;
+      case 'deleted':
+      case 'conflicted':
+        return theme.colors.error;
+      case 'renamed':
+        return theme.colors.info;
+      default:
+        return theme.colors.warning;
+    }
+  };
+
+  const renderTabs = () => (
+    <View style={[styles.tabs, {borderBottomColor: theme.colors.border}]}>
+      {([
+        ['changes', 'Changes'],
+        ['branches', 'Branches'],
+        ['history', 'History'],
+      ] as Array<[GitTab, string]>).map(([tab, label]) => (
+        <TouchableOpacity
+          key={tab}
+          style={[styles.tab, activeTab === tab && {borderBottomColor: theme.colors.primary}]}
+          onPress={() => setActiveTab(tab)}>
+          <Text
+            style={[
+              styles.tabText,
+              {color: activeTab === tab ? theme.colors.primary : theme.colors.textSecondary},
+            ]}>
+            {label}
+            {tab === 'changes' && status?.files.length ? ` (${status.files.length})` : ''}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderFileRow = (file: GitFileChange) => {
+    const isBusy = busyPaths.includes(file.path);
+    const separator = file.path.lastIndexOf('/');
+    return (
+      <TouchableOpacity
+        key={`${file.staged ? 'staged' : 'unstaged'}:${file.path}`}
+        style={[styles.fileRow, {borderBottomColor: theme.colors.border}]}
+        onPress={() => handleOpenDiff(file)}
+        disabled={isBusy}>
+        <Text style={[styles.statusLetter, {color: getStatusColor(file.status)}]}>
+          {STATUS_LETTERS[file.status]}
+        </Text>
+        <View style={styles.fileInfo}>
+          <Text style={[styles.fileName, {color: theme.colors.text}]} numberOfLines={1}>
+            {file.path.slice(separator + 1)}
+          </Text>
+          {separator > 0 && (
+            <Text style={[styles.fileDirectory, {color: theme.colors.textMuted}]} numberOfLines={1} ellipsizeMode="head">
+              {file.oldPath ? `${file.oldPath} → ` : ''}
+              {file.path.slice(0, separator)}
+            </Text>
+          )}
+        </View>
+        {isBusy ? (
+          <ActivityIndicator size="small" color={theme.colors.primary} style={styles.fileAction} />
+        ) : (
+          <TouchableOpacity
+            style={styles.fileAction}
+            onPress={() => handleToggleStaged([file], !file.staged)}>
+            <Icon
+              name={file.staged ? 'remove-circle-outline' : 'add-circle-outline'}
+              size={24}
+              color={file.staged ? theme.colors.textSecondary : theme.colors.primary}
+            />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSection = (title: string, files: GitFileChange[], stage: boolean) => {
+    if (files.length === 0) return null;
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, {color: theme.colors.textSecondary}]}>
+            {title} ({files.length})
+          </Text>
+          <TouchableOpacity onPress={() => handleToggleStaged(files, stage)} disabled={busyPaths.length > 0}>
+            <Text style={[styles.sectionAction, {color: theme.colors.primary}]}>
+              {stage ? 'Stage All' : 'Unstage All'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {files.map(renderFileRow)}
+      </View>
+    );
+  };
+
+  const renderCommitBox = () => {
+    const canCommit = stagedFiles.length > 0 && commitMessage.trim().length > 0 && !isCommitting;
+    return (
+      <View style={[styles.commitBox, {backgroundColor: theme.colors.surface, borderTopColor: theme.colors.border}]}>
+        <View style={[styles.commitInputRow, {backgroundColor: theme.colors.background, borderColor: theme.colors.border}]}>
+          <TextInput
+            style={[styles.commitInput, {color: theme.colors.text}]}
+            placeholder={isDictating ? 'Listening...' : 'Commit message'}
+            placeholderTextColor={theme.colors.textMuted}
+            value={commitMessage}
+            onChangeText={setCommitMessage}
+            multiline
+          />
+          <TouchableOpacity style={styles.dictateButton} onPress={handleDictate}>
+            <Icon
+              name={isDictating ? 'stop-circle' : 'mic-outline'}
+              size={22}
+              color={isDictating ? theme.colors.error : theme.colors.textSecondary}
+            />
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity
+          style={[styles.commitButton, {backgroundColor: canCommit ? theme.colors.primary : theme.colors.surfaceVariant}]}
+          onPress={handleCommit}
+          disabled={!canCommit}>
+          {isCommitting ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={[styles.commitButtonText, {color: canCommit ? 'white' : theme.colors.textMuted}]}>
+              {stagedFiles.length > 0
+                ? `Commit ${stagedFiles.length} ${stagedFiles.length === 1 ? 'file' : 'files'}`
+                : 'Stage files to commit'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderChanges = () => (
+    <>
+      <ScrollView
+        style={styles.container}
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}>
+        {status && status.files.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Icon name="checkmark-circle-outline" size={64} color={theme.colors.success} />
+            <Text style={[styles.emptyStateText, {color: theme.colors.textSecondary}]}>
+              Working tree clean
+            </Text>
+          </View>
+        ) : (
+          <>
+            {renderSection('Staged Changes', stagedFiles, false)}
+            {renderSection('Changes', unstagedFiles, true)}
+          </>
+        )}
+      </ScrollView>
+      {renderCommitBox()}
+    </>
+  );
+
+  const renderBranches = () => (
+    <ScrollView
+      style={styles.container}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}>
+      <View style={[styles.newBranchRow, {borderBottomColor: theme.colors.border}]}>
+        <TextInput
+          style={[styles.newBranchInput, {color: theme.colors.text, backgroundColor: theme.colors.surface}]}
+          placeholder="New branch name"
+          placeholderTextColor={theme.colors.textMuted}
+          value={newBranchName}
+          onChangeText={setNewBranchName}
+          autoCapitalize="none"
+          autoCorrect={false}
+          onSubmitEditing={handleCreateBranch}
+        />
+        <TouchableOpacity
+          style={[styles.newBranchButton, {backgroundColor: theme.colors.primary}]}
+          onPress={handleCreateBranch}
+          disabled={!newBranchName.trim() || isSwitchingBranch}>
+          <Icon name="git-branch" size={18} color="white" />
+          <Text style={styles.newBranchButtonText}>Create</Text>
+        </TouchableOpacity>
+      </View>
+      {branches.map(branch => (
+        <TouchableOpacity
+          key={branch.name}
+          style={[styles.branchRow, {borderBottomColor: theme.colors.border}]}
+          onPress={() => handleSelectBranch(branch)}
+          disabled={isSwitchingBranch}>
+          <Icon
+            name={branch.current ? 'checkmark-circle' : 'git-branch-outline'}
+            size={20}
+            color={branch.current ? theme.colors.success : theme.colors.textMuted}
+          />
+          <View style={styles.fileInfo}>
+            <Text
+              style={[styles.fileName, {color: theme.colors.text, fontWeight: branch.current ? '600' : '400'}]}
+              numberOfLines={1}>
+              {branch.name}
+            </Text>
+            {branch.lastCommit && (
+              <Text style={[styles.fileDirectory, {color: theme.colors.textMuted}]} numberOfLines={1}>
+                {branch.lastCommit}
+              </Text>
+            )}
+          </View>
+        </TouchableOpacity>
+      ))}
+      {isSwitchingBranch && (
+        <ActivityIndicator style={styles.inlineSpinner} color={theme.colors.primary} />
+      )}
+    </ScrollView>
+  );
+
+  const renderHistory = () => (
+    <ScrollView
+      style={styles.container}
+      refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}>
+      {commits.length === 0 && !isLoading ? (
+        <View style={styles.emptyState}>
+          <Icon name="time-outline" size={64} color={theme.colors.textMuted} />
+          <Text style={[styles.emptyStateText, {color: theme.colors.textSecondary}]}>No commits yet</Text>
+        </View>
+      ) : (
+        commits.map(entry => (
+          <View key={entry.hash} style={[styles.commitRow, {borderBottomColor: theme.colors.border}]}>
+            <Text style={[styles.commitMessage, {color: theme.colors.text}]} numberOfLines={2}>
+              {entry.message.split('\n')[0]}
+            </Text>
+            <Text style={[styles.commitMeta, {color: theme.colors.textMuted}]}>
+              <Text style={styles.commitHash}>{entry.shortHash}</Text>
+              {` · ${entry.author} · ${formatRelativeDate(entry.date)}`}
+            </Text>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+
+  const renderDiffModal = () => (
+    <Modal visible={openDiff !== null} animationType="slide" onRequestClose={() => setOpenDiff(null)}>
+      <SafeAreaView style={[styles.container, {backgroundColor: theme.colors.background}]}>
+        <View style={[styles.header, {backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border}]}>
+          <TouchableOpacity style={styles.headerButton} onPress={() => setOpenDiff(null)}>
+            <Icon name="close" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <View style={styles.headerCenter}>
+            <Text style={[styles.headerTitle, {color: theme.colors.text}]} numberOfLines={1}>
+              {openDiff?.file.path.split('/').pop()}
+            </Text>
+            <Text style={[styles.headerSubtitle, {color: theme.colors.textMuted}]}>
+              {openDiff?.file.staged ? 'Staged' : 'Unstaged'} · {openDiff ? openDiff.file.status : ''}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setDiffMode(diffMode === 'inline' ? 'split' : 'inline')}>
+            <Icon
+              name={diffMode === 'inline' ? 'albums-outline' : 'reorder-four-outline'}
+              size={22}
+              color={theme.colors.text}
+            />
+          </TouchableOpacity>
+        </View>
+        <ScrollView style={styles.container}>
+          {openDiff?.hunks ? (
+            <DiffView hunks={openDiff.hunks} mode={diffMode} />
+          ) : (
+            <Text style={[styles.emptyStateText, {color: theme.colors.textSecondary}]}>{openDiff?.raw}</Text>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+
+  const renderContent = () => {
+    if (!isConnected) {
+      return (
+        <View style={styles.emptyState}>
+          <Icon name="cloud-offline-outline" size={64} color={theme.colors.textMuted} />
+          <Text style={[styles.emptyStateText, {color: theme.colors.textSecondary}]}>
+            Please connect to your computer app to use git.
+          </Text>
+        </View>
+      );
+    }
+    if (isLoading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={theme.colors.primary} />
+        </View>
+      );
+    }
+    switch (activeTab) {
+      case 'branches':
+        return renderBranches();
+      case 'history':
+        return renderHistory();
+      default:
+        return renderChanges();
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, {backgroundColor: theme.colors.background}]}>
+      {/* Header */}
+      <View style={[styles.header, {backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border}]}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Icon name="chevron-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={[styles.headerTitle, {color: theme.colors.text}]} numberOfLines={1}>
+            {projectName || 'Git'}
+          </Text>
+          {status && (
+            <Text style={[styles.headerSubtitle, {color: theme.colors.textMuted}]} numberOfLines={1}>
+              {status.branch}
+              {status.ahead > 0 ? ` ↑${status.ahead}` : ''}
+              {status.behind > 0 ? ` ↓${status.behind}` : ''}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity style={styles.headerButton} onPress={handleRefresh} disabled={isRefreshing || !isConnected}>
+          <Icon name="refresh" size={22} color={theme.colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {renderTabs()}
+
+      {showError && lastError && (
+        <View style={[styles.errorBanner, {backgroundColor: theme.colors.error + '1A'}]}>
+          <Icon name="alert-circle" size={18} color={theme.colors.error} />
+          <Text style={[styles.errorText, {color: theme.colors.error}]}>{lastError}</Text>
+          <TouchableOpacity onPress={() => setShowError(false)}>
+            <Icon name="close" size={18} color={theme.colors.error} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {renderContent()}
+      {renderDiffModal()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 14,
+    marginHorizontal: 8,
+  },
+  section: {
+    marginTop: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  sectionAction: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 16,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  statusLetter: {
+    width: 20,
+    fontSize: 14,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  fileName: {
+    fontSize: 16,
+  },
+  fileDirectory: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  fileAction: {
+    width: 48,
+    alignItems: 'center',
+  },
+  commitBox: {
+    padding: 12,
+    borderTopWidth: 1,
+  },
+  commitInputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  commitInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    maxHeight: 120,
+  },
+  dictateButton: {
+    padding: 10,
+  },
+  commitButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  commitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  newBranchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  newBranchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    marginRight: 8,
+  },
+  newBranchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  newBranchButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  branchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  inlineSpinner: {
+    marginTop: 16,
+  },
+  commitRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  commitMessage: {
+    fontSize: 15,
+  },
+  commitMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  commitHash: {
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    textAlign: 'center',
+    margin: 16,
+  },
+});
+
+export default GitScreen;
@@ -13,17 +13,20 @@ import {
   Animated,
 } from 'react-native';
 import {SafeAreaView} from 'react-native-safe-area-context';
-import {useFocusEffect} from '@react-navigation/native';
+import {useFocusEffect, useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
 import Icon from 'react-native-vector-icons/Ionicons';
 
 import {useTheme} from '../contexts/ThemeContext';
 import {useConnection} from '../contexts/ConnectionContext';
-import {Repository, ProjectFile} from '../types';
+import {Repository, ProjectFile, RootStackParamList} from '../types';
 import {Project, ProjectDetails} from '../services/ApiService';
 import Logo from '../components/Logo';
+import {formatFileSize} from '../utils/fileTree';
 
 const ProjectsScreen: React.FC = () => {
   const {theme} = useTheme();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const {
     isConnected,
     repositories, // Only used for display, always fetch fresh data
@@ -244,12 +247,37 @@ const ProjectsScreen: React.FC = () => {
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+  const handleBrowseFiles = (project: Project) => {
+    if (!isConnected) {
+      Alert.alert(
+        'Not Connected',
+        'Please connect to your computer app first.',
+        [{text: 'OK'}]
+      );
+      return;
+    }
+
+    navigation.navigate('FileBrowser', {
+      projectId: project.id,
+      projectPath: project.path,
+      projectName: project.name,
+    });
+  };
+
+  const handleOpenGit = (project: Project) => {
+    if (!isConnected) {
+      Alert.alert(
+        'Not Connected',
+        'Please connect to your computer app first.',
+        [{text: 'OK'}]
+      );
+      return;
+    }
+
+    navigation.navigate('Git', {
+      projectPath: project.path,
+      projectName: project.name,
+    });
   };
 
   const getLanguageColor = (language: string | undefined) => {
@@ -383,10 +411,19 @@ const ProjectsScreen: React.FC = () => {
           
           <TouchableOpacity
             style={[styles.actionButton, {backgroundColor: theme.colors.secondary, marginLeft: 8}]}
-            onPress={() => Alert.alert('Coming Soon', 'File browsing feature coming soon!')}>
+            onPress={() => handleBrowseFiles(repo)}>
             <Icon name="documents" size={16} color="white" />
             <Text style={styles.actionButtonText}>Browse Files</Text>
           </TouchableOpacity>
+
+          {repo.isGitRepo && (
+            <TouchableOpacity
+              style={[styles.actionButton, {backgroundColor: theme.colors.accent, marginLeft: 8}]}
+              onPress={() => handleOpenGit(repo)}>
+              <Icon name="git-branch" size={16} color="white" />
+              <Text style={styles.actionButtonText}>Git</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
     </View>
@@ -0,0 +1,588 @@
+import React, {useState, useMemo, useEffect} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  Share,
+  Platform,
+} from 'react-native';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {StackNavigationProp} from '@react-navigation/stack';
+import Icon from 'react-native-vector-icons/Ionicons';
+import RNFS from 'react-native-fs';
+import DocumentPicker from 'react-native-document-picker';
+import {PERMISSIONS, request, RESULTS} from 'react-native-permissions';
+
+import {useTheme} from '../contexts/ThemeContext';
+import {useApp} from '../contexts/AppContext';
+import SwipeableRow from '../components/SwipeableRow';
+import ChatStore from '../services/ChatStore';
+import DownloadsService from '../services/DownloadsService';
+import {ChatSession, RootStackParamList} from '../types';
+import {searchSessions, groupSessions, SessionMatch} from '../utils/sessionList';
+import {sessionToMarkdown, sessionsToJson, parseSessionsJson, exportFileName} from '../utils/chatExport';
+import {guessMimeType} from '../utils/attachments';
+
+type SessionsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Sessions'>;
+
+interface Props {
+  navigation: SessionsScreenNavigationProp;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+const formatRelativeDate = (date: Date) => {
+  const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 86400 * 7) return `${Math.floor(seconds / 86400)}d ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+const SessionsScreen: React.FC<Props> = ({navigation}) => {
+  const {theme} = useTheme();
+  const {
+    chatSessions,
+    currentSession,
+    createNewSession,
+    selectSession,
+    renameSession,
+    togglePinSession,
+    deleteSession,
+    importSessions,
+    loadAllMessages,
+  } = useApp();
+
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<ChatSession | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [menuSession, setMenuSession] = useState<ChatSession | null>(null);
+
+  const [matches, setMatches] = useState<SessionMatch[]>(() => searchSessions(chatSessions, ''));
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setMatches(searchSessions(chatSessions, ''));
+      return;
+    }
+
+    // Searches stored messages too, without loading them into the sessions
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const fullSessions = await Promise.all(
+        chatSessions.map(async session =>
+          session.messageOffset
+            ? {
+                ...session,
+                messages: [
+                  // If storage can't be read, the loaded messages are still searched
+                  ...(await ChatStore.loadMessages(session.id, 0, session.messageOffset).catch(error => {
+                    console.error('SessionsScreen: Could not load messages to search:', error);
+                    return [];
+                  })),
+                  ...session.messages,
+                ],
+              }
+            : session
+        )
+      );
+      if (!cancelled) {
+        setMatches(searchSessions(fullSessions, query));
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [chatSessions, query]);
+
+  const snippets = useMemo(
+    () => new Map(matches.map(match => [match.session.id, match.snippet])),
+    [matches]
+  );
+  const sections = useMemo(
+    () => groupSessions(matches.map(match => match.session)),
+    [matches]
+  );
+
+  const handleOpen = (session: ChatSession) => {
+    selectSession(session.id);
+    navigation.goBack();
+  };
+
+  const handleNewChat = () => {
+    createNewSession();
+    navigation.goBack();
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    Alert.alert(
+      'Delete Chat',
+      `Delete "${session.title}"? It will also be removed from your computer.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {text: 'Delete', style: 'destructive', onPress: () => deleteSession(session.id)},
+      ]
+    );
+  };
+
+  const handleStartRename = (session: ChatSession) => {
+    setRenaming(session);
+    setRenameText(session.title);
+  };
+
+  const handleRename = () => {
+    if (renaming && renameText.trim()) {
+      renameSession(renaming.id, renameText.trim());
+    }
+    setRenaming(null);
+  };
+
+  // iOS shares the file itself. Android's share sheet only takes text, which
+  // is too big for a long chat, so the export goes to Downloads instead.
+  const shareFile = async (fileName: string, content: string, title: string) => {
+    if (Platform.OS === 'ios') {
+      const path = `${RNFS.DocumentDirectoryPath}/${fileName}`;
+      await RNFS.writeFile(path, content, 'utf8');
+      await Share.share({url: `file://${path}`, title});
+      return;
+    }
+
+    // Android 10 and up save through MediaStore, which needs no permission
+    if (Platform.Version < 29) {
+      const result = await request(PERMISSIONS.ANDROID.WRITE_EXTERNAL_STORAGE);
+      if (result !== RESULTS.GRANTED) {
+        throw new Error('Allow storage access to save exports to Downloads');
+      }
+    }
+
+    const savedName = await DownloadsService.saveText(fileName, guessMimeType(fileName), content);
+    Alert.alert('Saved to Downloads', `${savedName} is in your Downloads folder.`);
+  };
+
+  const withAllMessages = async (session: ChatSession): Promise<ChatSession> => ({
+    ...session,
+    messages: await loadAllMessages(session.id),
+    messageOffset: 0,
+  });
+
+  const handleExport = async (session: ChatSession, format: 'md' | 'json') => {
+    try {
+      const full = await withAllMessages(session);
+      const content = format === 'md' ? sessionToMarkdown(full) : sessionsToJson([full]);
+      await shareFile(exportFileName(session, format), content, session.title);
+    } catch (error: any) {
+      console.error('SessionsScreen: Export failed:', error);
+      Alert.alert('Export Failed', error.message || 'Could not export this chat');
+    }
+  };
+
+  const handleExportAll = async () => {
+    try {
+      const sessions = await Promise.all(chatSessions.map(withAllMessages));
+      const date = new Date().toISOString().substring(0, 10);
+      await shareFile(`stratosphere-chats-${date}.json`, sessionsToJson(sessions), 'All chats');
+    } catch (error: any) {
+      console.error('SessionsScreen: Export failed:', error);
+      Alert.alert('Export Failed', error.message || 'Could not export your chats');
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const file = await DocumentPicker.pickSingle({
+        type: [DocumentPicker.types.allFiles],
+        copyTo: 'cachesDirectory',
+      });
+      const uri = file.fileCopyUri || file.uri;
+      const content = await RNFS.readFile(decodeURIComponent(uri.replace(/^file:\/\//, '')), 'utf8');
+      const count = importSessions(parseSessionsJson(content));
+      Alert.alert('Import Complete', `Imported ${count} ${count === 1 ? 'chat' : 'chats'}.`);
+    } catch (error: any) {
+      if (DocumentPicker.isCancel(error)) {
+        return;
+      }
+      console.error('SessionsScreen: Import failed:', error);
+      Alert.alert('Import Failed', error.message || 'Could not read this file');
+    }
+  };
+
+  const handleMoreActions = () => {
+    Alert.alert('Chats', undefined, [
+      {text: 'Import from JSON', onPress: handleImport},
+      ...(chatSessions.length > 0 ? [{text: 'Export All as JSON', onPress: handleExportAll}] : []),
+      {text: 'Cancel', style: 'cancel' as const},
+    ]);
+  };
+
+  // Too many choices for an Android alert, so they go in a sheet
+  const renderActionSheet = () => {
+    if (!menuSession) return null;
+    const session = menuSession;
+    const actions = [
+      {icon: 'create-outline', label: 'Rename', onPress: () => handleStartRename(session)},
+      {
+        icon: session.pinned ? 'pin' : 'pin-outline',
+        label: session.pinned ? 'Unpin' : 'Pin',
+        onPress: () => togglePinSession(session.id),
+      },
+      {icon: 'document-text-outline', label: 'Export as Markdown', onPress: () => handleExport(session, 'md')},
+      {icon: 'code-download-outline', label: 'Export as JSON', onPress: () => handleExport(session, 'json')},
+      {icon: 'trash-outline', label: 'Delete', onPress: () => handleDelete(session), destructive: true},
+    ];
+
+    return (
+      <Modal visible transparent animationType="slide" onRequestClose={() => setMenuSession(null)}>
+        <TouchableOpacity
+          style={[styles.sheetOverlay, {backgroundColor: theme.colors.overlay}]}
+          activeOpacity={1}
+          onPress={() => setMenuSession(null)}>
+          <View style={[styles.sheet, {backgroundColor: theme.colors.surface}]}>
+            <Text style={[styles.sheetTitle, {color: theme.colors.textSecondary}]} numberOfLines={1}>
+              {session.title}
+            </Text>
+            {actions.map(action => {
+              const color = action.destructive ? theme.colors.error : theme.colors.text;
+              return (
+                <TouchableOpacity
+                  key={action.label}
+                  style={styles.sheetAction}
+                  onPress={() => {
+                    setMenuSession(null);
+                    action.onPress();
+                  }}>
+                  <Icon name={action.icon} size={20} color={color} />
+                  <Text style={[styles.sheetActionText, {color}]}>{action.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    );
+  };
+
+  const renderSession = ({item}: {item: ChatSession}) => {
+    const snippet = snippets.get(item.id);
+    const lastMessage = item.messages[item.messages.length - 1];
+    const preview = (snippet || lastMessage?.content || item.preview)?.replace(/\s+/g, ' ');
+    const messageCount = (item.messageOffset || 0) + item.messages.length;
+    const isCurrent = item.id === currentSession?.id;
+
+    return (
+      <SwipeableRow
+        actionLabel="Delete"
+        actionIcon="trash-outline"
+        actionColor={theme.colors.error}
+        onAction={() => handleDelete(item)}>
+        <TouchableOpacity
+          style={[
+            styles.sessionRow,
+            {backgroundColor: theme.colors.background, borderBottomColor: theme.colors.border},
+          ]}
+          onPress={() => handleOpen(item)}
+          onLongPress={() => setMenuSession(item)}>
+          <View style={styles.sessionText}>
+            <View style={styles.sessionTitleRow}>
+              {item.pinned && (
+                <Icon name="pin" size={14} color={theme.colors.textSecondary} style={styles.pinIcon} />
+              )}
+              <Text
+                style={[
+                  styles.sessionTitle,
+                  {color: isCurrent ? theme.colors.primary : theme.colors.text},
+                ]}
+                numberOfLines={1}>
+                {item.title}
+              </Text>
+            </View>
+            {preview ? (
+              <Text style={[styles.sessionPreview, {color: theme.colors.textSecondary}]} numberOfLines={2}>
+                {preview}
+              </Text>
+            ) : null}
+          </View>
+          <View style={styles.sessionMeta}>
+            <Text style={[styles.sessionDate, {color: theme.colors.textMuted}]}>
+              {formatRelativeDate(item.updatedAt)}
+            </Text>
+            <Text style={[styles.sessionCount, {color: theme.colors.textMuted}]}>
+              {messageCount} {messageCount === 1 ? 'message' : 'messages'}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      </SwipeableRow>
+    );
+  };
+
+  const renderRenameModal = () => (
+    <Modal
+      visible={renaming !== null}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setRenaming(null)}>
+      <View style={[styles.modalOverlay, {backgroundColor: theme.colors.overlay}]}>
+        <View style={[styles.modalCard, {backgroundColor: theme.colors.surface}]}>
+          <Text style={[styles.modalTitle, {color: theme.colors.text}]}>Rename Chat</Text>
+          <TextInput
+            style={[
+              styles.modalInput,
+              {color: theme.colors.text, borderColor: theme.colors.border},
+            ]}
+            value={renameText}
+            onChangeText={setRenameText}
+            onSubmitEditing={handleRename}
+            autoFocus
+            selectTextOnFocus
+            returnKeyType="done"
+          />
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.modalButton} onPress={() => setRenaming(null)}>
+              <Text style={[styles.modalButtonText, {color: theme.colors.textSecondary}]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.modalButton}
+              onPress={handleRename}
+              disabled={!renameText.trim()}>
+              <Text
+                style={[
+                  styles.modalButtonText,
+                  {color: renameText.trim() ? theme.colors.primary : theme.colors.textMuted},
+                ]}>
+                Save
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, {backgroundColor: theme.colors.background}]}>
+      {/* Header */}
+      <View style={[styles.header, {backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border}]}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => navigation.goBack()}>
+          <Icon name="chevron-back" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={[styles.headerTitle, {color: theme.colors.text}]}>Chats</Text>
+        </View>
+        <TouchableOpacity style={styles.headerButton} onPress={handleMoreActions}>
+          <Icon name="ellipsis-horizontal" size={22} color={theme.colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.headerButton} onPress={handleNewChat}>
+          <Icon name="add" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.searchBar, {backgroundColor: theme.colors.surfaceVariant}]}>
+        <Icon name="search" size={18} color={theme.colors.textMuted} />
+        <TextInput
+          style={[styles.searchInput, {color: theme.colors.text}]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search all messages"
+          placeholderTextColor={theme.colors.textMuted}
+          autoCorrect={false}
+          autoCapitalize="none"
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.id}
+        renderItem={renderSession}
+        renderSectionHeader={({section}) => (
+          <Text
+            style={[
+              styles.sectionTitle,
+              {color: theme.colors.textMuted, backgroundColor: theme.colors.background},
+            ]}>
+            {section.title}
+          </Text>
+        )}
+        stickySectionHeadersEnabled
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Icon
+              name={query ? 'search-outline' : 'chatbubbles-outline'}
+              size={40}
+              color={theme.colors.textMuted}
+            />
+            <Text style={[styles.emptyText, {color: theme.colors.textSecondary}]}>
+              {query ? `No chats mention "${query.trim()}"` : 'No chats yet'}
+            </Text>
+          </View>
+        }
+      />
+
+      {renderActionSheet()}
+      {renderRenameModal()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 12,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 10,
+    marginLeft: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  sessionText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pinIcon: {
+    marginRight: 4,
+  },
+  sessionTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sessionPreview: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  sessionMeta: {
+    alignItems: 'flex-end',
+  },
+  sessionDate: {
+    fontSize: 12,
+  },
+  sessionCount: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 64,
+  },
+  emptyText: {
+    fontSize: 15,
+    marginTop: 12,
+  },
+  sheetOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 12,
+    paddingBottom: 32,
+  },
+  sheetTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  sheetAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  sheetActionText: {
+    fontSize: 16,
+    marginLeft: 14,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalCard: {
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  modalInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  modalButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SessionsScreen;
@@ -15,13 +15,46 @@ import Icon from 'react-native-vector-icons/Ionicons';
 import {useTheme} from '../contexts/ThemeContext';
 import {useApp} from '../contexts/AppContext';
 import {useConnection} from '../contexts/ConnectionContext';
+import LanguagePicker from '../components/LanguagePicker';
+import CertificatePinningService from '../services/CertificatePinningService';
+import {Connection} from '../types';
+import {getSpeechLanguage} from '../utils/languages';
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  host: string;
+  port: string;
+  protocol: 'http' | 'https';
+  autoReconnect: boolean;
+}
+
+const emptyDraft: ProfileDraft = {
+  name: '',
+  host: '',
+  port: '47893',
+  protocol: 'http',
+  autoReconnect: true,
+};
 
 const SettingsScreen: React.FC = () => {
   const {theme, toggleTheme, setTheme, themeMode} = useTheme();
-  const {settings, updateSettings, clearAllSessions} = useApp();
-  const {config, isConnected, disconnect, reconnect, getDebugInfo, clearChatHistory} = useConnection();
+  const {
+    settings,
+    updateSettings,
+    clearAllSessions,
+    connectionProfiles,
+    activeConnection,
+    addConnectionProfile,
+    updateConnectionProfile,
+    deleteConnectionProfile,
+    selectConnectionProfile,
+  } = useApp();
+  const {config, isConnected, disconnect, reconnect, getDebugInfo, clearChatHistory, forgetCertificate} = useConnection();
   
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [profileDraft, setProfileDraft] = useState<ProfileDraft | null>(null);
+  const [showLanguagePicker, setShowLanguagePicker] = useState(false);
 
   const handleThemeChange = () => {
     const modes = ['light', 'dark', 'system'] as const;
@@ -73,6 +106,93 @@ const SettingsScreen: React.FC = () => {
     }
   };
 
+  const formatLastConnected = (date?: Date) => {
+    if (!date) return 'Never connected';
+    const diffMins = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (diffMins < 1) return 'Connected just now';
+    if (diffMins < 60) return `Connected ${diffMins}m ago`;
+    if (diffMins < 60 * 24) return `Connected ${Math.floor(diffMins / 60)}h ago`;
+    return `Connected ${date.toLocaleDateString()}`;
+  };
+
+  const handleEditProfile = (profile: Connection) => {
+    setProfileDraft({
+      id: profile.id,
+      name: profile.name,
+      host: profile.host,
+      port: profile.port.toString(),
+      protocol: profile.protocol,
+      autoReconnect: profile.autoReconnect,
+    });
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileDraft) return;
+
+    const port = parseInt(profileDraft.port);
+    if (!profileDraft.host.trim()) {
+      Alert.alert('Error', 'Please enter a valid host address');
+      return;
+    }
+    if (isNaN(port) || port < 1 || port > 65535) {
+      Alert.alert('Error', 'Please enter a valid port number (1-65535)');
+      return;
+    }
+
+    const profile = {
+      name: profileDraft.name.trim() || profileDraft.host.trim(),
+      host: profileDraft.host.trim(),
+      port,
+      protocol: profileDraft.protocol,
+      autoReconnect: profileDraft.autoReconnect,
+    };
+
+    if (profileDraft.id) {
+      updateConnectionProfile(profileDraft.id, profile);
+    } else {
+      addConnectionProfile(profile);
+    }
+    setProfileDraft(null);
+  };
+
+  const handleForgetCertificate = (profile: Connection) => {
+    Alert.alert(
+      'Forget Certificate',
+      `The next certificate ${profile.host}:${profile.port} presents will be trusted. Only do this if you regenerated it on your computer.`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: () => forgetCertificate(profile.host, profile.port),
+        },
+      ]
+    );
+  };
+
+  const handleDeleteProfile = (profile: Connection) => {
+    if (connectionProfiles.length <= 1) {
+      Alert.alert('Cannot Delete', 'At least one computer must remain configured.');
+      return;
+    }
+
+    Alert.alert(
+      'Delete Computer',
+      `Remove "${profile.name}" from your saved computers?`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteConnectionProfile(profile.id);
+            setProfileDraft(null);
+          },
+        },
+      ]
+    );
+  };
+
   const renderSettingItem = ({
     icon,
     title,
@@ -155,7 +275,9 @@ const SettingsScreen: React.FC = () => {
             {renderSettingItem({
               icon: 'wifi',
               title: 'Computer Connection',
-              subtitle: isConnected ? `Connected to ${config.serverUrl}:${config.port}` : 'Not connected',
+              subtitle: isConnected
+                ? `Connected to ${activeConnection?.name || config.serverUrl} (${config.serverUrl}:${config.port})`
+                : 'Not connected',
               rightComponent: (
                 <Switch
                   value={isConnected}
@@ -165,6 +287,15 @@ const SettingsScreen: React.FC = () => {
                 />
               ),
             })}
+
+            {/* No native pinning on this platform, so say so rather than imply it */}
+            {config.protocol === 'https' && !CertificatePinningService.isSupported() &&
+              renderSettingItem({
+                icon: 'warning-outline',
+                title: 'Certificate Not Pinned',
+                subtitle:
+                  'This device can\'t pin your computer\'s certificate, so the connection relies on the system\'s certificate checks alone.',
+              })}
             
             {renderSettingItem({
               icon: 'refresh',
@@ -173,12 +304,11 @@ const SettingsScreen: React.FC = () => {
               rightComponent: (
                 <Switch
                   value={settings.connectionSettings.autoReconnect}
-                  onValueChange={(value) => updateSettings({
-                    connectionSettings: {
-                      ...settings.connectionSettings,
-                      autoReconnect: value,
-                    },
-                  })}
+                  onValueChange={(value) => {
+                    if (activeConnection) {
+                      updateConnectionProfile(activeConnection.id, {autoReconnect: value});
+                    }
+                  }}
                   trackColor={{false: theme.colors.border, true: theme.colors.primary + '40'}}
                   thumbColor={settings.connectionSettings.autoReconnect ? theme.colors.primary : theme.colors.textMuted}
                 />
@@ -187,6 +317,142 @@ const SettingsScreen: React.FC = () => {
           </>
         ))}
 
+        {/* Saved Computers */}
+        {renderSection('Computers', (
+          <>
+            {connectionProfiles.map(profile => (
+              <React.Fragment key={profile.id}>
+                {renderSettingItem({
+                  icon: profile.id === activeConnection?.id ? 'desktop' : 'desktop-outline',
+                  title: profile.name,
+                  subtitle: `${profile.protocol}://${profile.host}:${profile.port} • ${formatLastConnected(profile.lastConnected)}`,
+                  onPress: () => selectConnectionProfile(profile.id),
+                  rightComponent: (
+                    <View style={styles.profileActions}>
+                      {profile.id === activeConnection?.id && (
+                        <Icon name="checkmark-circle" size={20} color={theme.colors.success} />
+                      )}
+                      <TouchableOpacity
+                        style={styles.profileEditButton}
+                        onPress={() => handleEditProfile(profile)}>
+                        <Icon name="create-outline" size={20} color={theme.colors.textMuted} />
+                      </TouchableOpacity>
+                    </View>
+                  ),
+                })}
+              </React.Fragment>
+            ))}
+
+            {profileDraft ? (
+              <View style={[styles.advancedSection, {backgroundColor: theme.colors.surfaceVariant}]}>
+                <Text style={[styles.advancedTitle, {color: theme.colors.text}]}>
+                  {profileDraft.id ? 'Edit Computer' : 'Add Computer'}
+                </Text>
+
+                {[
+                  {key: 'name', label: 'Name', placeholder: 'Build box'},
+                  {key: 'host', label: 'Host', placeholder: '192.168.1.100'},
+                  {key: 'port', label: 'Port', placeholder: '47893'},
+                ].map(field => (
+                  <View key={field.key} style={styles.inputRow}>
+                    <Text style={[styles.inputLabel, {color: theme.colors.textSecondary}]}>
+                      {field.label}
+                    </Text>
+                    <TextInput
+                      style={[
+                        styles.input,
+                        {
+                          backgroundColor: theme.colors.background,
+                          color: theme.colors.text,
+                          borderColor: theme.colors.border,
+                        },
+                      ]}
+                      value={profileDraft[field.key as 'name' | 'host' | 'port']}
+                      onChangeText={(text) => setProfileDraft({...profileDraft, [field.key]: text})}
+                      placeholder={field.placeholder}
+                      placeholderTextColor={theme.colors.textMuted}
+                      keyboardType={field.key === 'port' ? 'number-pad' : 'default'}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                  </View>
+                ))}
+
+                <View style={styles.switchRow}>
+                  <Text style={[styles.inputLabel, {color: theme.colors.textSecondary}]}>
+                    Use HTTPS
+                  </Text>
+                  <Switch
+                    value={profileDraft.protocol === 'https'}
+                    onValueChange={(value) => setProfileDraft({...profileDraft, protocol: value ? 'https' : 'http'})}
+                    trackColor={{false: theme.colors.border, true: theme.colors.primary + '40'}}
+                    thumbColor={profileDraft.protocol === 'https' ? theme.colors.primary : theme.colors.textMuted}
+                  />
+                </View>
+
+                {profileDraft.id && profileDraft.protocol === 'https' && (
+                  <TouchableOpacity
+                    onPress={() => {
+                      const profile = connectionProfiles.find(p => p.id === profileDraft.id);
+                      if (profile) {
+                        handleForgetCertificate(profile);
+                      }
+                    }}>
+                    <Text style={[styles.linkText, {color: theme.colors.primary}]}>
+                      Forget Trusted Certificate
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
+                <View style={styles.switchRow}>
+                  <Text style={[styles.inputLabel, {color: theme.colors.textSecondary}]}>
+                    Auto Reconnect
+                  </Text>
+                  <Switch
+                    value={profileDraft.autoReconnect}
+                    onValueChange={(value) => setProfileDraft({...profileDraft, autoReconnect: value})}
+                    trackColor={{false: theme.colors.border, true: theme.colors.primary + '40'}}
+                    thumbColor={profileDraft.autoReconnect ? theme.colors.primary : theme.colors.textMuted}
+                  />
+                </View>
+
+                <View style={styles.profileButtons}>
+                  {profileDraft.id && (
+                    <TouchableOpacity
+                      style={[styles.profileButton, {borderColor: theme.colors.error}]}
+                      onPress={() => {
+                        const profile = connectionProfiles.find(p => p.id === profileDraft.id);
+                        if (profile) {
+                          handleDeleteProfile(profile);
+                        }
+                      }}>
+                      <Text style={[styles.profileButtonText, {color: theme.colors.error}]}>Delete</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.profileButton, {borderColor: theme.colors.border}]}
+                    onPress={() => setProfileDraft(null)}>
+                    <Text style={[styles.profileButtonText, {color: theme.colors.text}]}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.profileButton, {backgroundColor: theme.colors.primary, borderColor: theme.colors.primary}]}
+                    onPress={handleSaveProfile}>
+                    <Text style={[styles.profileButtonText, {color: 'white'}]}>Save</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              renderSettingItem({
+                icon: 'add-circle',
+                title: 'Add Computer',
+                subtitle: 'Save another desktop, laptop or build box',
+                onPress: () => setProfileDraft(emptyDraft),
+                showChevron: true,
+              })
+            )}
+          </>
+        ))}
+
         {/* Voice Settings */}
         {renderSection('Voice', (
           <>
@@ -204,6 +470,14 @@ const SettingsScreen: React.FC = () => {
               ),
             })}
             
+            {renderSettingItem({
+              icon: 'language',
+              title: 'Speech Language',
+              subtitle: `${getSpeechLanguage(settings.speechLanguage).name} · chats can override this`,
+              onPress: () => setShowLanguagePicker(true),
+              showChevron: true,
+            })}
+            
             {renderSettingItem({
               icon: 'send',
               title: 'Auto Send',
@@ -217,6 +491,48 @@ const SettingsScreen: React.FC = () => {
                 />
               ),
             })}
+            
+            {renderSettingItem({
+              icon: 'volume-high',
+              title: 'Read Replies Aloud',
+              subtitle: 'Speak assistant replies in voice mode',
+              rightComponent: (
+                <Switch
+                  value={settings.readAloud}
+                  onValueChange={(value) => updateSettings({readAloud: value})}
+                  trackColor={{false: theme.colors.border, true: theme.colors.primary + '40'}}
+                  thumbColor={settings.readAloud ? theme.colors.primary : theme.colors.textMuted}
+                />
+              ),
+            })}
+            
+            {renderSettingItem({
+              icon: 'ear',
+              title: 'Wake Phrase',
+              subtitle: 'In hands-free mode, only respond after "Hey Stratosphere"',
+              rightComponent: (
+                <Switch
+                  value={settings.requireWakePhrase}
+                  onValueChange={(value) => updateSettings({requireWakePhrase: value})}
+                  trackColor={{false: theme.colors.border, true: theme.colors.primary + '40'}}
+                  thumbColor={settings.requireWakePhrase ? theme.colors.primary : theme.colors.textMuted}
+                />
+              ),
+            })}
+            
+            {renderSettingItem({
+              icon: 'recording',
+              title: 'Keep Voice Recordings',
+              subtitle: 'Save audio with messages dictated in chat, and transcribe it on the computer if the phone can\'t',
+              rightComponent: (
+                <Switch
+                  value={settings.recordVoiceClips}
+                  onValueChange={(value) => updateSettings({recordVoiceClips: value})}
+                  trackColor={{false: theme.colors.border, true: theme.colors.primary + '40'}}
+                  thumbColor={settings.recordVoiceClips ? theme.colors.primary : theme.colors.textMuted}
+                />
+              ),
+            })}
           </>
         ))}
 
@@ -263,62 +579,18 @@ const SettingsScreen: React.FC = () => {
               <>
                 <View style={[styles.advancedSection, {backgroundColor: theme.colors.surfaceVariant}]}>
                   <Text style={[styles.advancedTitle, {color: theme.colors.text}]}>
-                    Connection Settings
+                    Connection Diagnostics
                   </Text>
-                  
-                  <View style={styles.inputRow}>
-                    <Text style={[styles.inputLabel, {color: theme.colors.textSecondary}]}>
-                      Default Host
-                    </Text>
-                    <TextInput
-                      style={[
-                        styles.input,
-                        {
-                          backgroundColor: theme.colors.background,
-                          color: theme.colors.text,
-                          borderColor: theme.colors.border,
-                        },
-                      ]}
-                      value={settings.connectionSettings.host}
-                      onChangeText={(text) => updateSettings({
-                        connectionSettings: {
-                          ...settings.connectionSettings,
-                          host: text,
-                        },
-                      })}
-                      placeholder="192.168.1.100"
-                      placeholderTextColor={theme.colors.textMuted}
-                    />
-                  </View>
-                  
-                  <View style={styles.inputRow}>
-                    <Text style={[styles.inputLabel, {color: theme.colors.textSecondary}]}>
-                      Default Port
-                    </Text>
-                    <TextInput
-                      style={[
-                        styles.input,
-                        {
-                          backgroundColor: theme.colors.background,
-                          color: theme.colors.text,
-                          borderColor: theme.colors.border,
-                        },
-                      ]}
-                      value={settings.connectionSettings.port.toString()}
-                      onChangeText={(text) => {
-                        const port = parseInt(text) || 3000;
-                        updateSettings({
-                          connectionSettings: {
-                            ...settings.connectionSettings,
-                            port,
-                          },
-                        });
-                      }}
-                      placeholder="3000"
-                      placeholderTextColor={theme.colors.textMuted}
-                      keyboardType="number-pad"
-                    />
-                  </View>
+                  {Object.entries(getDebugInfo()).map(([key, value]) => (
+                    <View key={key} style={styles.debugRow}>
+                      <Text style={[styles.inputLabel, {color: theme.colors.textSecondary}]}>
+                        {key}
+                      </Text>
+                      <Text style={[styles.debugValue, {color: theme.colors.text}]} selectable>
+                        {String(value)}
+                      </Text>
+                    </View>
+                  ))}
                 </View>
               </>
             )}
@@ -352,6 +624,14 @@ const SettingsScreen: React.FC = () => {
           </>
         ))}
       </ScrollView>
+
+      <LanguagePicker
+        visible={showLanguagePicker}
+        title="Default speech language"
+        selected={getSpeechLanguage(settings.speechLanguage).code}
+        onSelect={(speechLanguage) => updateSettings({speechLanguage})}
+        onClose={() => setShowLanguagePicker(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -446,6 +726,47 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     fontSize: 16,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  profileActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  profileEditButton: {
+    marginLeft: 12,
+  },
+  profileButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  profileButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginLeft: 8,
+  },
+  profileButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  debugRow: {
+    marginBottom: 10,
+  },
+  debugValue: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
 });
 
 export default SettingsScreen;
\ No newline at end of file
@@ -18,6 +18,8 @@ import LinearGradient from 'react-native-linear-gradient';
 
 import {useTheme} from '../contexts/ThemeContext';
 import {useConnection} from '../contexts/ConnectionContext';
+import {useApp} from '../contexts/AppContext';
+import {DiscoveredBridge} from '../services/DiscoveryService';
 import {RootStackParamList} from '../types';
 
 type SetupScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Setup'>;
@@ -28,12 +30,28 @@ interface Props {
 
 const SetupScreen: React.FC<Props> = ({navigation}) => {
   const {theme} = useTheme();
-  const {connect, isConnected, isConnecting, lastError, healthCheck} = useConnection();
+  const {
+    connect,
+    isConnected,
+    isConnecting,
+    lastError,
+    healthCheck,
+    discoveredBridges,
+    isDiscovering,
+    discoverBridges,
+    stopDiscovery,
+    connectToBridge,
+    isPaired,
+    isPairing,
+    pairWithComputer,
+  } = useConnection();
+  const {activeConnection, settings, updateConnectionProfile} = useApp();
   
-  const [host, setHost] = useState('10.194.219.53');
-  const [port, setPort] = useState('47893');
+  const [host, setHost] = useState(activeConnection?.host || settings.connectionSettings.host);
+  const [port, setPort] = useState(String(activeConnection?.port || settings.connectionSettings.port));
   const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [connectionSuccess, setConnectionSuccess] = useState(false);
+  const [pairingCode, setPairingCode] = useState('');
 
   useEffect(() => {
     if (isConnected) {
@@ -44,7 +62,7 @@ const SetupScreen: React.FC<Props> = ({navigation}) => {
   // Auto-connect on screen load
   useEffect(() => {
     const autoConnect = async () => {
-      console.log('SetupScreen: Auto-connecting to hardcoded address...');
+      console.log('SetupScreen: Auto-connecting to the active connection profile...');
       setIsTestingConnection(true);
       try {
         const connected = await connect(host, parseInt(port));
@@ -92,6 +110,13 @@ const SetupScreen: React.FC<Props> = ({navigation}) => {
         // Test the connection with health check
         const healthy = await healthCheck();
         if (healthy) {
+          // Remember the working address on the active profile
+          if (activeConnection) {
+            updateConnectionProfile(activeConnection.id, {
+              host: host.trim(),
+              port: parseInt(port),
+            });
+          }
           Alert.alert(
             'Success!',
             'Connected to your computer app successfully.',
@@ -123,6 +148,33 @@ const SetupScreen: React.FC<Props> = ({navigation}) => {
     }
   };
 
+  const handleScanNetwork = () => {
+    if (isDiscovering) {
+      stopDiscovery();
+    } else {
+      discoverBridges();
+    }
+  };
+
+  const handleSelectBridge = (bridge: DiscoveredBridge) => {
+    setHost(bridge.host);
+    setPort(String(bridge.port));
+    connectToBridge(bridge);
+  };
+
+  const handlePair = async () => {
+    if (!pairingCode.trim()) {
+      Alert.alert('Error', 'Enter the pairing code shown in the computer app');
+      return;
+    }
+
+    const paired = await pairWithComputer(pairingCode);
+    if (paired) {
+      setPairingCode('');
+      Alert.alert('Paired!', 'This device can now connect to your computer securely.', [{text: 'OK'}]);
+    }
+  };
+
   const handleContinue = () => {
     if (isConnected) {
       navigation.replace('Main');
@@ -175,6 +227,108 @@ const SetupScreen: React.FC<Props> = ({navigation}) => {
     return null;
   };
 
+  const renderDiscovery = () => (
+    <View style={styles.discoveryContainer}>
+      <View style={styles.discoveryHeader}>
+        <Text style={[styles.instructionsTitle, {color: theme.colors.text}]}>
+          Computers on this Network
+        </Text>
+        <TouchableOpacity
+          style={[styles.scanButton, {borderColor: theme.colors.primary}]}
+          onPress={handleScanNetwork}>
+          {isDiscovering ? (
+            <ActivityIndicator size="small" color={theme.colors.primary} />
+          ) : (
+            <Icon name="search" size={16} color={theme.colors.primary} />
+          )}
+          <Text style={[styles.scanButtonText, {color: theme.colors.primary}]}>
+            {isDiscovering ? 'Stop' : 'Scan'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {discoveredBridges.map(bridge => (
+        <TouchableOpacity
+          key={`${bridge.host}:${bridge.port}`}
+          style={[styles.bridgeItem, {backgroundColor: theme.colors.surface, borderColor: theme.colors.border}]}
+          onPress={() => handleSelectBridge(bridge)}
+          disabled={isConnecting}>
+          <Icon name="desktop-outline" size={20} color={theme.colors.primary} />
+          <View style={styles.bridgeInfo}>
+            <Text style={[styles.bridgeName, {color: theme.colors.text}]}>
+              {bridge.name}
+            </Text>
+            <Text style={[styles.bridgeAddress, {color: theme.colors.textSecondary}]}>
+              {bridge.host}:{bridge.port}
+            </Text>
+          </View>
+          <Text style={[styles.bridgeLatency, {color: theme.colors.textMuted}]}>
+            {bridge.latency} ms
+          </Text>
+          <Icon name="chevron-forward" size={20} color={theme.colors.textMuted} />
+        </TouchableOpacity>
+      ))}
+
+      {!isDiscovering && discoveredBridges.length === 0 && (
+        <Text style={[styles.inputHint, {color: theme.colors.textMuted}]}>
+          Scan to find Stratosphere computer apps on your Wi-Fi, or enter an address below
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderPairing = () => (
+    <View style={styles.inputContainer}>
+      <View style={styles.pairingHeader}>
+        <Text style={[styles.inputLabel, {color: theme.colors.text}]}>
+          Pairing Code
+        </Text>
+        {isPaired && (
+          <View style={styles.pairedBadge}>
+            <Icon name="shield-checkmark" size={16} color={theme.colors.success} />
+            <Text style={[styles.pairedText, {color: theme.colors.success}]}>Paired</Text>
+          </View>
+        )}
+      </View>
+      <View style={styles.pairingRow}>
+        <TextInput
+          style={[
+            styles.input,
+            styles.pairingInput,
+            {
+              backgroundColor: theme.colors.surface,
+              color: theme.colors.text,
+              borderColor: theme.colors.border,
+            },
+          ]}
+          value={pairingCode}
+          onChangeText={setPairingCode}
+          placeholder="K7Q2-9XTM"
+          placeholderTextColor={theme.colors.textMuted}
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={[
+            styles.pairButton,
+            {backgroundColor: theme.colors.primary},
+            isPairing && styles.buttonDisabled,
+          ]}
+          onPress={handlePair}
+          disabled={isPairing}>
+          {isPairing ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.pairButtonText}>Pair</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      <Text style={[styles.inputHint, {color: theme.colors.textMuted}]}>
+        Open pairing in the computer app, then type the code or scan its QR code with your camera
+      </Text>
+    </View>
+  );
+
   const renderInstructions = () => (
     <View style={styles.instructionsContainer}>
       <Text style={[styles.instructionsTitle, {color: theme.colors.text}]}>
@@ -229,10 +383,12 @@ const SetupScreen: React.FC<Props> = ({navigation}) => {
               Connecting to Computer
             </Text>
             <Text style={[styles.headerSubtitle, {color: theme.colors.textSecondary}]}>
-              Auto-connecting to your Voice Dev Assistant at 10.194.219.53:47893
+              Auto-connecting to {activeConnection?.name || 'your Voice Dev Assistant'} at {host}:{port}
             </Text>
           </LinearGradient>
 
+          {renderDiscovery()}
+
           {/* Connection Form */}
           <View style={styles.formContainer}>
             <View style={styles.inputContainer}>
@@ -286,6 +442,8 @@ const SetupScreen: React.FC<Props> = ({navigation}) => {
               </Text>
             </View>
 
+            {renderPairing()}
+
             {renderConnectionStatus()}
           </View>
 
@@ -390,6 +548,42 @@ const styles = StyleSheet.create({
     marginTop: 6,
     lineHeight: 20,
   },
+  pairingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  pairedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  pairedText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  pairingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pairingInput: {
+    flex: 1,
+    letterSpacing: 2,
+  },
+  pairButton: {
+    height: 56,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  pairButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   statusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -403,6 +597,53 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     flex: 1,
   },
+  discoveryContainer: {
+    paddingHorizontal: 20,
+    marginTop: 30,
+  },
+  discoveryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 16,
+  },
+  scanButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  bridgeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  bridgeInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  bridgeName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  bridgeAddress: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  bridgeLatency: {
+    fontSize: 12,
+    marginRight: 8,
+  },
   instructionsContainer: {
     paddingHorizontal: 20,
     marginTop: 30,
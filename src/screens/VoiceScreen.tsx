@@ -12,38 +12,81 @@ import {SafeAreaView} from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/Ionicons';
 import LinearGradient from 'react-native-linear-gradient';
 import {useNavigation} from '@react-navigation/native';
+import {StackNavigationProp} from '@react-navigation/stack';
 
 import {useTheme} from '../contexts/ThemeContext';
 import {useApp} from '../contexts/AppContext';
 import {useConnection} from '../contexts/ConnectionContext';
-import VoiceService, {VoiceResult} from '../services/VoiceService';
+import VoiceService, {ConversationState, SpeechState, VoiceResult} from '../services/VoiceService';
 import VoiceButton from '../components/VoiceButton';
+import LanguagePicker from '../components/LanguagePicker';
+import {RootStackParamList} from '../types';
+import {findBestMatch, VoiceIntent, WAKE_PHRASE} from '../utils/voiceIntents';
+import {getSessionLanguage, getSpeechLanguage} from '../utils/languages';
 
 const {width, height} = Dimensions.get('window');
 
 const VoiceScreen: React.FC = () => {
   const {theme} = useTheme();
-  const {currentSession, addMessage, createNewSession, settings} = useApp();
-  const {isConnected, sendVoiceMessage} = useConnection();
-  const navigation = useNavigation();
+  const {currentSession, addMessage, createNewSession, setSessionLanguage, settings} = useApp();
+  const {
+    isConnected,
+    sendVoiceMessage,
+    repositories,
+    currentProject,
+    openProject,
+    getCurrentProject,
+    getGitStatus,
+  } = useConnection();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   
   const [isVoiceListening, setIsVoiceListening] = useState(false);
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [partialVoiceText, setPartialVoiceText] = useState('');
   const [lastResponse, setLastResponse] = useState('');
+  const [speechState, setSpeechState] = useState<SpeechState>('idle');
+  const [conversationState, setConversationState] = useState<ConversationState>('off');
+  const [showLanguagePicker, setShowLanguagePicker] = useState(false);
+  const isHandsFree = conversationState !== 'off';
+  const language = getSessionLanguage(currentSession, settings.speechLanguage);
   
   const waveAnimation = useRef(new Animated.Value(0)).current;
   const responseAnimation = useRef(new Animated.Value(0)).current;
+  const hideResponseTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     initializeVoice();
+    const unsubscribeSpeech = VoiceService.onSpeechStateChange(setSpeechState);
+    const unsubscribeConversation = VoiceService.onConversationStateChange(setConversationState);
     
     return () => {
+      unsubscribeSpeech();
+      unsubscribeConversation();
+      if (hideResponseTimer.current) {
+        clearTimeout(hideResponseTimer.current);
+      }
       VoiceService.destroy();
     };
   }, []);
 
+  // The response stays up while it's being read and fades 5 seconds after
+  useEffect(() => {
+    if (hideResponseTimer.current) {
+      clearTimeout(hideResponseTimer.current);
+      hideResponseTimer.current = null;
+    }
+    if (speechState !== 'idle' || !lastResponse) return;
+
+    hideResponseTimer.current = setTimeout(() => {
+      Animated.timing(responseAnimation, {
+        toValue: 0,
+        duration: 300,
+        useNativeDriver: true,
+      }).start();
+    }, 5000);
+  }, [speechState, lastResponse, responseAnimation]);
+
   useEffect(() => {
     if (!currentSession) {
       createNewSession();
@@ -51,7 +94,25 @@ const VoiceScreen: React.FC = () => {
   }, [currentSession, createNewSession]);
 
   useEffect(() => {
-    if (isVoiceListening) {
+    VoiceService.setLanguage(language);
+  }, [language]);
+
+  // Dictation spells the open project's file names correctly
+  useEffect(() => {
+    if (!isConnected || !currentProject) {
+      VoiceService.setVocabulary([]);
+      return;
+    }
+    getCurrentProject().then(project =>
+      VoiceService.setVocabulary(project?.files.map(file => file.name) || [])
+    );
+  }, [isConnected, currentProject, getCurrentProject]);
+
+  const isHearing =
+    isVoiceListening || conversationState === 'listening' || conversationState === 'waitingForWakePhrase';
+
+  useEffect(() => {
+    if (isHearing) {
       // Start wave animation
       Animated.loop(
         Animated.sequence([
@@ -75,7 +136,7 @@ const VoiceScreen: React.FC = () => {
         useNativeDriver: true,
       }).start();
     }
-  }, [isVoiceListening, waveAnimation]);
+  }, [isHearing, waveAnimation]);
 
   const initializeVoice = async () => {
     try {
@@ -90,7 +151,7 @@ const VoiceScreen: React.FC = () => {
       }
 
       const initialized = await VoiceService.initialize({
-        language: 'en-US',
+        language,
         enablePartialResults: true,
       });
       
@@ -154,6 +215,90 @@ const VoiceScreen: React.FC = () => {
     Alert.alert('Voice Error', error);
   };
 
+  const showResponse = (text: string) => {
+    setLastResponse(text);
+
+    // Animate response appearance
+    Animated.timing(responseAnimation, {
+      toValue: 1,
+      duration: 500,
+      useNativeDriver: true,
+    }).start();
+  };
+
+  // Command results are shown and spoken, but stay out of the chat
+  const reply = async (text: string) => {
+    showResponse(text);
+    await VoiceService.speak(text).catch(() => {});
+  };
+
+  const handleIntent = async (intent: VoiceIntent) => {
+    switch (intent.type) {
+      case 'stopSpeaking':
+        await VoiceService.stopSpeaking();
+        return;
+      case 'repeat':
+        if (!(await VoiceService.repeatLast()) && lastResponse) {
+          await reply(lastResponse);
+        }
+        return;
+      case 'newChat':
+        createNewSession();
+        await reply('Started a new chat.');
+        return;
+    }
+
+    if (!isConnected) {
+      await reply('Connect to your computer first.');
+      return;
+    }
+
+    switch (intent.type) {
+      case 'openProject': {
+        const match = findBestMatch(intent.name, repositories.map(project => project.name));
+        const project = match && repositories.find(p => p.name === match.value);
+        if (!project) {
+          await reply(`I couldn't find a project called ${intent.name}.`);
+          return;
+        }
+        const opened = await openProject(project.id, project.path);
+        await reply(opened ? `Opened ${project.name}.` : `Couldn't open ${project.name}.`);
+        return;
+      }
+      case 'readFile': {
+        const project = await getCurrentProject();
+        if (!project) {
+          await reply('Open a project first.');
+          return;
+        }
+        const match = findBestMatch(intent.path, project.files.map(file => file.relativePath));
+        const file = match && project.files.find(f => f.relativePath === match.value);
+        if (!file) {
+          await reply(`I couldn't find ${intent.path} in ${project.name}.`);
+          return;
+        }
+        await reply(`Opening ${file.name}.`);
+        navigation.navigate('CodeViewer', {filePath: file.path, fileName: file.name});
+        return;
+      }
+      case 'gitStatus': {
+        const status = currentProject ? await getGitStatus(currentProject) : null;
+        if (!status) {
+          await reply(currentProject ? "Couldn't read the git status." : 'Open a project first.');
+          return;
+        }
+        const staged = status.files.filter(file => file.staged).length;
+        const unstaged = status.files.length - staged;
+        await reply(
+          status.files.length === 0
+            ? `On ${status.branch}. Nothing to commit.`
+            : `On ${status.branch}. ${staged} staged and ${unstaged} unstaged ${unstaged === 1 ? 'change' : 'changes'}.`
+        );
+        return;
+      }
+    }
+  };
+
   const handleSendVoiceMessage = async (text: string) => {
     if (!text.trim() || !currentSession) return;
 
@@ -161,13 +306,19 @@ const VoiceScreen: React.FC = () => {
     setPartialVoiceText('');
 
     try {
+      const intent = VoiceService.recognizeIntent(text);
+      if (intent.type !== 'prompt') {
+        await handleIntent(intent);
+        return;
+      }
+
       if (isConnected) {
         const context = {
           projectContext: currentSession.projectContext,
           sessionId: currentSession.id,
         };
         
-        const result = await sendVoiceMessage(text.trim(), 'en-US', context);
+        const result = await sendVoiceMessage(text.trim(), language, context);
 
         if (result) {
           addMessage({
@@ -182,24 +333,10 @@ const VoiceScreen: React.FC = () => {
             isVoice: false,
           });
 
-          setLastResponse(result.message.content);
-          
-          // Animate response appearance
-          Animated.timing(responseAnimation, {
-            toValue: 1,
-            duration: 500,
-            useNativeDriver: true,
-          }).start();
-
-          // Auto-hide after 5 seconds
-          setTimeout(() => {
-            Animated.timing(responseAnimation, {
-              toValue: 0,
-              duration: 300,
-              useNativeDriver: true,
-            }).start();
-          }, 5000);
-
+          showResponse(result.message.content);
+          if (settings.readAloud || isHandsFree) {
+            VoiceService.speakReply(result.message.content);
+          }
         } else {
           addMessage({
             content: text.trim(),
@@ -226,6 +363,47 @@ const VoiceScreen: React.FC = () => {
     }
   };
 
+  // Hands-free mode outlives renders, so it always calls the latest handler
+  const sendVoiceMessageRef = useRef(handleSendVoiceMessage);
+  sendVoiceMessageRef.current = handleSendVoiceMessage;
+
+  const toggleHandsFree = async () => {
+    if (isHandsFree) {
+      await VoiceService.stopConversation();
+      setPartialVoiceText('');
+      return;
+    }
+
+    try {
+      await VoiceService.startConversation({
+        wakePhrase: settings.requireWakePhrase ? WAKE_PHRASE : undefined,
+        onUtterance: text => sendVoiceMessageRef.current(text),
+        onTranscript: setPartialVoiceText,
+        onError: error => Alert.alert('Voice Error', error),
+      });
+    } catch (error) {
+      console.error('Hands-free start error:', error);
+      Alert.alert('Voice Error', 'Failed to start hands-free mode');
+    }
+  };
+
+  const getStatusText = () => {
+    switch (conversationState) {
+      case 'waitingForWakePhrase':
+        return 'Say "Hey Stratosphere"';
+      case 'listening':
+        return 'Listening...';
+      case 'processing':
+        return 'Processing...';
+      case 'speaking':
+        return 'Speaking...';
+    }
+    if (isProcessing) return 'Processing...';
+    if (isVoiceListening) return 'Listening...';
+    if (speechState === 'speaking') return 'Speaking... hold to interrupt';
+    return isVoiceEnabled ? 'Hold to speak' : 'Voice not available';
+  };
+
   const waveScale = waveAnimation.interpolate({
     inputRange: [0, 1],
     outputRange: [1, 1.2],
@@ -301,7 +479,11 @@ const VoiceScreen: React.FC = () => {
               </Text>
             </View>
           </View>
-          <View style={styles.headerSpacer} />
+          <TouchableOpacity
+            style={styles.headerSpacer}
+            onPress={() => navigation.navigate('Settings')}>
+            <Icon name="settings-outline" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
         </View>
 
         {renderProjectContext()}
@@ -309,7 +491,7 @@ const VoiceScreen: React.FC = () => {
         {/* Main Voice Interface */}
         <View style={styles.voiceInterface}>
           <View style={styles.voiceButtonContainer}>
-            {isVoiceListening && renderWaveform()}
+            {isHearing && renderWaveform()}
             
             <VoiceButton
               isListening={isVoiceListening}
@@ -318,21 +500,14 @@ const VoiceScreen: React.FC = () => {
               onPressOut={handleVoiceStop}
               size="large"
               showText={false}
-              disabled={isProcessing}
+              disabled={isProcessing || isHandsFree}
             />
           </View>
 
           {/* Status Text */}
           <View style={styles.statusContainer}>
             <Text style={[styles.statusText, {color: theme.colors.text}]}>
-              {isProcessing 
-                ? 'Processing...'
-                : isVoiceListening 
-                ? 'Listening...'
-                : isVoiceEnabled 
-                ? 'Hold to speak'
-                : 'Voice not available'
-              }
+              {getStatusText()}
             </Text>
             
             {partialVoiceText ? (
@@ -340,6 +515,46 @@ const VoiceScreen: React.FC = () => {
                 "{partialVoiceText}"
               </Text>
             ) : null}
+
+            <View style={styles.voiceOptions}>
+              <TouchableOpacity
+                style={[
+                  styles.optionChip,
+                  {
+                    backgroundColor: isHandsFree ? theme.colors.primary : theme.colors.surface,
+                    borderColor: isHandsFree ? theme.colors.primary : theme.colors.border,
+                    opacity: isVoiceEnabled && isConnected ? 1 : 0.5,
+                  },
+                ]}
+                onPress={toggleHandsFree}
+                disabled={!isVoiceEnabled || !isConnected}>
+                <Icon
+                  name={isHandsFree ? 'radio' : 'radio-outline'}
+                  size={18}
+                  color={isHandsFree ? '#FFFFFF' : theme.colors.text}
+                />
+                <Text
+                  style={[
+                    styles.optionChipText,
+                    {color: isHandsFree ? '#FFFFFF' : theme.colors.text},
+                  ]}>
+                  {isHandsFree ? 'Hands-free on' : 'Hands-free'}
+                </Text>
+              </TouchableOpacity>
+  
+              <TouchableOpacity
+                style={[
+                  styles.optionChip,
+                  {backgroundColor: theme.colors.surface, borderColor: theme.colors.border},
+                ]}
+                onPress={() => setShowLanguagePicker(true)}
+                disabled={!currentSession}>
+                <Icon name="language" size={18} color={theme.colors.text} />
+                <Text style={[styles.optionChipText, {color: theme.colors.text}]}>
+                  {getSpeechLanguage(language).shortName}
+                </Text>
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
 
@@ -359,6 +574,33 @@ const VoiceScreen: React.FC = () => {
           </Text>
         </Animated.View>
 
+        {/* Playback Controls */}
+        {speechState !== 'idle' && (
+          <View style={styles.playbackControls}>
+            <TouchableOpacity
+              style={[styles.playbackButton, {backgroundColor: theme.colors.surface}]}
+              onPress={() =>
+                speechState === 'paused' ? VoiceService.resumeSpeech() : VoiceService.pauseSpeech()
+              }>
+              <Icon
+                name={speechState === 'paused' ? 'play' : 'pause'}
+                size={22}
+                color={theme.colors.primary}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.playbackButton, {backgroundColor: theme.colors.surface}]}
+              onPress={() => VoiceService.skipSpeech()}>
+              <Icon name="play-skip-forward" size={22} color={theme.colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.playbackButton, {backgroundColor: theme.colors.surface}]}
+              onPress={() => VoiceService.stopSpeaking()}>
+              <Icon name="stop" size={22} color={theme.colors.error} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Instructions */}
         <View style={styles.instructions}>
           <Text style={[styles.instructionTitle, {color: theme.colors.text}]}>
@@ -376,6 +618,14 @@ const VoiceScreen: React.FC = () => {
         </View>
 
       </LinearGradient>
+
+      <LanguagePicker
+        visible={showLanguagePicker}
+        title="Language for this chat"
+        selected={language}
+        onSelect={code => currentSession && setSessionLanguage(currentSession.id, code)}
+        onClose={() => setShowLanguagePicker(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -402,6 +652,7 @@ const styles = StyleSheet.create({
   },
   headerSpacer: {
     width: 36, // Same width as back button for centering
+    alignItems: 'flex-end',
   },
   title: {
     fontSize: 28,
@@ -469,6 +720,24 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     textAlign: 'center',
   },
+  voiceOptions: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  optionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  optionChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   responseContainer: {
     marginHorizontal: 20,
     marginBottom: 30,
@@ -484,6 +753,20 @@ const styles = StyleSheet.create({
     marginLeft: 12,
     flex: 1,
   },
+  playbackControls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: -16,
+    marginBottom: 24,
+  },
+  playbackButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 12,
+  },
   instructions: {
     paddingHorizontal: 20,
     paddingBottom: 20,
@@ -3,6 +3,21 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
 import {Platform} from 'react-native';
 import {v4 as uuidv4} from 'uuid';
+import EventChannel from './EventChannel';
+import CertificatePinningService from './CertificatePinningService';
+import Outbox, {OutboxEntry} from './Outbox';
+import {
+  createPairingKeyPair,
+  deriveSharedSecret,
+  derivePairingProof,
+  deriveServerProof,
+  deriveDeviceKey,
+  multipartSigningBody,
+  signRequest,
+  MultipartField,
+} from '../utils/pairing';
+import {PickedFile} from '../utils/attachments';
+import {MessageAttachment} from '../types';
 
 export interface ApiConfig {
   baseURL: string;
@@ -33,8 +48,43 @@ export interface ChatMessage {
   isVoice?: boolean;
   timestamp: Date;
   model?: string;
+  edits?: EditProposal[];
+  attachments?: MessageAttachment[];
 }
 
+// A file change the assistant proposes alongside its answer
+export interface EditProposal {
+  id?: string;
+  // As accepted by /mobile/files
+  filePath: string;
+  // Unified diff against the file's current contents
+  diff: string;
+  description?: string;
+}
+
+export interface StreamCallbacks {
+  // Called for every token with the token itself and the content accumulated so far
+  onToken: (token: string, content: string) => void;
+  signal?: AbortSignal;
+  // Lets the computer recognize a repeat of a message it already has
+  clientMessageId?: string;
+}
+
+export interface FileChangedEvent {
+  path: string;
+  changeType: 'created' | 'modified' | 'deleted';
+  modified?: Date;
+}
+
+export interface RealtimeEventMap {
+  session_update: SessionInfo;
+  project_update: ProjectDetails;
+  file_changed: FileChangedEvent;
+  chat_message: ChatMessage;
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap;
+
 export interface Project {
   id: string;
   name: string;
@@ -60,16 +110,75 @@ export interface ProjectDetails extends Project {
   version?: string;
 }
 
+// A conversation as the bridge knows it, from any device
+export interface RemoteChatSession {
+  id: string;
+  title?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number;
+}
+
+export type OutboxDeliveryCallback = (
+  entry: OutboxEntry,
+  result: {message: ChatMessage; userMessage: ChatMessage}
+) => void;
+
+export type GitFileStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
+
+export interface GitFileChange {
+  // Relative to the repository root
+  path: string;
+  oldPath?: string;
+  status: GitFileStatus;
+  staged: boolean;
+}
+
+export interface GitStatus {
+  branch: string;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  // A file with both staged and unstaged changes appears once for each
+  files: GitFileChange[];
+}
+
+export interface GitBranch {
+  name: string;
+  current: boolean;
+  lastCommit?: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  message: string;
+  author: string;
+  date: Date;
+}
+
+// While polling, the socket is tried again after this long, doubling up to the maximum
+const SOCKET_RETRY_DELAY = 15000;
+const MAX_SOCKET_RETRY_DELAY = 5 * 60 * 1000;
+
 class ApiService {
   private client: AxiosInstance;
   private sessionId: string | null = null;
   private config: ApiConfig;
   private deviceId: string;
+  private deviceKey: string | null = null;
+  private credentialsReady: Promise<void>;
+  private lastError: string | null = null;
+  private certificateFingerprint: string | null = null;
   private isConnected: boolean = false;
   private connectionListeners: ((connected: boolean) => void)[] = [];
+  private outboxListeners: OutboxDeliveryCallback[] = [];
   private retryQueue: Array<() => Promise<any>> = [];
   private polling: ReturnType<typeof setInterval> | null = null;
-  private pollingCallbacks: Map<string, (data: any) => void> = new Map();
+  private pollingCallbacks: Map<string, Set<(data: any) => void>> = new Map();
+  private eventChannel: EventChannel | null = null;
+  private socketRetryTimer: ReturnType<typeof setTimeout> | null = null;
+  private socketRetryDelay = SOCKET_RETRY_DELAY;
 
   constructor(config: ApiConfig) {
     this.config = {
@@ -88,6 +197,7 @@ class ApiService {
     });
 
     this.deviceId = this.generateDeviceId();
+    this.credentialsReady = this.loadCredentials();
     this.setupInterceptors();
     this.loadStoredSession();
   }
@@ -97,17 +207,35 @@ class ApiService {
     return uuidv4();
   }
 
-  private async loadStoredSession() {
+  // Device ID and the pairing key for this bridge, needed before any request is signed
+  private async loadCredentials() {
     try {
-      const storedSessionId = await AsyncStorage.getItem('api_session_id');
-      const storedDeviceId = await AsyncStorage.getItem('device_id');
-      
+      const [storedDeviceId, storedDeviceKey] = await Promise.all([
+        AsyncStorage.getItem('device_id'),
+        AsyncStorage.getItem(this.getPairingStorageKey()),
+      ]);
+
       if (storedDeviceId) {
         this.deviceId = storedDeviceId;
       } else {
         await AsyncStorage.setItem('device_id', this.deviceId);
       }
 
+      this.deviceKey = storedDeviceKey;
+    } catch (error) {
+      console.error('Failed to load stored credentials:', error);
+    }
+  }
+
+  private getPairingStorageKey(): string {
+    return `pairing_key:${this.config.baseURL}`;
+  }
+
+  private async loadStoredSession() {
+    try {
+      await this.credentialsReady;
+      const storedSessionId = await AsyncStorage.getItem('api_session_id');
+
       if (storedSessionId) {
         this.sessionId = storedSessionId;
         // Validate stored session
@@ -119,12 +247,30 @@ class ApiService {
   }
 
   private setupInterceptors() {
-    // Request interceptor to add session ID
+    // Request interceptor to add session ID and the pairing signature
     this.client.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        await this.credentialsReady;
         if (this.sessionId) {
           config.headers['x-session-id'] = this.sessionId;
         }
+        // Serialized here rather than by axios so the signed body is the one sent
+        let body = '';
+        if (config.data instanceof FormData) {
+          body = multipartSigningBody(this.getMultipartFields(config.data));
+        } else if (config.data !== undefined && config.data !== null) {
+          if (typeof config.data !== 'string') {
+            config.data = JSON.stringify(config.data);
+            config.headers['Content-Type'] = 'application/json';
+          }
+          body = config.data;
+        }
+        // The path as the bridge sees it, query included
+        const path = this.client.getUri(config).replace(/^[a-z]+:\/\/[^/]+/i, '');
+        const authHeaders = this.getAuthHeaders(config.method || 'get', path, body);
+        Object.keys(authHeaders).forEach(header => {
+          config.headers[header] = authHeaders[header];
+        });
         return config;
       },
       (error) => Promise.reject(error)
@@ -135,16 +281,143 @@ class ApiService {
       (response) => response,
       async (error) => {
         if (error.response?.status === 401) {
-          // Session expired, create new session
-          await this.createSession();
-          // Retry the original request
-          return this.client.request(error.config);
+          if (error.response.data?.code === 'PAIRING_REQUIRED') {
+            return Promise.reject(new Error(
+              this.deviceKey
+                ? 'This computer no longer recognizes this device. Pair again from the computer app.'
+                : 'This computer requires pairing. Enter the pairing code shown in the computer app.'
+            ));
+          }
+          if (!error.config._sessionRetry && error.config.url !== '/mobile/session') {
+            // Session expired, create new session
+            await this.createSession();
+            // Retry the original request once
+            return this.client.request({...error.config, _sessionRetry: true});
+          }
         }
         return Promise.reject(error);
       }
     );
   }
 
+  private getMultipartFields(form: FormData): MultipartField[] {
+    return (form as any).getParts().map((part: any): MultipartField =>
+      part.string !== undefined
+        ? {name: part.fieldName, value: part.string}
+        : {name: part.fieldName, fileName: part.name, type: part.type}
+    );
+  }
+
+  private getAuthHeaders(method: string, path: string, body: string = ''): Record<string, string> {
+    if (!this.deviceKey) {
+      return {};
+    }
+
+    const timestamp = Date.now().toString();
+    const nonce = uuidv4();
+    return {
+      'x-device-id': this.deviceId,
+      'x-auth-timestamp': timestamp,
+      'x-auth-nonce': nonce,
+      'x-auth-signature': signRequest(this.deviceKey, timestamp, nonce, method, path, body),
+    };
+  }
+
+  // Pairing - exchanges public keys with the desktop app, using the one-time
+  // secret it shows to prove both ends are who they say. The secret itself
+  // never leaves the phone.
+  async pair(secret: string): Promise<void> {
+    await this.credentialsReady;
+    // Pins the certificate on first pairing, before the secret-derived proof is sent
+    const fingerprint = await this.checkCertificate(true);
+
+    const nonce = uuidv4();
+    const keyPair = createPairingKeyPair(Array.from(crypto.getRandomValues(new Uint8Array(32))));
+    const deviceName = await this.getDeviceName();
+    const response = await this.client.post('/mobile/pair', {
+      deviceId: this.deviceId,
+      deviceName,
+      platform: Platform.OS,
+      nonce,
+      publicKey: keyPair.publicKey,
+      proof: derivePairingProof(secret, this.deviceId, nonce, keyPair.publicKey, fingerprint || undefined),
+    });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Pairing failed');
+    }
+    const serverPublicKey = response.data.publicKey;
+    if (typeof serverPublicKey !== 'string') {
+      throw new Error('Update Stratosphere on your computer to pair with this version of the app');
+    }
+
+    // The desktop proves it knows the secret too, so a look-alike host can't pair
+    const serverProof = deriveServerProof(secret, this.deviceId, nonce, keyPair.publicKey, serverPublicKey);
+    if (response.data.serverProof !== serverProof) {
+      throw new Error('The computer could not verify the pairing code');
+    }
+
+    const sharedSecret = deriveSharedSecret(keyPair.privateKey, serverPublicKey);
+    this.deviceKey = deriveDeviceKey(sharedSecret, secret, this.deviceId);
+    await AsyncStorage.setItem(this.getPairingStorageKey(), this.deviceKey);
+
+    // Sessions created before pairing carry no device identity
+    this.sessionId = null;
+    await AsyncStorage.removeItem('api_session_id');
+    console.log('Device paired with', this.config.baseURL);
+  }
+
+  async unpair(): Promise<void> {
+    this.deviceKey = null;
+    await AsyncStorage.removeItem(this.getPairingStorageKey());
+    this.disconnect();
+  }
+
+  isPaired(): boolean {
+    return this.deviceKey !== null;
+  }
+
+  // Waits for the stored pairing key to load
+  async checkPaired(): Promise<boolean> {
+    await this.credentialsReady;
+    return this.isPaired();
+  }
+
+  // HTTPS bridges usually have self-signed certificates, so they're trusted by
+  // fingerprint: pinned when pairing, and refused if it ever changes
+  private async checkCertificate(pinIfNew: boolean = false): Promise<string | null> {
+    const address = this.getSecureAddress();
+    if (!address || !CertificatePinningService.isSupported()) {
+      return null;
+    }
+
+    const {host, port} = address;
+    try {
+      this.certificateFingerprint = await CertificatePinningService.verify(
+        host,
+        port,
+        this.config.timeout,
+        pinIfNew
+      );
+    } catch (error) {
+      this.certificateFingerprint = null;
+      throw error;
+    }
+    return this.certificateFingerprint;
+  }
+
+  private getSecureAddress(): {host: string; port: number} | null {
+    const match = this.config.baseURL.match(/^https:\/\/([^/:]+)(?::(\d+))?/i);
+    if (!match) {
+      return null;
+    }
+    return {host: match[1], port: match[2] ? parseInt(match[2], 10) : 443};
+  }
+
+  getLastError(): string | null {
+    return this.lastError;
+  }
+
   // Connection management
   async connect(): Promise<boolean> {
     try {
@@ -154,6 +427,8 @@ class ApiService {
         throw new Error('No network connection');
       }
 
+      await this.checkCertificate();
+
       // Create or validate session
       if (!this.sessionId) {
         await this.createSession();
@@ -162,11 +437,14 @@ class ApiService {
       }
 
       this.isConnected = true;
+      this.lastError = null;
       this.notifyConnectionListeners(true);
       this.processRetryQueue();
+      this.flushOutbox();
       return true;
     } catch (error) {
       console.error('Connection failed:', error);
+      this.lastError = error instanceof Error ? error.message : 'Connection failed';
       this.isConnected = false;
       this.notifyConnectionListeners(false);
       return false;
@@ -176,7 +454,7 @@ class ApiService {
   disconnect() {
     this.isConnected = false;
     this.sessionId = null;
-    this.stopPolling();
+    this.stopRealtimeUpdates();
     AsyncStorage.removeItem('api_session_id');
     this.notifyConnectionListeners(false);
   }
@@ -241,14 +519,21 @@ class ApiService {
   async sendMessage(
     message: string,
     isVoice: boolean = false,
-    context?: any
+    context?: any,
+    signal?: AbortSignal,
+    clientMessageId?: string
   ): Promise<ApiResponse<{message: ChatMessage; userMessage: ChatMessage}>> {
     return this.makeRequest(async () => {
-      const response = await this.client.post('/mobile/chat', {
-        message,
-        isVoice,
-        context,
-      });
+      const response = await this.client.post(
+        '/mobile/chat',
+        {
+          message,
+          isVoice,
+          context,
+          clientMessageId,
+        },
+        {signal}
+      );
 
       if (response.data.success) {
         return {
@@ -270,13 +555,201 @@ class ApiService {
     });
   }
 
+  // Streaming chat - the bridge answers /mobile/chat/stream with either
+  // Server-Sent Events or a plain chunked text body. React Native's fetch
+  // can't read a body incrementally, so this goes through XMLHttpRequest.
+  async sendMessageStream(
+    message: string,
+    isVoice: boolean = false,
+    context: any,
+    callbacks: StreamCallbacks
+  ): Promise<ApiResponse<{message: ChatMessage; userMessage: ChatMessage}>> {
+    if (!this.isConnected) {
+      throw new Error('Not connected to server');
+    }
+
+    const {onToken, signal, clientMessageId} = callbacks;
+    await this.credentialsReady;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.createAbortError());
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      let content = '';
+      let readIndex = 0;
+      let pending = '';
+      let finalResult: {message: ChatMessage; userMessage: ChatMessage} | null = null;
+      let streamError: string | null = null;
+      let settled = false;
+
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', handleAbort);
+        fn();
+      };
+
+      const handleAbort = () => {
+        xhr.abort();
+        settle(() => reject(this.createAbortError()));
+      };
+
+      const emitToken = (token: string) => {
+        if (!token) return;
+        content += token;
+        onToken(token, content);
+      };
+
+      const handleEvent = (payload: string) => {
+        if (payload === '[DONE]') return;
+        try {
+          const event = JSON.parse(payload);
+          switch (event.type) {
+            case 'token':
+              emitToken(event.token || '');
+              break;
+            case 'done':
+              finalResult = {
+                message: {
+                  ...event.message,
+                  timestamp: new Date(event.message.timestamp),
+                },
+                userMessage: {
+                  ...event.userMessage,
+                  timestamp: new Date(event.userMessage.timestamp),
+                },
+              };
+              break;
+            case 'error':
+              streamError = event.error || 'Streaming failed';
+              break;
+          }
+        } catch (error) {
+          // Not JSON - treat the raw data line as text
+          emitToken(payload);
+        }
+      };
+
+      const consume = (isFinal: boolean) => {
+        const text = xhr.responseText || '';
+        const chunk = text.substring(readIndex);
+        readIndex = text.length;
+
+        const contentType = xhr.getResponseHeader('Content-Type') || '';
+        if (!contentType.includes('text/event-stream')) {
+          emitToken(chunk);
+          return;
+        }
+
+        pending += chunk;
+        const events = pending.split(/\r?\n\r?\n/);
+        pending = isFinal ? '' : events.pop() || '';
+
+        events.forEach(rawEvent => {
+          const data = rawEvent
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.substring(5).replace(/^ /, ''))
+            .join('\n');
+          if (data) {
+            handleEvent(data);
+          }
+        });
+      };
+
+      xhr.open('POST', `${this.config.baseURL}/mobile/chat/stream`);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('Accept', 'text/event-stream');
+      if (this.sessionId) {
+        xhr.setRequestHeader('x-session-id', this.sessionId);
+      }
+      const body = JSON.stringify({message, isVoice, context, clientMessageId});
+      const authHeaders = this.getAuthHeaders('POST', '/mobile/chat/stream', body);
+      Object.keys(authHeaders).forEach(header => {
+        xhr.setRequestHeader(header, authHeaders[header]);
+      });
+
+      // Long answers can take a few minutes to stream in full
+      xhr.timeout = 300000;
+
+      xhr.onprogress = () => {
+        if (xhr.status >= 200 && xhr.status < 300) {
+          consume(false);
+        }
+      };
+
+      xhr.onload = () => {
+        if (xhr.status === 404) {
+          // Older bridges don't have a streaming endpoint
+          console.log('ApiService.sendMessageStream: Streaming not supported, falling back to sendMessage');
+          settle(() => {
+            this.sendMessage(message, isVoice, context, signal, clientMessageId)
+              .then(result => {
+                if (result.data) {
+                  emitToken(result.data.message.content);
+                }
+                resolve(result);
+              })
+              .catch(error => reject(signal?.aborted ? this.createAbortError() : error));
+          });
+          return;
+        }
+
+        if (xhr.status < 200 || xhr.status >= 300) {
+          settle(() => reject(new Error(`Streaming request failed with status ${xhr.status}`)));
+          return;
+        }
+
+        consume(true);
+
+        if (streamError) {
+          const errorMessage = streamError;
+          settle(() => reject(new Error(errorMessage)));
+          return;
+        }
+
+        const now = new Date();
+        settle(() =>
+          resolve({
+            success: true,
+            data: finalResult || {
+              message: {id: uuidv4(), role: 'assistant', content, isVoice, timestamp: now},
+              userMessage: {id: uuidv4(), role: 'user', content: message, isVoice, timestamp: now},
+            },
+          })
+        );
+      };
+
+      xhr.onerror = () => {
+        settle(() => reject(new Error('Network error while streaming')));
+      };
+
+      xhr.ontimeout = () => {
+        settle(() => reject(new Error('Timed out waiting for the reply')));
+      };
+
+      signal?.addEventListener('abort', handleAbort);
+      xhr.send(body);
+    });
+  }
+
+  private createAbortError(): Error {
+    const error = new Error('Request cancelled');
+    error.name = 'AbortError';
+    return error;
+  }
+
   async getChatHistory(
     limit: number = 50,
-    offset: number = 0
+    offset: number = 0,
+    sessionId?: string
   ): Promise<ApiResponse<{messages: ChatMessage[]; total: number}>> {
     return this.makeRequest(async () => {
       const response = await this.client.get('/mobile/chat/history', {
-        params: {limit, offset},
+        params: {limit, offset, sessionId},
       });
 
       if (response.data.success) {
@@ -296,6 +769,54 @@ class ApiService {
     });
   }
 
+  async getChatSessions(): Promise<ApiResponse<{sessions: RemoteChatSession[]}>> {
+    return this.makeRequest(async () => {
+      const response = await this.client.get('/mobile/chat/sessions');
+
+      if (response.data.success) {
+        return {
+          success: true,
+          data: {
+            sessions: response.data.sessions.map((session: any) => ({
+              ...session,
+              createdAt: new Date(session.createdAt),
+              updatedAt: new Date(session.updatedAt),
+            })),
+          },
+        };
+      } else {
+        throw new Error(response.data.error || 'Failed to get chat sessions');
+      }
+    });
+  }
+
+  // Uploads messages the bridge hasn't seen; it stores them under their own ids
+  async pushChatHistory(
+    sessionId: string,
+    messages: ChatMessage[],
+    title?: string
+  ): Promise<ApiResponse<{accepted: number}>> {
+    return this.makeRequest(async () => {
+      const response = await this.client.post('/mobile/chat/history', {
+        sessionId,
+        title,
+        messages: messages.map(message => ({
+          ...message,
+          timestamp: new Date(message.timestamp).toISOString(),
+        })),
+      });
+
+      if (response.data.success) {
+        return {
+          success: true,
+          data: {accepted: response.data.accepted ?? messages.length},
+        };
+      } else {
+        throw new Error(response.data.error || 'Failed to push chat history');
+      }
+    });
+  }
+
   async clearChatHistory(): Promise<ApiResponse> {
     return this.makeRequest(async () => {
       const response = await this.client.delete('/mobile/chat/history');
@@ -306,17 +827,33 @@ class ApiService {
     });
   }
 
+  async deleteChatSession(sessionId: string): Promise<ApiResponse> {
+    return this.makeRequest(async () => {
+      const response = await this.client.delete(
+        `/mobile/chat/sessions/${encodeURIComponent(sessionId)}`
+      );
+
+      if (response.data.success) {
+        return {success: true};
+      } else {
+        throw new Error(response.data.error || 'Failed to delete chat session');
+      }
+    });
+  }
+
   // Voice functionality
   async sendVoiceMessage(
     text: string,
     language: string = 'en-US',
-    context?: any
+    context?: any,
+    clientMessageId?: string
   ): Promise<ApiResponse<{message: ChatMessage; userMessage: ChatMessage}>> {
     return this.makeRequest(async () => {
       const response = await this.client.post('/mobile/voice', {
         text,
         language,
         context,
+        clientMessageId,
       });
 
       if (response.data.success) {
@@ -339,6 +876,73 @@ class ApiService {
     });
   }
 
+  // Server-side fallback for recordings the device couldn't transcribe
+  async transcribeAudio(
+    uri: string,
+    language: string = 'en-US'
+  ): Promise<ApiResponse<{text: string}>> {
+    // One attempt: the user is waiting on it, and a retry re-uploads the clip
+    return this.makeRequest(async () => {
+      const form = new FormData();
+      form.append('audio', {uri, name: uri.split('/').pop() || 'clip.m4a', type: 'audio/mp4'} as any);
+      form.append('language', language);
+
+      const response = await this.client.post('/mobile/voice/transcribe', form, {
+        headers: {'Content-Type': 'multipart/form-data'},
+        // Uploading and transcribing takes longer than a normal request
+        timeout: 60000,
+      });
+
+      if (response.data.success) {
+        return {success: true, data: {text: response.data.text || ''}};
+      } else {
+        throw new Error(response.data.error || 'Failed to transcribe recording');
+      }
+    }, 1);
+  }
+
+  // Uploads a photo or file for the next message, which refers to it by id
+  async uploadAttachment(
+    file: PickedFile,
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<{attachment: MessageAttachment}>> {
+    return this.makeRequest(async () => {
+      const form = new FormData();
+      form.append('file', {uri: file.uri, name: file.name, type: file.mimeType} as any);
+
+      const response = await this.client.post('/mobile/attachments', form, {
+        headers: {'Content-Type': 'multipart/form-data'},
+        // Sized for a 10 MB file over a slow connection
+        timeout: 120000,
+        signal,
+        onUploadProgress: event => {
+          if (onProgress && event.total) {
+            onProgress(event.loaded / event.total);
+          }
+        },
+      });
+
+      if (response.data.success) {
+        const {id, name, mimeType, size} = response.data.attachment;
+        return {
+          success: true,
+          data: {
+            attachment: {
+              id,
+              name: name || file.name,
+              mimeType: mimeType || file.mimeType,
+              size: size ?? file.size,
+              localUri: file.uri,
+            },
+          },
+        };
+      } else {
+        throw new Error(response.data.error || 'Failed to upload attachment');
+      }
+    });
+  }
+
   // Project management
   async getProjects(): Promise<ApiResponse<{projects: Project[]}>> {
     return this.makeRequest(async () => {
@@ -554,6 +1158,225 @@ class ApiService {
     });
   }
 
+  // Git - every call names the repository by its path on the computer
+  async getGitStatus(repoPath: string): Promise<ApiResponse<GitStatus>> {
+    return this.makeRequest(async () => {
+      const response = await this.client.get('/mobile/git/status', {
+        params: {path: repoPath},
+      });
+
+      if (response.data.success) {
+        return {
+          success: true,
+          data: {
+            ahead: 0,
+            behind: 0,
+            ...response.data.status,
+            files: response.data.status.files || [],
+          },
+        };
+      } else {
+        throw new Error(response.data.error || 'Failed to get git status');
+      }
+    });
+  }
+
+  async getGitDiff(
+    repoPath: string,
+    filePath: string,
+    staged: boolean
+  ): Promise<ApiResponse<{diff: string}>> {
+    return this.makeRequest(async () => {
+      const response = await this.client.get('/mobile/git/diff', {
+        params: {path: repoPath, file: filePath, staged},
+      });
+
+      if (response.data.success) {
+        return {success: true, data: {diff: response.data.diff || ''}};
+      } else {
+        throw new Error(response.data.error || 'Failed to get diff');
+      }
+    });
+  }
+
+  // Git changes get a single attempt: if the response is lost, a retry would
+  // fail with "nothing to commit" or "branch already exists" after it worked
+  async stageFiles(repoPath: string, files: string[]): Promise<ApiResponse> {
+    return this.makeRequest(async () => {
+      const response = await this.client.post('/mobile/git/stage', {
+        path: repoPath,
+        files,
+      });
+
+      if (response.data.success) {
+        return {success: true};
+      } else {
+        throw new Error(response.data.error || 'Failed to stage files');
+      }
+    }, 1);
+  }
+
+  async unstageFiles(repoPath: string, files: string[]): Promise<ApiResponse> {
+    return this.makeRequest(async () => {
+      const response = await this.client.post('/mobile/git/unstage', {
+        path: repoPath,
+        files,
+      });
+
+      if (response.data.success) {
+        return {success: true};
+      } else {
+        throw new Error(response.data.error || 'Failed to unstage files');
+      }
+    }, 1);
+  }
+
+  async commit(repoPath: string, message: string): Promise<ApiResponse<{commit: GitCommit}>> {
+    return this.makeRequest(async () => {
+      const response = await this.client.post('/mobile/git/commit', {
+        path: repoPath,
+        message,
+      });
+
+      if (response.data.success) {
+        return {
+          success: true,
+          data: {
+            commit: {
+              ...response.data.commit,
+              date: new Date(response.data.commit.date),
+            },
+          },
+        };
+      } else {
+        throw new Error(response.data.error || 'Failed to commit');
+      }
+    }, 1);
+  }
+
+  async getBranches(repoPath: string): Promise<ApiResponse<{branches: GitBranch[]}>> {
+    return this.makeRequest(async () => {
+      const response = await this.client.get('/mobile/git/branches', {
+        params: {path: repoPath},
+      });
+
+      if (response.data.success) {
+        return {success: true, data: {branches: response.data.branches || []}};
+      } else {
+        throw new Error(response.data.error || 'Failed to list branches');
+      }
+    });
+  }
+
+  async checkoutBranch(
+    repoPath: string,
+    branch: string,
+    create: boolean = false
+  ): Promise<ApiResponse> {
+    return this.makeRequest(async () => {
+      const response = await this.client.post('/mobile/git/checkout', {
+        path: repoPath,
+        branch,
+        create,
+      });
+
+      if (response.data.success) {
+        return {success: true};
+      } else {
+        throw new Error(response.data.error || `Failed to switch to ${branch}`);
+      }
+    }, 1);
+  }
+
+  async getGitLog(repoPath: string, limit: number = 30): Promise<ApiResponse<{commits: GitCommit[]}>> {
+    return this.makeRequest(async () => {
+      const response = await this.client.get('/mobile/git/log', {
+        params: {path: repoPath, limit},
+      });
+
+      if (response.data.success) {
+        return {
+          success: true,
+          data: {
+            commits: (response.data.commits || []).map((commit: any) => ({
+              ...commit,
+              date: new Date(commit.date),
+            })),
+          },
+        };
+      } else {
+        throw new Error(response.data.error || 'Failed to get history');
+      }
+    });
+  }
+
+  // Outbox - chat messages that must reach the computer even if the app is
+  // closed before it reconnects
+  async queueMessage(
+    entry: Omit<OutboxEntry, 'createdAt' | 'attempts' | 'status'>,
+    error?: string
+  ): Promise<OutboxEntry> {
+    const queued = await Outbox.enqueue(entry, error);
+    this.flushOutbox();
+    return queued;
+  }
+
+  async retryQueuedMessage(id: string): Promise<void> {
+    await Outbox.update(id, {status: 'queued', error: undefined});
+    this.flushOutbox();
+  }
+
+  async discardQueuedMessage(id: string): Promise<void> {
+    await Outbox.remove(id);
+    // The discarded message may have been holding up the rest
+    this.flushOutbox();
+  }
+
+  onOutboxDelivered(callback: OutboxDeliveryCallback) {
+    this.outboxListeners.push(callback);
+    return () => {
+      const index = this.outboxListeners.indexOf(callback);
+      if (index > -1) {
+        this.outboxListeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Sends queued messages oldest first. A failure stops the queue so later
+  // messages never overtake it; it waits for the user to retry or discard.
+  async flushOutbox(): Promise<void> {
+    if (!this.isConnected || !Outbox.tryLock()) {
+      return;
+    }
+
+    try {
+      let entry = await Outbox.peek();
+      while (entry && entry.status !== 'failed' && this.isConnected) {
+        const current: OutboxEntry = entry;
+        await Outbox.update(current.id, {status: 'sending'});
+        try {
+          const result = current.kind === 'voice'
+            ? await this.sendVoiceMessage(current.text, current.language, current.context, current.id)
+            : await this.sendMessage(current.text, false, current.context, undefined, current.id);
+          await Outbox.remove(current.id);
+          console.log('ApiService.flushOutbox: Delivered', current.id);
+          this.outboxListeners.forEach(listener => listener(current, result.data!));
+        } catch (error: any) {
+          console.error('ApiService.flushOutbox: Delivery failed:', error);
+          await Outbox.update(current.id, {
+            status: 'failed',
+            attempts: current.attempts + 1,
+            error: error.response?.data?.error || error.message || 'Failed to send',
+          });
+          break;
+        }
+        entry = await Outbox.peek();
+      }
+    } finally {
+      Outbox.unlock();
+    }
+  }
+
   // Connection status and listeners
   getConnectionStatus(): boolean {
     return this.isConnected;
@@ -573,7 +1396,109 @@ class ApiService {
     this.connectionListeners.forEach(callback => callback(connected));
   }
 
-  // Polling for real-time updates (replaces WebSocket)
+  // Real-time updates over the WebSocket event channel. Polling is only
+  // used while the socket can't be established, which keeps being retried.
+  startRealtimeUpdates(pollingInterval: number = 5000) {
+    this.stopRealtimeUpdates();
+
+    // Headers can't be set on a WebSocket handshake, so auth goes in the query,
+    // after the signed part. Built per attempt so reconnects get a fresh signature.
+    const getSocketURL = () => {
+      const path = `/mobile/ws?sessionId=${encodeURIComponent(this.sessionId || '')}`;
+      const authHeaders = this.getAuthHeaders('GET', path);
+      const auth = Object.keys(authHeaders)
+        .map(key => `&${encodeURIComponent(key)}=${encodeURIComponent(authHeaders[key])}`)
+        .join('');
+      return `${this.config.baseURL.replace(/^http/, 'ws')}${path}${auth}`;
+    };
+
+    this.eventChannel = new EventChannel(
+      {url: getSocketURL},
+      {
+        onOpen: () => {
+          console.log('ApiService: Event channel open, polling stopped');
+          this.socketRetryDelay = SOCKET_RETRY_DELAY;
+          this.stopPolling();
+        },
+        onEvent: (type, data) => this.handleRealtimeEvent(type, data),
+        onGiveUp: () => {
+          if (!this.polling) {
+            console.log('ApiService: Event channel unavailable, falling back to polling');
+            this.startPolling(pollingInterval);
+          }
+          this.scheduleSocketRetry();
+        },
+      }
+    );
+    this.eventChannel.open();
+  }
+
+  // A network blip shouldn't leave the app polling for the rest of the session
+  private scheduleSocketRetry() {
+    if (this.socketRetryTimer) return;
+
+    const delay = this.socketRetryDelay;
+    this.socketRetryDelay = Math.min(delay * 2, MAX_SOCKET_RETRY_DELAY);
+    this.socketRetryTimer = setTimeout(() => {
+      this.socketRetryTimer = null;
+      // One attempt; if it fails the channel gives up again and the next retry is scheduled
+      this.eventChannel?.open();
+    }, delay);
+  }
+
+  stopRealtimeUpdates() {
+    if (this.socketRetryTimer) {
+      clearTimeout(this.socketRetryTimer);
+      this.socketRetryTimer = null;
+    }
+    this.socketRetryDelay = SOCKET_RETRY_DELAY;
+    if (this.eventChannel) {
+      this.eventChannel.close();
+      this.eventChannel = null;
+    }
+    this.stopPolling();
+  }
+
+  sendRealtimeEvent(type: string, data?: any): boolean {
+    return this.eventChannel?.send(type, data) || false;
+  }
+
+  private handleRealtimeEvent(type: string, data: any) {
+    switch (type) {
+      case 'session_update':
+        this.notifyPollingCallbacks(type, {
+          ...data,
+          lastActivity: new Date(data.lastActivity),
+        });
+        break;
+      case 'project_update':
+        this.notifyPollingCallbacks(type, data ? {
+          ...data,
+          lastModified: new Date(data.lastModified),
+          files: data.files?.map((file: any) => ({
+            ...file,
+            modified: new Date(file.modified),
+          })) || [],
+        } : data);
+        break;
+      case 'file_changed':
+        this.notifyPollingCallbacks(type, {
+          ...data,
+          modified: data.modified ? new Date(data.modified) : undefined,
+        });
+        break;
+      case 'chat_message':
+        this.notifyPollingCallbacks(type, {
+          ...data,
+          timestamp: new Date(data.timestamp),
+        });
+        break;
+      default:
+        console.log('ApiService: Ignoring unknown realtime event:', type);
+    }
+  }
+
+  // Polling fallback for bridges without the event channel
   startPolling(interval: number = 5000) {
     this.stopPolling();
     
@@ -605,17 +1530,24 @@ class ApiService {
     }
   }
 
-  onPollingUpdate(event: string, callback: (data: any) => void) {
-    this.pollingCallbacks.set(event, callback);
+  // Subscribes to realtime events, whether they arrive over the socket or from polling
+  onPollingUpdate<K extends RealtimeEventType>(
+    event: K,
+    callback: (data: RealtimeEventMap[K]) => void
+  ) {
+    if (!this.pollingCallbacks.has(event)) {
+      this.pollingCallbacks.set(event, new Set());
+    }
+    this.pollingCallbacks.get(event)!.add(callback);
     return () => {
-      this.pollingCallbacks.delete(event);
+      this.pollingCallbacks.get(event)?.delete(callback);
     };
   }
 
   private notifyPollingCallbacks(event: string, data: any) {
-    const callback = this.pollingCallbacks.get(event);
-    if (callback) {
-      callback(data);
+    const callbacks = this.pollingCallbacks.get(event);
+    if (callbacks) {
+      callbacks.forEach(callback => callback(data));
     }
   }
 
@@ -630,9 +1562,14 @@ class ApiService {
   }
 
   // Utility methods
-  private async makeRequest<T>(requestFn: () => Promise<T>): Promise<T> {
+  // Requests that mustn't be repeated pass a single attempt
+  private async makeRequest<T>(
+    requestFn: () => Promise<T>,
+    attempts: number = this.config.retryAttempts || 3
+  ): Promise<T> {
     if (!this.isConnected) {
-      // Queue request for retry when reconnected
+      // Queue request for retry when reconnected. This queue only lives as
+      // long as the app does - chat messages go through the Outbox instead.
       return new Promise((resolve, reject) => {
         this.retryQueue.push(async () => {
           try {
@@ -646,7 +1583,7 @@ class ApiService {
     }
 
     try {
-      return await this.retryRequest(requestFn, this.config.retryAttempts || 3);
+      return await this.retryRequest(requestFn, attempts);
     } catch (error) {
       console.error('Request failed:', error);
       throw error;
@@ -660,7 +1597,11 @@ class ApiService {
     try {
       return await requestFn();
     } catch (error) {
-      if (attempts > 1) {
+      // Only requests that never got an answer are worth repeating. A
+      // cancelled one stays cancelled, and a failure the computer reported
+      // would only be reported again.
+      const unanswered = axios.isAxiosError(error) && !error.response && !axios.isCancel(error);
+      if (attempts > 1 && unanswered) {
         await this.delay(this.config.retryDelay || 1000);
         return this.retryRequest(requestFn, attempts - 1);
       }
@@ -704,6 +1645,9 @@ class ApiService {
   updateBaseURL(baseURL: string) {
     this.config.baseURL = baseURL;
     this.client.defaults.baseURL = baseURL;
+    // Pairing keys are per computer
+    this.deviceKey = null;
+    this.credentialsReady = this.loadCredentials();
   }
 
   // Get debug information
@@ -713,8 +1657,11 @@ class ApiService {
       sessionId: this.sessionId,
       isConnected: this.isConnected,
       baseURL: this.config.baseURL,
+      isPaired: this.isPaired(),
+      certificateFingerprint: this.certificateFingerprint,
       retryQueueLength: this.retryQueue.length,
       pollingActive: this.polling !== null,
+      realtimeChannelOpen: this.eventChannel?.getIsOpen() || false,
     };
   }
 }
@@ -0,0 +1,176 @@
+import AudioRecorderPlayer, {
+  AudioEncoderAndroidType,
+  AudioSet,
+  AudioSourceAndroidType,
+  AVEncoderAudioQualityIOSType,
+  AVEncodingOption,
+  OutputFormatAndroidType,
+} from 'react-native-audio-recorder-player';
+import Sound from 'react-native-sound';
+import RNFS from 'react-native-fs';
+import {Platform} from 'react-native';
+import {v4 as uuidv4} from 'uuid';
+import {VoiceRecording} from '../types';
+
+// Clips live with the app's documents so they survive restarts
+const CLIPS_DIRECTORY = `${RNFS.DocumentDirectoryPath}/voice-clips`;
+// Anything shorter is an accidental tap
+const MIN_CLIP_MS = 300;
+
+// Small AAC files are plenty for speech and quick to upload
+const AUDIO_SET: AudioSet = {
+  AudioSourceAndroid: AudioSourceAndroidType.VOICE_RECOGNITION,
+  OutputFormatAndroid: OutputFormatAndroidType.MPEG_4,
+  AudioEncoderAndroid: AudioEncoderAndroidType.AAC,
+  AudioSamplingRateAndroid: 16000,
+  AudioChannelsAndroid: 1,
+  AVFormatIDKeyIOS: AVEncodingOption.aac,
+  AVSampleRateKeyIOS: 16000,
+  AVNumberOfChannelsKeyIOS: 1,
+  AVEncoderAudioQualityKeyIOS: AVEncoderAudioQualityIOSType.medium,
+};
+
+export const toFilePath = (uri: string) => decodeURIComponent(uri.replace(/^file:\/\//, ''));
+
+class AudioClipService {
+  private recorder = new AudioRecorderPlayer();
+  private recordingPath: string | null = null;
+  private recordedMs = 0;
+
+  private sound: Sound | null = null;
+  private playingUri: string | null = null;
+  private playbackListeners = new Set<(uri: string | null) => void>();
+
+  async startRecording(): Promise<boolean> {
+    if (this.recordingPath) {
+      console.warn('Already recording');
+      return false;
+    }
+
+    try {
+      await RNFS.mkdir(CLIPS_DIRECTORY);
+      const path = `${CLIPS_DIRECTORY}/${uuidv4()}.m4a`;
+      this.recordedMs = 0;
+      this.recorder.addRecordBackListener(event => {
+        this.recordedMs = event.currentPosition;
+      });
+      await this.recorder.startRecorder(
+        Platform.OS === 'android' ? path : `file://${path}`,
+        AUDIO_SET
+      );
+      this.recordingPath = path;
+      return true;
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      this.recorder.removeRecordBackListener();
+      return false;
+    }
+  }
+
+  // Null if nothing usable was recorded
+  async stopRecording(): Promise<VoiceRecording | null> {
+    const path = this.recordingPath;
+    if (!path) return null;
+
+    this.recordingPath = null;
+    try {
+      await this.recorder.stopRecorder();
+    } catch (error) {
+      console.error('Failed to stop recording:', error);
+    }
+    this.recorder.removeRecordBackListener();
+
+    if (this.recordedMs < MIN_CLIP_MS || !(await RNFS.exists(path))) {
+      await this.deleteClip(`file://${path}`);
+      return null;
+    }
+    return {uri: `file://${path}`, duration: this.recordedMs, timestamp: new Date()};
+  }
+
+  async cancelRecording(): Promise<void> {
+    const clip = await this.stopRecording();
+    if (clip) {
+      await this.deleteClip(clip.uri);
+    }
+  }
+
+  getIsRecording(): boolean {
+    return this.recordingPath !== null;
+  }
+
+  // Plays a clip, stopping whatever was playing before
+  async play(uri: string): Promise<void> {
+    this.stopPlayback();
+
+    const sound = await new Promise<Sound>((resolve, reject) => {
+      const loaded: Sound = new Sound(toFilePath(uri), '', error =>
+        error ? reject(new Error(error.message || 'Could not load the recording')) : resolve(loaded)
+      );
+    });
+
+    this.sound = sound;
+    this.setPlayingUri(uri);
+    sound.play(() => {
+      if (this.sound === sound) {
+        this.sound = null;
+        this.setPlayingUri(null);
+      }
+      sound.release();
+    });
+  }
+
+  stopPlayback(): void {
+    const sound = this.sound;
+    if (!sound) return;
+
+    this.sound = null;
+    sound.stop(() => sound.release());
+    this.setPlayingUri(null);
+  }
+
+  getPlayingUri(): string | null {
+    return this.playingUri;
+  }
+
+  // Returns an unsubscribe function
+  onPlaybackChange(listener: (uri: string | null) => void): () => void {
+    this.playbackListeners.add(listener);
+    return () => {
+      this.playbackListeners.delete(listener);
+    };
+  }
+
+  async deleteClip(uri: string): Promise<void> {
+    try {
+      const path = toFilePath(uri);
+      // Only ever delete recordings this service made
+      if (!path.startsWith(`${CLIPS_DIRECTORY}/`) || path.split('/').includes('..')) {
+        console.warn('Refusing to delete a file outside the voice clips folder:', path);
+        return;
+      }
+      if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+      }
+    } catch (error) {
+      console.error('Failed to delete voice clip:', error);
+    }
+  }
+
+  async deleteAllClips(): Promise<void> {
+    this.stopPlayback();
+    try {
+      if (await RNFS.exists(CLIPS_DIRECTORY)) {
+        await RNFS.unlink(CLIPS_DIRECTORY);
+      }
+    } catch (error) {
+      console.error('Failed to delete voice clips:', error);
+    }
+  }
+
+  private setPlayingUri(uri: string | null) {
+    this.playingUri = uri;
+    this.playbackListeners.forEach(listener => listener(uri));
+  }
+}
+
+export default new AudioClipService();
@@ -0,0 +1,70 @@
+import {NativeModules} from 'react-native';
+
+const {CertificatePinning} = NativeModules;
+
+// Formats a hex fingerprint the way it appears in the computer app, e.g. "AB:CD:..."
+export const formatFingerprint = (fingerprint: string): string =>
+  (fingerprint.toUpperCase().match(/.{1,2}/g) || []).join(':');
+
+// Trust-on-first-use pinning for HTTPS bridges. The native side trusts a
+// pinned bridge by fingerprint, which is what lets self-signed certificates work.
+class CertificatePinningService {
+  isSupported(): boolean {
+    return !!CertificatePinning;
+  }
+
+  async getServerFingerprint(host: string, port: number, timeout: number = 5000): Promise<string> {
+    return CertificatePinning.getServerFingerprint(host, port, timeout);
+  }
+
+  async getPinnedFingerprint(host: string, port: number): Promise<string | null> {
+    if (!this.isSupported()) {
+      return null;
+    }
+    return CertificatePinning.getPinnedFingerprint(host, port);
+  }
+
+  async pin(host: string, port: number, fingerprint: string): Promise<void> {
+    await CertificatePinning.pin(host, port, fingerprint);
+  }
+
+  async forget(host: string, port: number): Promise<void> {
+    if (this.isSupported()) {
+      await CertificatePinning.forget(host, port);
+    }
+  }
+
+  // Returns the bridge's fingerprint and throws if it no longer matches the
+  // pinned one. Only pairing pins a bridge seen for the first time; other
+  // connections to an unpinned bridge get the system's checks alone.
+  async verify(
+    host: string,
+    port: number,
+    timeout?: number,
+    pinIfNew: boolean = false
+  ): Promise<string | null> {
+    const pinned = await this.getPinnedFingerprint(host, port);
+    if (!pinned && !pinIfNew) {
+      return null;
+    }
+
+    const presented = (await this.getServerFingerprint(host, port, timeout)).toLowerCase();
+    if (!pinned) {
+      console.log(`CertificatePinning: Trusting ${host}:${port} on first use (${formatFingerprint(presented)})`);
+      await this.pin(host, port, presented);
+      return presented;
+    }
+
+    if (pinned.toLowerCase() !== presented) {
+      throw new Error(
+        `The security certificate for ${host}:${port} has changed since you first connected. ` +
+          'This can mean someone is intercepting the connection. If you regenerated the ' +
+          'certificate on your computer, forget it in Settings and pair again.'
+      );
+    }
+
+    return presented;
+  }
+}
+
+export default new CertificatePinningService();
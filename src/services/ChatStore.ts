@@ -0,0 +1,240 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {ChatSession, Message} from '../types';
+
+// Bump when the stored shape changes and add a migration to match
+export const SCHEMA_VERSION = 1;
+export const PAGE_SIZE = 50;
+
+const SAVE_DELAY_MS = 500;
+const PREVIEW_LENGTH = 120;
+
+const keys = {
+  schema: 'chat:schemaVersion',
+  sessions: 'chat:sessions',
+  session: (id: string) => `chat:session:${id}`,
+  page: (id: string, page: number) => `chat:messages:${id}:${page}`,
+  legacy: 'chatSessions',
+};
+
+// Session record without its messages, which are stored in pages of PAGE_SIZE
+type StoredSession = Omit<ChatSession, 'messages' | 'messageOffset'> & {messageCount: number};
+
+const reviveSession = (stored: any): ChatSession => {
+  const {messageCount, ...session} = stored;
+  return {
+    ...session,
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+    lastSyncedAt: session.lastSyncedAt ? new Date(session.lastSyncedAt) : undefined,
+    appliedEdits: session.appliedEdits?.map((edit: any) => ({
+      ...edit,
+      appliedAt: new Date(edit.appliedAt),
+      revertedAt: edit.revertedAt ? new Date(edit.revertedAt) : undefined,
+    })),
+    messages: [],
+    messageOffset: messageCount,
+  };
+};
+
+const reviveMessage = (message: any): Message => ({
+  ...message,
+  timestamp: new Date(message.timestamp),
+  ...(message.audio && {audio: {...message.audio, timestamp: new Date(message.audio.timestamp)}}),
+  // A stream interrupted by the app being killed is never resumed
+  isStreaming: false,
+});
+
+const pagesFor = (count: number) => Math.ceil(count / PAGE_SIZE);
+
+// Each step upgrades storage from the previous version
+const MIGRATIONS: Record<number, (store: ChatStore) => Promise<void>> = {
+  // Everything used to live in one JSON blob rewritten on every change
+  1: async store => {
+    const legacy = await AsyncStorage.getItem(keys.legacy);
+    if (!legacy) {
+      return;
+    }
+    const sessions: ChatSession[] = JSON.parse(legacy).map((session: any) => ({
+      ...reviveSession({...session, messageCount: 0}),
+      messages: session.messages.map(reviveMessage),
+      messageOffset: 0,
+    }));
+    await store.write(sessions);
+    await AsyncStorage.removeItem(keys.legacy);
+  },
+};
+
+// Chat history on disk. Sessions and message pages are separate records,
+// so a change only rewrites the records it touches, and messages are read
+// a page at a time when a session is opened.
+export class ChatStore {
+  private ready: Promise<void> | null = null;
+  // Last value written (or read) per key, to skip unchanged records
+  private written = new Map<string, string>();
+  private sessionIds: string[] = [];
+  private pending: ChatSession[] | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.migrate();
+    }
+    return this.ready;
+  }
+
+  private async migrate() {
+    const saved = await AsyncStorage.getItem(keys.schema);
+    let version = saved ? parseInt(saved, 10) : 0;
+    const ids = await AsyncStorage.getItem(keys.sessions);
+    this.sessionIds = ids ? JSON.parse(ids) : [];
+
+    while (version < SCHEMA_VERSION) {
+      version += 1;
+      console.log(`ChatStore: Migrating chat storage to version ${version}`);
+      await MIGRATIONS[version](this);
+      await AsyncStorage.setItem(keys.schema, String(version));
+    }
+  }
+
+  private async read(key: string): Promise<string | null> {
+    if (this.written.has(key)) {
+      return this.written.get(key)!;
+    }
+    const value = await AsyncStorage.getItem(key);
+    if (value !== null) {
+      this.written.set(key, value);
+    }
+    return value;
+  }
+
+  private async readPage(sessionId: string, page: number): Promise<Message[]> {
+    const value = await this.read(keys.page(sessionId, page));
+    return value ? JSON.parse(value).map(reviveMessage) : [];
+  }
+
+  // Session records only; every session starts with no messages loaded
+  async loadSessions(): Promise<ChatSession[]> {
+    await this.init();
+    if (this.sessionIds.length === 0) {
+      return [];
+    }
+
+    const entries = await AsyncStorage.multiGet(this.sessionIds.map(keys.session));
+    return entries
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => {
+        this.written.set(key, value!);
+        return reviveSession(JSON.parse(value!));
+      });
+  }
+
+  // Messages [start, end) of a session, in order
+  async loadMessages(sessionId: string, start: number, end: number): Promise<Message[]> {
+    await this.init();
+    const messages: Message[] = [];
+    for (let page = Math.floor(start / PAGE_SIZE); page * PAGE_SIZE < end; page++) {
+      const pageMessages = await this.readPage(sessionId, page);
+      if (pageMessages.length === 0) {
+        break;
+      }
+      messages.push(...pageMessages);
+    }
+    const first = Math.floor(start / PAGE_SIZE) * PAGE_SIZE;
+    return messages.slice(start - first, end - first);
+  }
+
+  // Coalesces rapid changes (like a streaming reply) into one write
+  save(sessions: ChatSession[]) {
+    this.pending = sessions;
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const sessions = this.pending;
+    this.pending = null;
+    if (sessions) {
+      await this.init();
+      this.writing = this.writing.then(() => this.write(sessions)).catch(error => {
+        console.error('ChatStore: Failed to save chat sessions:', error);
+      });
+    }
+    return this.writing;
+  }
+
+  // Writes the records that changed and drops sessions no longer present
+  async write(sessions: ChatSession[]) {
+    const sets: Array<[string, string]> = [];
+    const removals: string[] = [];
+
+    for (const session of sessions) {
+      const {messages, messageOffset = 0, ...rest} = session;
+      const sessionKey = keys.session(session.id);
+      const previous = await this.read(sessionKey);
+      const previousCount: number = previous ? JSON.parse(previous).messageCount : 0;
+      const messageCount = messageOffset + messages.length;
+
+      const last = messages[messages.length - 1];
+      const record: StoredSession = {
+        ...rest,
+        preview: last ? last.content.substring(0, PREVIEW_LENGTH) : rest.preview,
+        messageCount,
+      };
+      sets.push([sessionKey, JSON.stringify(record)]);
+
+      // Nothing loaded, so nothing on disk can have changed
+      if (messages.length === 0 && messageCount === previousCount) {
+        continue;
+      }
+
+      // Pages from the first loaded message on; an unaligned start keeps
+      // the stored messages before it
+      const firstPage = Math.floor(messageOffset / PAGE_SIZE);
+      const kept =
+        messageOffset % PAGE_SIZE === 0
+          ? []
+          : (await this.readPage(session.id, firstPage)).slice(0, messageOffset % PAGE_SIZE);
+      const tail = [...kept, ...messages];
+      for (let page = firstPage; page < pagesFor(messageCount); page++) {
+        const start = (page - firstPage) * PAGE_SIZE;
+        const pageMessages = tail
+          .slice(start, start + PAGE_SIZE)
+          .map(({isLoading, isStreaming, ...message}) => message);
+        sets.push([keys.page(session.id, page), JSON.stringify(pageMessages)]);
+      }
+      for (let page = pagesFor(messageCount); page < pagesFor(previousCount); page++) {
+        removals.push(keys.page(session.id, page));
+      }
+    }
+
+    const ids = sessions.map(session => session.id);
+    for (const id of this.sessionIds.filter(id => !ids.includes(id))) {
+      const previous = await this.read(keys.session(id));
+      const count: number = previous ? JSON.parse(previous).messageCount : 0;
+      removals.push(keys.session(id));
+      for (let page = 0; page < pagesFor(count); page++) {
+        removals.push(keys.page(id, page));
+      }
+    }
+    sets.push([keys.sessions, JSON.stringify(ids)]);
+    this.sessionIds = ids;
+
+    const changed = sets.filter(([key, value]) => this.written.get(key) !== value);
+    if (changed.length > 0) {
+      await AsyncStorage.multiSet(changed);
+      changed.forEach(([key, value]) => this.written.set(key, value));
+    }
+    if (removals.length > 0) {
+      await AsyncStorage.multiRemove(removals);
+      removals.forEach(key => this.written.delete(key));
+    }
+  }
+}
+
+export default new ChatStore();
@@ -0,0 +1,151 @@
+import axios from 'axios';
+
+export interface DiscoveredBridge {
+  host: string;
+  port: number;
+  name: string;
+  latency: number;
+  version?: string;
+}
+
+export interface DiscoveryOptions {
+  ports?: number[];
+  protocol?: 'http' | 'https';
+  timeout?: number;
+  concurrency?: number;
+  maxHosts?: number;
+}
+
+const DEFAULT_BRIDGE_PORT = 47893;
+
+const ipToNumber = (ip: string): number =>
+  ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+
+const numberToIp = (value: number): string =>
+  [24, 16, 8, 0].map(shift => (value >>> shift) & 255).join('.');
+
+const isValidIPv4 = (ip: string): boolean => {
+  const parts = ip.split('.');
+  return (
+    parts.length === 4 &&
+    parts.every(part => /^\d{1,3}$/.test(part) && parseInt(part, 10) <= 255)
+  );
+};
+
+// Lists every host address on the device's subnet, excluding the device itself,
+// the network and the broadcast address. Subnets larger than maxHosts are
+// narrowed to the /24 around the device so a scan stays quick.
+export const getSubnetHosts = (
+  ipAddress: string,
+  subnetMask: string = '255.255.255.0',
+  maxHosts: number = 254
+): string[] => {
+  if (!isValidIPv4(ipAddress)) {
+    return [];
+  }
+
+  let mask = isValidIPv4(subnetMask) ? ipToNumber(subnetMask) : ipToNumber('255.255.255.0');
+  if (~mask >>> 0 > maxHosts + 1) {
+    mask = ipToNumber('255.255.255.0');
+  }
+
+  const ip = ipToNumber(ipAddress);
+  const network = (ip & mask) >>> 0;
+  const broadcast = (network | (~mask >>> 0)) >>> 0;
+
+  const hosts: string[] = [];
+  for (let address = network + 1; address < broadcast; address++) {
+    if (address !== ip) {
+      hosts.push(numberToIp(address));
+    }
+  }
+  return hosts;
+};
+
+// Finds Stratosphere desktop bridges by probing /mobile/health on each host
+class DiscoveryService {
+  private options: Required<DiscoveryOptions>;
+  private isCancelled = false;
+
+  constructor(options: DiscoveryOptions = {}) {
+    this.options = {
+      ports: [DEFAULT_BRIDGE_PORT],
+      protocol: 'http',
+      timeout: 1500,
+      concurrency: 24,
+      maxHosts: 254,
+      ...options,
+    };
+  }
+
+  async probe(host: string, port: number): Promise<DiscoveredBridge | null> {
+    const startedAt = Date.now();
+    try {
+      const response = await axios.get(
+        `${this.options.protocol}://${host}:${port}/mobile/health`,
+        {timeout: this.options.timeout}
+      );
+
+      if (response.data?.status !== 'OK') {
+        return null;
+      }
+
+      return {
+        host,
+        port,
+        name: response.data.name || response.data.hostname || host,
+        latency: Date.now() - startedAt,
+        version: response.data.version,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async scan(
+    hosts: string[],
+    onFound?: (bridge: DiscoveredBridge) => void
+  ): Promise<DiscoveredBridge[]> {
+    this.isCancelled = false;
+
+    const targets: Array<{host: string; port: number}> = [];
+    hosts.forEach(host => {
+      this.options.ports.forEach(port => targets.push({host, port}));
+    });
+
+    const found: DiscoveredBridge[] = [];
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (!this.isCancelled && nextIndex < targets.length) {
+        const {host, port} = targets[nextIndex++];
+        const bridge = await this.probe(host, port);
+        if (bridge && !this.isCancelled) {
+          found.push(bridge);
+          onFound?.(bridge);
+        }
+      }
+    };
+
+    const workerCount = Math.min(this.options.concurrency, targets.length);
+    await Promise.all(Array.from({length: workerCount}, worker));
+
+    return found.sort((a, b) => a.latency - b.latency);
+  }
+
+  async discover(
+    ipAddress: string,
+    subnetMask?: string,
+    onFound?: (bridge: DiscoveredBridge) => void
+  ): Promise<DiscoveredBridge[]> {
+    const hosts = getSubnetHosts(ipAddress, subnetMask, this.options.maxHosts);
+    console.log(`DiscoveryService: Probing ${hosts.length} hosts on ports ${this.options.ports.join(', ')}`);
+    return this.scan(hosts, onFound);
+  }
+
+  cancel() {
+    this.isCancelled = true;
+  }
+}
+
+export default DiscoveryService;
@@ -0,0 +1,19 @@
+import {NativeModules} from 'react-native';
+
+const {Downloads} = NativeModules;
+
+// Saves exports to the shared Downloads folder on Android, where the user and
+// other apps can find them. Only the Android app has the native side.
+class DownloadsService {
+  isSupported(): boolean {
+    return !!Downloads;
+  }
+
+  // Resolves with the name the file was saved under, which differs from
+  // fileName if a file by that name was already there
+  async saveText(fileName: string, mimeType: string, content: string): Promise<string> {
+    return Downloads.saveText(fileName, mimeType, content);
+  }
+}
+
+export default new DownloadsService();
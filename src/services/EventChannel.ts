@@ -0,0 +1,215 @@
+import {w3cwebsocket as W3CWebSocket} from 'websocket';
+
+export interface EventChannelOptions {
+  // A function is re-evaluated on every reconnect, e.g. to refresh auth params
+  url: string | (() => string);
+  heartbeatInterval?: number;
+  connectTimeout?: number;
+  reconnectDelay?: number;
+  maxReconnectAttempts?: number;
+}
+
+export interface EventChannelHandlers {
+  onEvent: (type: string, data: any) => void;
+  onOpen?: () => void;
+  onClose?: () => void;
+  // Called when the socket could not be established or reconnects were exhausted
+  onGiveUp?: () => void;
+}
+
+// Persistent bidirectional channel to the bridge. Messages are JSON
+// envelopes of the form {type, data}; 'ping'/'pong' are used as heartbeats.
+class EventChannel {
+  private socket: any = null;
+  private options: Required<EventChannelOptions>;
+  private handlers: EventChannelHandlers;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private lastMessageAt = 0;
+  private isOpen = false;
+  private isClosing = false;
+
+  constructor(options: EventChannelOptions, handlers: EventChannelHandlers) {
+    this.options = {
+      heartbeatInterval: 15000,
+      connectTimeout: 5000,
+      reconnectDelay: 1000,
+      maxReconnectAttempts: 5,
+      ...options,
+    };
+    this.handlers = handlers;
+  }
+
+  open() {
+    this.isClosing = false;
+    this.clearTimers();
+
+    const url = typeof this.options.url === 'function' ? this.options.url() : this.options.url;
+
+    let socket: any;
+    try {
+      socket = new W3CWebSocket(url);
+    } catch (error) {
+      console.error('EventChannel: Failed to create socket:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    this.connectTimer = setTimeout(() => {
+      if (!this.isOpen) {
+        console.log('EventChannel: Connection timed out');
+        this.dropSocket();
+        this.scheduleReconnect();
+      }
+    }, this.options.connectTimeout);
+
+    socket.onopen = () => {
+      console.log('EventChannel: Connected to', url.split('?')[0]);
+      this.isOpen = true;
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      if (this.connectTimer) {
+        clearTimeout(this.connectTimer);
+        this.connectTimer = null;
+      }
+      this.startHeartbeat();
+      this.handlers.onOpen?.();
+    };
+
+    socket.onmessage = (event: {data: any}) => {
+      this.lastMessageAt = Date.now();
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === 'pong' || message.type === 'ping') {
+          if (message.type === 'ping') {
+            this.send('pong', {timestamp: Date.now()});
+          }
+          return;
+        }
+        this.handlers.onEvent(message.type, message.data);
+      } catch (error) {
+        console.error('EventChannel: Invalid message:', error);
+      }
+    };
+
+    socket.onerror = (error: any) => {
+      console.log('EventChannel: Socket error:', error?.message || error);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handleSocketLost();
+    };
+  }
+
+  close() {
+    this.isClosing = true;
+    this.clearTimers();
+    this.dropSocket();
+    this.isOpen = false;
+    this.reconnectAttempts = 0;
+  }
+
+  send(type: string, data?: any): boolean {
+    if (!this.isOpen || !this.socket) {
+      return false;
+    }
+
+    try {
+      this.socket.send(JSON.stringify({type, data}));
+      return true;
+    } catch (error) {
+      console.error('EventChannel: Failed to send message:', error);
+      return false;
+    }
+  }
+
+  getIsOpen(): boolean {
+    return this.isOpen;
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      // No traffic for two intervals means the peer is gone even if the socket isn't closed yet
+      if (Date.now() - this.lastMessageAt > this.options.heartbeatInterval * 2) {
+        console.log('EventChannel: Heartbeat missed, reconnecting');
+        this.dropSocket();
+        this.handleSocketLost();
+        return;
+      }
+      this.send('ping', {timestamp: Date.now()});
+    }, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private handleSocketLost() {
+    const wasOpen = this.isOpen;
+    this.isOpen = false;
+    this.stopHeartbeat();
+
+    if (wasOpen) {
+      this.handlers.onClose?.();
+    }
+    if (!this.isClosing) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.isClosing || this.reconnectTimer) return;
+
+    if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
+      console.log('EventChannel: Giving up after', this.reconnectAttempts, 'attempts');
+      this.handlers.onGiveUp?.();
+      return;
+    }
+
+    const delay = this.options.reconnectDelay * Math.pow(2, this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private dropSocket() {
+    if (!this.socket) return;
+
+    // Detach first so the old socket's late events can't affect a newer one
+    const socket = this.socket;
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    try {
+      socket.close();
+    } catch (error) {
+      // Already closed
+    }
+  }
+
+  private clearTimers() {
+    this.stopHeartbeat();
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
+
+export default EventChannel;
@@ -0,0 +1,130 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+export interface OutboxEntry {
+  // Also sent as the client message id, so the computer can ignore a send
+  // that is repeated after the app was killed mid-request
+  id: string;
+  kind: 'chat' | 'voice';
+  text: string;
+  language?: string;
+  context?: any;
+  // Where the reply belongs and which bubble is waiting on it
+  sessionId: string;
+  messageId: string;
+  createdAt: Date;
+  attempts: number;
+  status: OutboxStatus;
+  error?: string;
+}
+
+const STORAGE_KEY = 'chat_outbox';
+
+// Chat messages written while disconnected, persisted so they survive the
+// app being killed. Shared by every ApiService instance.
+class Outbox {
+  private entries: OutboxEntry[] = [];
+  private ready: Promise<void>;
+  private listeners: Array<(entries: OutboxEntry[]) => void> = [];
+  private flushing = false;
+
+  constructor() {
+    this.ready = this.load();
+  }
+
+  private async load() {
+    try {
+      const saved = await AsyncStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        this.entries = JSON.parse(saved).map((entry: any) => ({
+          ...entry,
+          createdAt: new Date(entry.createdAt),
+          // A send cut short by the app closing is tried again
+          status: entry.status === 'sending' ? 'queued' : entry.status,
+        }));
+        this.notify();
+      }
+    } catch (error) {
+      console.error('Outbox: Failed to load queued messages:', error);
+    }
+  }
+
+  private async save() {
+    this.notify();
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Outbox: Failed to save queued messages:', error);
+    }
+  }
+
+  private notify() {
+    const entries = [...this.entries];
+    this.listeners.forEach(listener => listener(entries));
+  }
+
+  async getEntries(): Promise<OutboxEntry[]> {
+    await this.ready;
+    return [...this.entries];
+  }
+
+  // Oldest entry, which must be delivered before any other
+  async peek(): Promise<OutboxEntry | null> {
+    await this.ready;
+    return this.entries[0] || null;
+  }
+
+  // An entry with an error is a send that already failed; it waits for the
+  // user to retry or discard it like any other failure
+  async enqueue(
+    entry: Omit<OutboxEntry, 'createdAt' | 'attempts' | 'status'>,
+    error?: string
+  ): Promise<OutboxEntry> {
+    await this.ready;
+    const queued: OutboxEntry = error
+      ? {...entry, createdAt: new Date(), attempts: 1, status: 'failed', error}
+      : {...entry, createdAt: new Date(), attempts: 0, status: 'queued'};
+    this.entries.push(queued);
+    await this.save();
+    return queued;
+  }
+
+  async update(id: string, updates: Partial<OutboxEntry>) {
+    await this.ready;
+    this.entries = this.entries.map(entry => (entry.id === id ? {...entry, ...updates, id} : entry));
+    await this.save();
+  }
+
+  async remove(id: string) {
+    await this.ready;
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    await this.save();
+  }
+
+  subscribe(listener: (entries: OutboxEntry[]) => void) {
+    this.listeners.push(listener);
+    this.getEntries().then(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Only one sender drains the queue at a time
+  tryLock(): boolean {
+    if (this.flushing) {
+      return false;
+    }
+    this.flushing = true;
+    return true;
+  }
+
+  unlock() {
+    this.flushing = false;
+  }
+}
+
+export default new Outbox();
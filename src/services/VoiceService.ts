@@ -2,6 +2,9 @@ import Voice from '@react-native-voice/voice';
 import Tts from 'react-native-tts';
 import {PERMISSIONS, request, RESULTS} from 'react-native-permissions';
 import {Platform} from 'react-native';
+import {parseVoiceCommand, stripWakePhrase, VoiceIntent} from '../utils/voiceIntents';
+import {toSpeechChunks} from '../utils/speech';
+import {buildVocabulary, normalizeTranscript, Vocabulary} from '../utils/transcript';
 
 export interface VoiceServiceConfig {
   language: string;
@@ -22,7 +25,28 @@ export interface TTSConfig {
   quality?: 'low' | 'normal' | 'high' | 'enhanced';
 }
 
-class VoiceService {
+export type SpeechState = 'idle' | 'speaking' | 'paused';
+
+export type ConversationState = 'off' | 'waitingForWakePhrase' | 'listening' | 'processing' | 'speaking';
+
+export interface ConversationOptions {
+  // When set, each request must start with this phrase
+  wakePhrase?: string;
+  // Handles a finished utterance; anything it queues to be spoken is
+  // read out before listening resumes
+  onUtterance: (text: string) => Promise<void>;
+  onTranscript?: (text: string) => void;
+  onError?: (error: string) => void;
+}
+
+// Recognisers on iOS keep listening through silence, so a pause this long
+// ends the utterance
+export const END_OF_UTTERANCE_MS = 1500;
+// Android reports its final result shortly after the end of speech
+const FINAL_RESULT_GRACE_MS = 500;
+const RESTART_DELAY_MS = 300;
+
+export class VoiceService {
   private isListening = false;
   private isInitialized = false;
   private currentConfig: VoiceServiceConfig = {
@@ -38,6 +62,28 @@ class VoiceService {
     quality: 'normal',
   };
 
+  // Sentences still to be read; the first one is playing (or paused)
+  private speechQueue: string[] = [];
+  private speechState: SpeechState = 'idle';
+  private currentUtteranceId: string | number | null = null;
+  // Bumped per utterance so late results from a skipped one are ignored
+  private utteranceCount = 0;
+  // Very short utterances can finish before Tts.speak resolves with their id
+  private finishedBeforeStart: string | number | null = null;
+  private lastSpokenChunks: string[] = [];
+  private vocabulary: Vocabulary = buildVocabulary();
+  private speechListeners = new Set<(state: SpeechState) => void>();
+  private ttsListenersAdded = false;
+
+  private conversation: ConversationOptions | null = null;
+  private conversationState: ConversationState = 'off';
+  private conversationListeners = new Set<(state: ConversationState) => void>();
+  // What has been heard since listening last (re)started
+  private heardText = '';
+  private utteranceFinished = false;
+  private utteranceTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextStepTimer: ReturnType<typeof setTimeout> | null = null;
+
   private onResultCallback?: (result: VoiceResult) => void;
   private onErrorCallback?: (error: string) => void;
   private onStartCallback?: () => void;
@@ -48,6 +94,8 @@ class VoiceService {
       if (config) {
         this.currentConfig = {...this.currentConfig, ...config};
       }
+      // Replies are read in the language they were dictated in
+      this.ttsConfig.language = this.currentConfig.language;
 
       // Initialize Voice recognition
       Voice.onSpeechStart = this.onSpeechStart;
@@ -59,13 +107,14 @@ class VoiceService {
       Voice.onSpeechVolumeChanged = this.onSpeechVolumeChanged;
 
       // Initialize TTS
-      Tts.setDefaultLanguage(this.ttsConfig.language);
       Tts.setDefaultRate(this.ttsConfig.rate);
       Tts.setDefaultPitch(this.ttsConfig.pitch);
+      await this.applyTtsLanguage();
 
-      // Set TTS quality if supported
-      if (Platform.OS === 'ios') {
-        Tts.setDefaultVoice('com.apple.ttsbundle.Samantha-compact');
+      if (!this.ttsListenersAdded) {
+        Tts.addEventListener('tts-finish', this.onUtteranceDone);
+        Tts.addEventListener('tts-error', this.onUtteranceDone);
+        this.ttsListenersAdded = true;
       }
 
       this.isInitialized = true;
@@ -110,6 +159,9 @@ class VoiceService {
     this.onStartCallback = onStart;
     this.onEndCallback = onEnd;
 
+    // Barge-in: the user talking over a reply wants to be heard, not read to
+    await this.stopSpeaking();
+
     try {
       await Voice.start(this.currentConfig.language);
       this.isListening = true;
@@ -145,43 +197,397 @@ class VoiceService {
     }
   }
 
-  async speak(text: string, config?: Partial<TTSConfig>): Promise<void> {
+  // Switches both recognition and TTS; takes effect from the next utterance
+  async setLanguage(language: string): Promise<void> {
+    if (language === this.currentConfig.language && language === this.ttsConfig.language) return;
+
+    this.currentConfig = {...this.currentConfig, language};
+    this.ttsConfig = {...this.ttsConfig, language};
+    if (this.isInitialized) {
+      await this.applyTtsLanguage();
+    }
+  }
+
+  getLanguage(): string {
+    return this.currentConfig.language;
+  }
+
+  // Names from the open project that dictation should spell exactly
+  setVocabulary(fileNames: string[]): void {
+    this.vocabulary = buildVocabulary(fileNames);
+  }
+
+  // Spoken symbols and identifiers only make sense in English dictation
+  private toTranscript(text: string): string {
+    return this.currentConfig.language.startsWith('en')
+      ? normalizeTranscript(text, this.vocabulary)
+      : text;
+  }
+
+  private async applyTtsLanguage(): Promise<void> {
+    const {language} = this.ttsConfig;
     try {
-      if (config) {
-        const tempConfig = {...this.ttsConfig, ...config};
-        Tts.setDefaultLanguage(tempConfig.language);
-        Tts.setDefaultRate(tempConfig.rate);
-        Tts.setDefaultPitch(tempConfig.pitch);
+      await Tts.setDefaultLanguage(language);
+
+      // Set TTS quality if supported
+      if (Platform.OS === 'ios' && language === 'en-US') {
+        await Tts.setDefaultVoice('com.apple.ttsbundle.Samantha-compact');
+        return;
       }
 
-      await Tts.speak(text);
+      // Otherwise the best installed voice for the language, if any
+      const normalize = (code: string) => code.replace('_', '-').toLowerCase();
+      const voice = (await Tts.voices())
+        .filter(candidate => !candidate.notInstalled && normalize(candidate.language) === normalize(language))
+        .sort((a, b) => b.quality - a.quality)[0];
+      if (voice) {
+        await Tts.setDefaultVoice(voice.id);
+      }
     } catch (error) {
-      console.error('TTS failed:', error);
-      throw error;
+      // Engines without the language fall back to their default voice
+      console.error(`Failed to set TTS language ${language}:`, error);
+    }
+  }
+
+  // Speaks text right away, replacing anything already queued
+  async speak(text: string, config?: Partial<TTSConfig>): Promise<void> {
+    if (config) {
+      const tempConfig = {...this.ttsConfig, ...config};
+      Tts.setDefaultLanguage(tempConfig.language);
+      Tts.setDefaultRate(tempConfig.rate);
+      Tts.setDefaultPitch(tempConfig.pitch);
     }
+
+    await this.stopSpeaking();
+    this.enqueue([text]);
+  }
+
+  // Reads a markdown reply sentence by sentence after anything already queued
+  speakReply(markdown: string): void {
+    this.enqueue(toSpeechChunks(markdown));
+  }
+
+  // For "repeat that"; false if nothing has been said yet
+  async repeatLast(): Promise<boolean> {
+    if (this.lastSpokenChunks.length === 0) {
+      return false;
+    }
+    const chunks = this.lastSpokenChunks;
+    await this.stopSpeaking();
+    this.enqueue(chunks);
+    return true;
+  }
+
+  // Commands the app carries out itself rather than sending to the assistant
+  recognizeIntent(transcript: string): VoiceIntent {
+    return parseVoiceCommand(transcript);
+  }
+
+  async pauseSpeech(): Promise<void> {
+    if (this.speechState !== 'speaking') return;
+
+    // TTS engines can't pause mid-utterance, so the sentence restarts on resume
+    this.utteranceCount++;
+    this.currentUtteranceId = null;
+    this.setSpeechState('paused');
+    await this.stopTts();
+  }
+
+  resumeSpeech(): void {
+    if (this.speechState !== 'paused') return;
+    this.speakNext();
+  }
+
+  // Moves on to the next sentence, staying paused if playback was paused
+  async skipSpeech(): Promise<void> {
+    if (this.speechState === 'idle') return;
+
+    this.speechQueue.shift();
+    if (this.speechState === 'paused') {
+      if (this.speechQueue.length === 0) {
+        this.setSpeechState('idle');
+      }
+      return;
+    }
+
+    this.utteranceCount++;
+    this.currentUtteranceId = null;
+    await this.stopTts();
+    this.speakNext();
   }
 
   async stopSpeaking(): Promise<void> {
+    this.utteranceCount++;
+    this.speechQueue = [];
+    this.currentUtteranceId = null;
+    if (this.speechState !== 'idle') {
+      this.setSpeechState('idle');
+    }
+    await this.stopTts();
+  }
+
+  async isSpeaking(): Promise<boolean> {
+    return this.speechState === 'speaking';
+  }
+
+  getSpeechState(): SpeechState {
+    return this.speechState;
+  }
+
+  // Returns an unsubscribe function
+  onSpeechStateChange(listener: (state: SpeechState) => void): () => void {
+    this.speechListeners.add(listener);
+    return () => {
+      this.speechListeners.delete(listener);
+    };
+  }
+
+  // Hands-free mode: listen, send each utterance, read the reply and listen
+  // again until stopped
+  async startConversation(options: ConversationOptions): Promise<boolean> {
+    if (!this.isInitialized) {
+      throw new Error('Voice service not initialized');
+    }
+
+    await this.stopConversation();
+    await this.cancelListening();
+    this.conversation = options;
+    return this.listenForUtterance();
+  }
+
+  async stopConversation(): Promise<void> {
+    if (!this.conversation) return;
+
+    this.conversation = null;
+    this.clearConversationTimers();
+    this.setConversationState('off');
+    await this.cancelListening();
+    await this.stopSpeaking();
+  }
+
+  getConversationState(): ConversationState {
+    return this.conversationState;
+  }
+
+  // Returns an unsubscribe function
+  onConversationStateChange(listener: (state: ConversationState) => void): () => void {
+    this.conversationListeners.add(listener);
+    return () => {
+      this.conversationListeners.delete(listener);
+    };
+  }
+
+  private async listenForUtterance(state?: ConversationState): Promise<boolean> {
+    const conversation = this.conversation;
+    if (!conversation) return false;
+
+    this.clearConversationTimers();
+    this.heardText = '';
+    this.utteranceFinished = false;
+    this.setConversationState(state || (conversation.wakePhrase ? 'waitingForWakePhrase' : 'listening'));
+
+    const started = await this.startListening(
+      this.onConversationResult,
+      this.onConversationError,
+      undefined,
+      this.onConversationEnd
+    );
+    if (!started && this.conversation === conversation) {
+      conversation.onError?.('Failed to start voice recognition');
+      await this.stopConversation();
+    }
+    return started;
+  }
+
+  private onConversationResult = (result: VoiceResult) => {
+    if (this.utteranceFinished) return;
+
+    this.heardText = result.text;
+    this.conversation?.onTranscript?.(result.text);
+    if (result.isFinal) {
+      this.finishUtterance(result.text);
+      return;
+    }
+
+    if (this.utteranceTimer) {
+      clearTimeout(this.utteranceTimer);
+    }
+    this.utteranceTimer = setTimeout(() => {
+      this.utteranceTimer = null;
+      // Stopping makes the recogniser deliver its final result
+      this.stopListening();
+      this.scheduleFinish();
+    }, END_OF_UTTERANCE_MS);
+  };
+
+  private onConversationEnd = () => {
+    this.scheduleFinish();
+  };
+
+  private onConversationError = (_error: string) => {
+    // Silence and unrecognised speech end the session with an error; keep
+    // going rather than dropping out of hands-free mode
+    if (this.utteranceFinished || !this.conversation) return;
+
+    this.utteranceFinished = true;
+    this.clearConversationTimers();
+    this.nextStepTimer = setTimeout(() => {
+      this.nextStepTimer = null;
+      this.listenForUtterance();
+    }, RESTART_DELAY_MS);
+  };
+
+  private scheduleFinish() {
+    if (this.utteranceFinished || this.nextStepTimer) return;
+
+    this.nextStepTimer = setTimeout(() => {
+      this.nextStepTimer = null;
+      this.finishUtterance(this.heardText);
+    }, FINAL_RESULT_GRACE_MS);
+  }
+
+  private async finishUtterance(text: string) {
+    const conversation = this.conversation;
+    if (this.utteranceFinished || !conversation) return;
+
+    this.utteranceFinished = true;
+    this.clearConversationTimers();
+    await this.cancelListening();
+
+    let request = text.trim();
+    if (this.conversationState === 'waitingForWakePhrase' && conversation.wakePhrase) {
+      const afterWakePhrase = stripWakePhrase(request, conversation.wakePhrase);
+      if (afterWakePhrase === null) {
+        this.listenForUtterance();
+        return;
+      }
+      request = afterWakePhrase;
+      if (!request) {
+        // Just the wake phrase; the request follows on its own
+        this.listenForUtterance('listening');
+        return;
+      }
+    }
+
+    if (!request) {
+      this.listenForUtterance();
+      return;
+    }
+
+    this.setConversationState('processing');
     try {
-      await Tts.stop();
+      await conversation.onUtterance(request);
     } catch (error) {
-      console.error('Failed to stop TTS:', error);
+      conversation.onError?.((error as Error).message || 'Failed to process voice message');
+    }
+    if (this.conversation !== conversation) return;
+
+    if (this.speechState === 'idle') {
+      this.listenForUtterance();
+    } else {
+      // Listening resumes once the reply has been read (see setSpeechState)
+      this.setConversationState('speaking');
     }
   }
 
-  async isSpeaking(): Promise<boolean> {
+  private clearConversationTimers() {
+    if (this.utteranceTimer) {
+      clearTimeout(this.utteranceTimer);
+      this.utteranceTimer = null;
+    }
+    if (this.nextStepTimer) {
+      clearTimeout(this.nextStepTimer);
+      this.nextStepTimer = null;
+    }
+  }
+
+  private setConversationState(state: ConversationState) {
+    if (this.conversationState === state) return;
+    this.conversationState = state;
+    this.conversationListeners.forEach(listener => listener(state));
+  }
+
+  private enqueue(chunks: string[]) {
+    if (chunks.length === 0) return;
+
+    const wasIdle = this.speechQueue.length === 0;
+    this.speechQueue.push(...chunks);
+    this.lastSpokenChunks = wasIdle ? [...chunks] : [...this.lastSpokenChunks, ...chunks];
+    if (this.speechState === 'idle') {
+      this.speakNext();
+    }
+  }
+
+  private speakNext() {
+    const text = this.speechQueue[0];
+    if (text === undefined) {
+      this.currentUtteranceId = null;
+      this.setSpeechState('idle');
+      return;
+    }
+
+    const utterance = ++this.utteranceCount;
+    this.finishedBeforeStart = null;
+    this.setSpeechState('speaking');
+    // The native module resolves with the utterance id despite the typings
+    Promise.resolve(Tts.speak(text))
+      .then(utteranceId => {
+        if (utterance !== this.utteranceCount || this.speechState !== 'speaking') {
+          return;
+        }
+        if (utteranceId === this.finishedBeforeStart) {
+          this.advanceQueue();
+        } else {
+          this.currentUtteranceId = utteranceId;
+        }
+      })
+      .catch(error => {
+        console.error('TTS failed:', error);
+        if (utterance === this.utteranceCount) {
+          this.advanceQueue();
+        }
+      });
+  }
+
+  private advanceQueue() {
+    this.currentUtteranceId = null;
+    this.speechQueue.shift();
+    this.speakNext();
+  }
+
+  private onUtteranceDone = (event: {utteranceId: string | number}) => {
+    if (this.speechState !== 'speaking') return;
+
+    if (this.currentUtteranceId === null) {
+      this.finishedBeforeStart = event.utteranceId;
+    } else if (event.utteranceId === this.currentUtteranceId) {
+      this.advanceQueue();
+    }
+    // Anything else was paused, skipped or stopped
+  };
+
+  private setSpeechState(state: SpeechState) {
+    if (this.speechState === state) return;
+    this.speechState = state;
+    this.speechListeners.forEach(listener => listener(state));
+
+    if (state === 'idle' && this.conversationState === 'speaking') {
+      this.listenForUtterance();
+    }
+  }
+
+  private async stopTts(): Promise<void> {
     try {
-      // Note: isSpeaking method may not be available in all TTS versions
-      // Return false as a fallback for now
-      return false;
+      await Tts.stop();
     } catch (error) {
-      return false;
+      console.error('Failed to stop TTS:', error);
     }
   }
 
   // Voice recognition event handlers
   private onSpeechStart = () => {
     console.log('Speech recognition started');
+    this.stopSpeaking();
     this.onStartCallback?.();
   };
 
@@ -205,7 +611,7 @@ class VoiceService {
     const results = event.value;
     if (results && results.length > 0) {
       this.onResultCallback?.({
-        text: results[0],
+        text: this.toTranscript(results[0]),
         confidence: 1.0,
         isFinal: true,
       });
@@ -218,7 +624,7 @@ class VoiceService {
     const results = event.value;
     if (results && results.length > 0) {
       this.onResultCallback?.({
-        text: results[0],
+        text: this.toTranscript(results[0]),
         confidence: 0.8,
         isFinal: false,
       });
@@ -267,9 +673,15 @@ class VoiceService {
         await this.cancelListening();
       }
       
+      await this.stopConversation();
       await this.stopSpeaking();
       
       Voice.removeAllListeners();
+      if (this.ttsListenersAdded) {
+        Tts.removeEventListener('tts-finish', this.onUtteranceDone);
+        Tts.removeEventListener('tts-error', this.onUtteranceDone);
+        this.ttsListenersAdded = false;
+      }
       this.isInitialized = false;
     } catch (error) {
       console.error('Failed to destroy voice service:', error);
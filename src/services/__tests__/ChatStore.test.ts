@@ -0,0 +1,95 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {ChatStore, PAGE_SIZE, SCHEMA_VERSION} from '../ChatStore';
+import {ChatSession, Message} from '../../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const message = (index: number): Message => ({
+  id: `m${index}`,
+  content: `message ${index}`,
+  role: index % 2 ? 'assistant' : 'user',
+  timestamp: new Date(Date.UTC(2024, 0, 1, 0, index)),
+});
+
+const session = (id: string, count: number): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  messages: Array.from({length: count}, (_, index) => message(index)),
+  createdAt: new Date(Date.UTC(2024, 0, 1)),
+  updatedAt: new Date(Date.UTC(2024, 0, 2)),
+});
+
+describe('ChatStore', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  test('should migrate the legacy single-blob format', async () => {
+    await AsyncStorage.setItem('chatSessions', JSON.stringify([session('a', 3)]));
+
+    const store = new ChatStore();
+    const [loaded] = await store.loadSessions();
+
+    expect(loaded).toMatchObject({id: 'a', title: 'Chat a', messages: [], messageOffset: 3});
+    expect(loaded.updatedAt).toEqual(new Date(Date.UTC(2024, 0, 2)));
+    expect(await AsyncStorage.getItem('chatSessions')).toBeNull();
+    expect(await AsyncStorage.getItem('chat:schemaVersion')).toBe(String(SCHEMA_VERSION));
+
+    const messages = await store.loadMessages('a', 0, 3);
+    expect(messages.map(m => m.content)).toEqual(['message 0', 'message 1', 'message 2']);
+    expect(messages[0].timestamp).toEqual(new Date(Date.UTC(2024, 0, 1, 0, 0)));
+  });
+
+  test('should only rewrite the pages that changed', async () => {
+    const store = new ChatStore();
+    const chat = session('a', PAGE_SIZE * 2 + 5);
+    store.save([chat]);
+    await store.flush();
+
+    (AsyncStorage.multiSet as jest.Mock).mockClear();
+    const messages = [...chat.messages];
+    messages[messages.length - 1] = {...messages[messages.length - 1], content: 'edited'};
+    store.save([{...chat, messages}]);
+    await store.flush();
+
+    const writtenKeys = (AsyncStorage.multiSet as jest.Mock).mock.calls[0][0].map(
+      ([key]: [string]) => key
+    );
+    expect(writtenKeys.sort()).toEqual(['chat:messages:a:2', 'chat:session:a']);
+  });
+
+  test('should append to a session whose messages are not loaded', async () => {
+    const store = new ChatStore();
+    store.save([session('a', PAGE_SIZE + 3)]);
+    await store.flush();
+
+    const reopened = new ChatStore();
+    const [loaded] = await reopened.loadSessions();
+    reopened.save([{...loaded, messages: [{...message(99), content: 'new'}]}]);
+    await reopened.flush();
+
+    const messages = await new ChatStore().loadMessages('a', PAGE_SIZE, PAGE_SIZE + 4);
+    expect(messages.map(m => m.content)).toEqual([
+      `message ${PAGE_SIZE}`,
+      `message ${PAGE_SIZE + 1}`,
+      `message ${PAGE_SIZE + 2}`,
+      'new',
+    ]);
+  });
+
+  test('should remove every record of a deleted session', async () => {
+    const store = new ChatStore();
+    store.save([session('a', PAGE_SIZE + 1), session('b', 1)]);
+    await store.flush();
+
+    store.save([session('b', 1)]);
+    await store.flush();
+
+    const keys = await AsyncStorage.getAllKeys();
+    expect(keys.filter(key => key.includes(':a')).length).toBe(0);
+    expect((await new ChatStore().loadSessions()).map(s => s.id)).toEqual(['b']);
+  });
+});
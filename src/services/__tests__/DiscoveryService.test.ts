@@ -0,0 +1,98 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import DiscoveryService, {getSubnetHosts} from '../DiscoveryService';
+
+describe('getSubnetHosts', () => {
+  test('should list the /24 around the device without itself', () => {
+    const hosts = getSubnetHosts('192.168.1.42', '255.255.255.0');
+    expect(hosts).toHaveLength(253);
+    expect(hosts[0]).toBe('192.168.1.1');
+    expect(hosts[hosts.length - 1]).toBe('192.168.1.254');
+    expect(hosts).not.toContain('192.168.1.42');
+  });
+
+  test('should respect smaller subnets', () => {
+    expect(getSubnetHosts('10.0.0.5', '255.255.255.252')).toEqual(['10.0.0.6']);
+  });
+
+  test('should narrow large subnets to the local /24', () => {
+    const hosts = getSubnetHosts('10.20.30.40', '255.255.0.0');
+    expect(hosts).toHaveLength(253);
+    expect(hosts[0]).toBe('10.20.30.1');
+  });
+
+  test('should reject invalid addresses', () => {
+    expect(getSubnetHosts('not-an-ip')).toEqual([]);
+  });
+});
+
+describe('DiscoveryService', () => {
+  let bridge: http.Server;
+  let bridgePort: number;
+  let other: http.Server;
+  let otherPort: number;
+
+  beforeAll(async () => {
+    // Fake desktop bridge answering the health check
+    bridge = http.createServer((req, res) => {
+      if (req.url === '/mobile/health') {
+        res.writeHead(200, {'Content-Type': 'application/json'});
+        res.end(JSON.stringify({status: 'OK', name: 'Build Box', version: '1.2.0'}));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    // Some unrelated HTTP service on the network
+    other = http.createServer((req, res) => {
+      res.writeHead(200, {'Content-Type': 'text/html'});
+      res.end('<html></html>');
+    });
+
+    await new Promise<void>(resolve => bridge.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>(resolve => other.listen(0, '127.0.0.1', resolve));
+    bridgePort = (bridge.address() as AddressInfo).port;
+    otherPort = (other.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => bridge.close(resolve));
+    await new Promise(resolve => other.close(resolve));
+  });
+
+  test('should probe a bridge and report its name and latency', async () => {
+    const service = new DiscoveryService({timeout: 1000});
+    const result = await service.probe('127.0.0.1', bridgePort);
+
+    expect(result).not.toBeNull();
+    expect(result!.name).toBe('Build Box');
+    expect(result!.version).toBe('1.2.0');
+    expect(result!.latency).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should ignore hosts that are not bridges', async () => {
+    const service = new DiscoveryService({timeout: 1000});
+    expect(await service.probe('127.0.0.1', otherPort)).toBeNull();
+  });
+
+  test('should scan hosts and ports and only return bridges', async () => {
+    const service = new DiscoveryService({
+      ports: [otherPort, bridgePort],
+      timeout: 500,
+    });
+    const onFound = jest.fn();
+
+    const bridges = await service.scan(['127.0.0.1', '127.0.0.2'], onFound);
+
+    expect(bridges).toHaveLength(1);
+    expect(bridges[0]).toMatchObject({host: '127.0.0.1', port: bridgePort, name: 'Build Box'});
+    expect(onFound).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop scanning when cancelled', async () => {
+    const service = new DiscoveryService({ports: [bridgePort], concurrency: 1, timeout: 500});
+    const bridges = await service.scan(['127.0.0.1', '127.0.0.1'], () => service.cancel());
+
+    expect(bridges).toHaveLength(1);
+  });
+});
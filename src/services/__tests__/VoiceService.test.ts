@@ -0,0 +1,167 @@
+import Voice from '@react-native-voice/voice';
+import Tts from 'react-native-tts';
+import {VoiceService, ConversationState, END_OF_UTTERANCE_MS} from '../VoiceService';
+
+jest.mock('react-native', () => ({Platform: {OS: 'android'}}));
+jest.mock('react-native-permissions', () => ({}));
+jest.mock('@react-native-voice/voice', () => ({
+  start: jest.fn(() => Promise.resolve()),
+  stop: jest.fn(() => Promise.resolve()),
+  cancel: jest.fn(() => Promise.resolve()),
+  removeAllListeners: jest.fn(),
+}));
+jest.mock('react-native-tts', () => {
+  const handlers: Record<string, Function> = {};
+  let nextId = 0;
+  return {
+    handlers,
+    speak: jest.fn(() => Promise.resolve(++nextId)),
+    stop: jest.fn(() => Promise.resolve()),
+    setDefaultLanguage: jest.fn(),
+    setDefaultRate: jest.fn(),
+    setDefaultPitch: jest.fn(),
+    setDefaultVoice: jest.fn(),
+    voices: jest.fn(() => Promise.resolve([])),
+    addEventListener: jest.fn((event: string, handler: Function) => {
+      handlers[event] = handler;
+    }),
+    removeEventListener: jest.fn(),
+  };
+});
+
+const voice = Voice as any;
+const tts = Tts as any;
+
+// Lets pending promise callbacks run
+const settle = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+// Simulates the recogniser hearing a whole utterance
+const hear = async (text: string) => {
+  voice.onSpeechStart();
+  voice.onSpeechResults({value: [text]});
+  await settle();
+};
+
+// Finishes whatever TTS is saying
+const finishSpeaking = async () => {
+  const id = await tts.speak.mock.results[tts.speak.mock.results.length - 1].value;
+  tts.handlers['tts-finish']({utteranceId: id});
+  await settle();
+};
+
+describe('VoiceService hands-free conversation', () => {
+  let service: VoiceService;
+  let states: ConversationState[];
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    service = new VoiceService();
+    await service.initialize();
+    states = [];
+    service.onConversationStateChange(state => states.push(state));
+  });
+
+  afterEach(async () => {
+    await service.destroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should send each utterance, read the reply and listen again', async () => {
+    const onUtterance = jest.fn(async (text: string) => service.speakReply(`You said ${text}.`));
+    await service.startConversation({onUtterance});
+
+    expect(voice.start).toHaveBeenCalledTimes(1);
+    await hear('what does this do');
+
+    expect(onUtterance).toHaveBeenCalledWith('what does this do');
+    expect(tts.speak).toHaveBeenCalledWith('You said what does this do.');
+    expect(service.getConversationState()).toBe('speaking');
+    // The microphone stays off while the reply is read out
+    expect(voice.start).toHaveBeenCalledTimes(1);
+
+    await finishSpeaking();
+
+    expect(voice.start).toHaveBeenCalledTimes(2);
+    expect(states).toEqual(['listening', 'processing', 'speaking', 'listening']);
+  });
+
+  test('should end the utterance after a pause in partial results', async () => {
+    const onUtterance = jest.fn(() => Promise.resolve());
+    await service.startConversation({onUtterance});
+
+    voice.onSpeechPartialResults({value: ['open the']});
+    jest.advanceTimersByTime(END_OF_UTTERANCE_MS - 100);
+    voice.onSpeechPartialResults({value: ['open the mobile project']});
+    jest.advanceTimersByTime(END_OF_UTTERANCE_MS);
+    await settle();
+
+    expect(voice.stop).toHaveBeenCalled();
+    voice.onSpeechResults({value: ['open the mobile project']});
+    await settle();
+
+    expect(onUtterance).toHaveBeenCalledTimes(1);
+    expect(onUtterance).toHaveBeenCalledWith('open the mobile project');
+    // Nothing was spoken, so it goes straight back to listening
+    expect(service.getConversationState()).toBe('listening');
+  });
+
+  test('should only respond to requests after the wake phrase', async () => {
+    const onUtterance = jest.fn(() => Promise.resolve());
+    await service.startConversation({wakePhrase: 'hey stratosphere', onUtterance});
+    expect(service.getConversationState()).toBe('waitingForWakePhrase');
+
+    await hear('talking to someone else');
+    expect(onUtterance).not.toHaveBeenCalled();
+    expect(service.getConversationState()).toBe('waitingForWakePhrase');
+
+    await hear('hey stratosphere run the tests');
+    expect(onUtterance).toHaveBeenCalledWith('run the tests');
+    expect(service.getConversationState()).toBe('waitingForWakePhrase');
+  });
+
+  test('should take the request in a separate utterance after a bare wake phrase', async () => {
+    const onUtterance = jest.fn(() => Promise.resolve());
+    await service.startConversation({wakePhrase: 'hey stratosphere', onUtterance});
+
+    await hear('hey stratosphere');
+    expect(service.getConversationState()).toBe('listening');
+
+    await hear('git status');
+    expect(onUtterance).toHaveBeenCalledWith('git status');
+  });
+
+  test('should keep listening after silence errors', async () => {
+    await service.startConversation({onUtterance: jest.fn(() => Promise.resolve())});
+
+    voice.onSpeechError({error: {message: '7/No match'}});
+    jest.advanceTimersByTime(1000);
+    await settle();
+
+    expect(voice.start).toHaveBeenCalledTimes(2);
+    expect(service.getConversationState()).toBe('listening');
+  });
+
+  test('should stop listening and speaking when stopped', async () => {
+    await service.startConversation({
+      onUtterance: async () => service.speakReply('A long reply. With two sentences.'),
+    });
+    await hear('explain');
+
+    await service.stopConversation();
+
+    expect(service.getConversationState()).toBe('off');
+    expect(await service.isSpeaking()).toBe(false);
+    expect(tts.stop).toHaveBeenCalled();
+    // A late finish event doesn't restart anything
+    await finishSpeaking();
+    expect(voice.start).toHaveBeenCalledTimes(1);
+  });
+});
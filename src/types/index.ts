@@ -5,6 +5,53 @@ export interface Message {
   timestamp: Date;
   isVoice?: boolean;
   isLoading?: boolean;
+  isStreaming?: boolean;
+  edits?: MessageEdit[];
+  // Id of the server's copy, once it has one
+  remoteId?: string;
+  // Notices generated on this device that are never synced
+  localOnly?: boolean;
+  // Recording kept alongside a dictated message; stays on this device
+  audio?: VoiceRecording;
+  // Photos and files uploaded to the computer with the message
+  attachments?: MessageAttachment[];
+}
+
+// The computer keeps the uploaded copy; this is just enough to show it
+export interface MessageAttachment {
+  // Assigned by the computer when the upload finishes
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // The picked copy on this device, for thumbnails. The OS may clear it.
+  localUri?: string;
+}
+
+export type EditStatus = 'pending' | 'applied' | 'rejected' | 'reverted';
+
+// A change the assistant proposed to one file
+export interface MessageEdit {
+  id: string;
+  filePath: string;
+  // Unified diff against the file as the assistant saw it
+  diff: string;
+  description?: string;
+  status: EditStatus;
+}
+
+// Enough to put the file back the way it was
+export interface AppliedEdit {
+  id: string;
+  messageId: string;
+  editId: string;
+  filePath: string;
+  previousContent: string;
+  newContent: string;
+  // The change created the file, so there was nothing to restore
+  createdFile?: boolean;
+  appliedAt: Date;
+  revertedAt?: Date;
 }
 
 export interface Repository {
@@ -42,6 +89,8 @@ export interface Connection {
   name: string;
   host: string;
   port: number;
+  protocol: 'http' | 'https';
+  autoReconnect: boolean;
   isConnected: boolean;
   lastConnected?: Date;
 }
@@ -60,6 +109,17 @@ export interface VoiceRecording {
   timestamp: Date;
 }
 
+// A file or line range picked to go along with the next chat message
+export interface ContextAttachment {
+  id: string;
+  path: string;
+  name: string;
+  content: string;
+  // 1-based and inclusive; both absent when the whole file is attached
+  startLine?: number;
+  endLine?: number;
+}
+
 export interface AIResponse {
   success: boolean;
   response?: string;
@@ -73,6 +133,15 @@ export interface ChatSession {
   messages: Message[];
   createdAt: Date;
   updatedAt: Date;
+  lastSyncedAt?: Date;
+  pinned?: boolean;
+  // Locale the chat is dictated in; falls back to AppSettings.speechLanguage
+  speechLanguage?: string;
+  // Messages before this index are stored but not loaded yet
+  messageOffset?: number;
+  // Start of the last message, for listing sessions that aren't loaded
+  preview?: string;
+  appliedEdits?: AppliedEdit[];
   projectContext?: {
     path: string;
     files: ProjectFile[];
@@ -84,11 +153,22 @@ export interface AppSettings {
   theme: 'light' | 'dark' | 'system';
   voiceEnabled: boolean;
   autoSend: boolean;
+  // Speak assistant replies in voice mode
+  readAloud: boolean;
+  // Hands-free mode only responds after "Hey Stratosphere"
+  requireWakePhrase: boolean;
+  // Default locale for speech recognition and read-aloud
+  speechLanguage: string;
+  // Keep a recording of each dictated message
+  recordVoiceClips: boolean;
+  // Mirrors the active connection profile
   connectionSettings: {
     host: string;
     port: number;
+    protocol: 'http' | 'https';
     autoReconnect: boolean;
   };
+  activeConnectionId?: string;
   geminiApiKey?: string;
 }
 
@@ -99,6 +179,10 @@ export type RootStackParamList = {
   Main: undefined;
   Chat: { sessionId?: string };
   Projects: undefined;
+  FileBrowser: { projectId: string; projectPath: string; projectName?: string };
+  CodeViewer: { filePath: string; fileName?: string };
+  Git: { projectPath: string; projectName?: string };
+  Sessions: undefined;
   Settings: undefined;
   Profile: undefined;
   ConnectionSetup: undefined;
@@ -108,4 +192,5 @@ export type RootStackParamList = {
 export type MainTabParamList = {
   Chat: undefined;
   Voice: undefined;
+  Projects: undefined;
 };
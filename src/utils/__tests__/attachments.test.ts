@@ -0,0 +1,58 @@
+import {
+  guessMimeType,
+  getAttachmentIcon,
+  checkAttachmentLimits,
+  MAX_ATTACHMENTS,
+  PickedFile,
+} from '../attachments';
+
+const MB = 1024 * 1024;
+
+const picked = (name: string, size: number): PickedFile => ({
+  uri: `file:///cache/${name}`,
+  name,
+  mimeType: guessMimeType(name),
+  size,
+});
+
+describe('guessMimeType', () => {
+  test('should trust a specific reported type', () => {
+    expect(guessMimeType('photo', 'image/png')).toBe('image/png');
+  });
+
+  test('should go by extension when the picker is vague', () => {
+    expect(guessMimeType('server.log', 'application/octet-stream')).toBe('text/plain');
+    expect(guessMimeType('Whiteboard.JPG', null)).toBe('image/jpeg');
+    expect(guessMimeType('data.bin')).toBe('application/octet-stream');
+  });
+
+  test('should pick card icons by type', () => {
+    expect(getAttachmentIcon('image/png')).toBe('image-outline');
+    expect(getAttachmentIcon('text/plain')).toBe('document-text-outline');
+    expect(getAttachmentIcon('application/octet-stream')).toBe('document-outline');
+  });
+});
+
+describe('checkAttachmentLimits', () => {
+  test('should reject files over the size limit', () => {
+    const result = checkAttachmentLimits([picked('a.png', 2 * MB), picked('video.mov', 40 * MB)]);
+    expect(result.accepted.map(file => file.name)).toEqual(['a.png']);
+    expect(result.rejected).toEqual(['video.mov is larger than 10 MB']);
+  });
+
+  test('should count files already attached', () => {
+    const attached = Array.from({length: MAX_ATTACHMENTS - 1}, () => ({size: MB}));
+    const result = checkAttachmentLimits([picked('a.png', MB), picked('b.png', MB)], attached);
+    expect(result.accepted).toHaveLength(1);
+    expect(result.rejected[0]).toMatch(/^b\.png: only 5 files/);
+  });
+
+  test('should keep the total under the limit', () => {
+    const result = checkAttachmentLimits(
+      [picked('a.pdf', 9 * MB), picked('b.pdf', 9 * MB), picked('c.txt', MB)],
+      [{size: 8 * MB}]
+    );
+    expect(result.accepted.map(file => file.name)).toEqual(['a.pdf', 'c.txt']);
+    expect(result.rejected).toHaveLength(1);
+  });
+});
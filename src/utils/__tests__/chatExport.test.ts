@@ -0,0 +1,113 @@
+import {sessionToMarkdown, sessionsToJson, parseSessionsJson, exportFileName} from '../chatExport';
+import {ChatSession} from '../../types';
+
+const session: ChatSession = {
+  id: 's1',
+  title: 'Fix the build!',
+  createdAt: new Date(Date.UTC(2024, 2, 5, 9, 30)),
+  updatedAt: new Date(Date.UTC(2024, 2, 5, 10, 0)),
+  pinned: true,
+  messageOffset: 0,
+  messages: [
+    {
+      id: 'm1',
+      role: 'user',
+      content: 'Why does it fail?',
+      isVoice: true,
+      timestamp: new Date(Date.UTC(2024, 2, 5, 9, 31)),
+      audio: {uri: 'file:///clips/m1.m4a', duration: 1200, timestamp: new Date(Date.UTC(2024, 2, 5, 9, 31))},
+      attachments: [
+        {id: 'a1', name: 'error.png', mimeType: 'image/png', size: 1536, localUri: 'file:///cache/error.png'},
+      ],
+    },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: 'Try this:\n```ts\nconst a = 1;',
+      timestamp: new Date(Date.UTC(2024, 2, 5, 9, 32)),
+      remoteId: 'r2',
+      isStreaming: true,
+      edits: [{id: 'e1', filePath: 'src/a.ts', diff: '@@ -1 +1 @@\n-a\n+b\n', status: 'applied'}],
+    },
+  ],
+};
+
+describe('sessionToMarkdown', () => {
+  test('should write role headers, timestamps, fences and edits', () => {
+    const markdown = sessionToMarkdown({
+      ...session,
+      projectContext: {path: '/code/app'} as ChatSession['projectContext'],
+    });
+
+    expect(markdown).toContain('# Fix the build!\n');
+    expect(markdown).toContain('- Project: `/code/app`');
+    expect(markdown).toContain('## You (voice) · 2024-03-05 09:31 UTC\n\nWhy does it fail?');
+    expect(markdown).toContain('**Attached `error.png`** (1.5 KB)');
+    expect(markdown).toContain('## Assistant · 2024-03-05 09:32 UTC');
+    // The unterminated block is closed before the next section
+    expect(markdown).toContain('const a = 1;\n```\n\n**Proposed edit to `src/a.ts`** (applied)');
+    expect(markdown).toContain('```diff\n@@ -1 +1 @@\n-a\n+b\n```');
+  });
+});
+
+describe('chat JSON export', () => {
+  test('should round-trip sessions without in-memory state or recordings', () => {
+    const [restored] = parseSessionsJson(sessionsToJson([session]));
+
+    expect(restored.createdAt).toEqual(session.createdAt);
+    expect(restored.pinned).toBe(true);
+    expect(restored.messageOffset).toBeUndefined();
+    expect(restored.messages[1].timestamp).toEqual(session.messages[1].timestamp);
+    expect(restored.messages[1].edits).toEqual(session.messages[1].edits);
+    // Sync ids belong to the computer the export came from
+    expect(restored.messages[1].remoteId).toBeUndefined();
+    expect(restored.messages[1].isStreaming).toBeUndefined();
+    expect(restored.messages[0].audio).toBeUndefined();
+    expect(restored.messages[0].attachments).toEqual([
+      {id: 'a1', name: 'error.png', mimeType: 'image/png', size: 1536},
+    ]);
+  });
+
+  test('should only import fields a chat shows', () => {
+    const file = JSON.parse(sessionsToJson([session]));
+    Object.assign(file.sessions[0], {
+      messageOffset: 40,
+      preview: 'x',
+      lastSyncedAt: session.updatedAt,
+      appliedEdits: [{id: 'ae1', filePath: '/etc/hosts', previousContent: '', newContent: 'x'}],
+    });
+    Object.assign(file.sessions[0].messages[0], {
+      localOnly: true,
+      audio: {uri: 'file:///data/app/important.db', duration: 1, timestamp: session.createdAt},
+    });
+
+    const [restored] = parseSessionsJson(JSON.stringify(file));
+    expect(restored).not.toHaveProperty('messageOffset');
+    expect(restored).not.toHaveProperty('preview');
+    expect(restored).not.toHaveProperty('lastSyncedAt');
+    expect(restored).not.toHaveProperty('appliedEdits');
+    expect(restored.messages[0]).not.toHaveProperty('audio');
+    expect(restored.messages[0]).not.toHaveProperty('localOnly');
+  });
+
+  test('should reject files that are not chat exports', () => {
+    expect(() => parseSessionsJson('nope')).toThrow('not valid JSON');
+    expect(() => parseSessionsJson('{"sessions": []}')).toThrow('not a Stratosphere chat export');
+    expect(() =>
+      parseSessionsJson('{"format": "stratosphere-chat", "version": 99, "sessions": []}')
+    ).toThrow('newer version');
+    expect(() =>
+      parseSessionsJson(
+        JSON.stringify({
+          format: 'stratosphere-chat',
+          version: 1,
+          sessions: [{...session, messages: [{id: 'x', role: 'system', content: ''}]}],
+        })
+      )
+    ).toThrow('invalid message');
+  });
+});
+
+test('exportFileName should slug the title', () => {
+  expect(exportFileName(session, 'md')).toBe('fix-the-build-2024-03-05.md');
+});
@@ -0,0 +1,75 @@
+import {mergeMessages, getLocalOnlyMessages} from '../chatSync';
+import {Message} from '../../types';
+import {ChatMessage} from '../../services/ApiService';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 12, minutes));
+
+const local = (id: string, content: string, minutes: number, extra: Partial<Message> = {}): Message => ({
+  id,
+  content,
+  role: 'user',
+  timestamp: at(minutes),
+  ...extra,
+});
+
+const remote = (id: string, content: string, minutes: number, role: 'user' | 'assistant' = 'user'): ChatMessage => ({
+  id,
+  content,
+  role,
+  timestamp: at(minutes),
+});
+
+describe('mergeMessages', () => {
+  test('should interleave remote-only messages by timestamp', () => {
+    const merged = mergeMessages(
+      [local('a', 'phone 1', 0), local('b', 'phone 2', 10)],
+      [remote('r1', 'desktop', 5, 'assistant')]
+    );
+    expect(merged.map(message => message.content)).toEqual(['phone 1', 'desktop', 'phone 2']);
+    expect(merged[1]).toMatchObject({id: 'r1', remoteId: 'r1', role: 'assistant'});
+  });
+
+  test('should match on remote id and keep local state', () => {
+    const merged = mergeMessages(
+      [local('a', 'partial', 0, {remoteId: 'r1', role: 'assistant', isVoice: true})],
+      [remote('r1', 'complete answer', 0, 'assistant')]
+    );
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({id: 'a', remoteId: 'r1', content: 'complete answer', isVoice: true});
+  });
+
+  test('should not overwrite a message that is still streaming', () => {
+    const merged = mergeMessages(
+      [local('a', 'stream so far', 0, {remoteId: 'r1', isStreaming: true})],
+      [remote('r1', 'stale', 0)]
+    );
+    expect(merged[0].content).toBe('stream so far');
+  });
+
+  test('should adopt legacy messages with the same content and close timestamps', () => {
+    const merged = mergeMessages([local('a', 'hello', 0)], [remote('r1', 'hello', 1)]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({id: 'a', remoteId: 'r1'});
+
+    expect(mergeMessages([local('a', 'hello', 0)], [remote('r1', 'hello', 30)])).toHaveLength(2);
+  });
+
+  test('should treat a remote id the server does not know as unmatched', () => {
+    const merged = mergeMessages([local('a', 'hello', 0, {remoteId: 'made-up'})], [remote('r1', 'hello', 0)]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].remoteId).toBe('r1');
+  });
+});
+
+describe('getLocalOnlyMessages', () => {
+  test('should skip synced, pending, in-flight and device-only messages', () => {
+    const messages = [
+      local('synced', 'x', 0, {remoteId: 'r'}),
+      local('pending', 'x', 1),
+      local('streaming', 'x', 2, {isStreaming: true}),
+      local('notice', 'x', 3, {localOnly: true}),
+      local('new', 'x', 4),
+    ];
+    expect(getLocalOnlyMessages(messages, new Set(['pending'])).map(message => message.id)).toEqual(['new']);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  findMention,
+  removeMention,
+  matchFiles,
+  estimateTokens,
+  formatTokenCount,
+  attachmentLabel,
+  toContextFiles,
+} from '../contextAttachments';
+import {ProjectFile} from '../../types';
+
+const file = (relativePath: string): ProjectFile => ({
+  name: relativePath.split('/').pop() as string,
+  path: `/home/dev/app/${relativePath}`,
+  relativePath,
+  size: 100,
+  modified: new Date(0),
+  extension: relativePath.split('.').pop() as string,
+});
+
+describe('findMention', () => {
+  test('should find the mention being typed at the cursor', () => {
+    expect(findMention('look at @Api')).toEqual({query: 'Api', start: 8, end: 12});
+    expect(findMention('@')).toEqual({query: '', start: 0, end: 1});
+    expect(findMention('look at @Api and', 12)).toEqual({query: 'Api', start: 8, end: 12});
+  });
+
+  test('should ignore finished words and email addresses', () => {
+    expect(findMention('look at @Api ')).toBeNull();
+    expect(findMention('mail dev@example.com')).toBeNull();
+  });
+
+  test('should remove the mention without leaving a double space', () => {
+    const text = 'look at @Api please';
+    expect(removeMention(text, findMention(text, 12)!)).toBe('look at please');
+    expect(removeMention('@App', findMention('@App')!)).toBe('');
+  });
+});
+
+describe('matchFiles', () => {
+  const files = [
+    file('src/services/ApiService.ts'),
+    file('src/services/__tests__/ApiService.test.ts'),
+    file('src/screens/ChatScreen.tsx'),
+    file('src/api/client.ts'),
+  ];
+
+  test('should rank name prefixes, then names, then paths', () => {
+    expect(matchFiles(files, 'api').map(match => match.relativePath)).toEqual([
+      'src/services/ApiService.ts',
+      'src/services/__tests__/ApiService.test.ts',
+      'src/api/client.ts',
+    ]);
+    expect(matchFiles(files, 'screen').map(match => match.name)).toEqual(['ChatScreen.tsx']);
+  });
+
+  test('should list everything for an empty query, up to the limit', () => {
+    expect(matchFiles(files, '', 2)).toHaveLength(2);
+  });
+});
+
+describe('attachments', () => {
+  test('should estimate tokens and format the count', () => {
+    expect(estimateTokens('a'.repeat(10))).toBe(3);
+    expect(formatTokenCount(250)).toBe('~250 tokens');
+    expect(formatTokenCount(1250)).toBe('~1.3k tokens');
+    expect(formatTokenCount(2000)).toBe('~2k tokens');
+  });
+
+  test('should label files and line ranges', () => {
+    const base = {id: '1', path: '/a/App.tsx', name: 'App.tsx', content: ''};
+    expect(attachmentLabel(base)).toBe('App.tsx');
+    expect(attachmentLabel({...base, startLine: 4, endLine: 4})).toBe('App.tsx:4');
+    expect(attachmentLabel({...base, startLine: 4, endLine: 9})).toBe('App.tsx:4-9');
+  });
+
+  test('should send only the path, content and range', () => {
+    expect(
+      toContextFiles([
+        {id: '1', path: '/a/App.tsx', name: 'App.tsx', content: 'x'},
+        {id: '2', path: '/a/b.ts', name: 'b.ts', content: 'y', startLine: 2, endLine: 5},
+      ])
+    ).toEqual([
+      {path: '/a/App.tsx', content: 'x'},
+      {path: '/a/b.ts', content: 'y', startLine: 2, endLine: 5},
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import {diffLines, toHunks, countChanges, toSplitRows} from '../diff';
+
+const render = (text: string, other: string) =>
+  diffLines(text, other).map(line => `${line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}${line.text}`);
+
+describe('diffLines', () => {
+  test('should report identical text as context only', () => {
+    expect(countChanges(diffLines('a\nb', 'a\nb'))).toEqual({additions: 0, deletions: 0});
+  });
+
+  test('should find a minimal line diff', () => {
+    expect(render('a\nb\nc\nd', 'a\nc\nd\ne')).toEqual([' a', '-b', ' c', ' d', '+e']);
+  });
+
+  test('should number lines on each side', () => {
+    const lines = diffLines('one\ntwo', 'one\n2\ntwo');
+    expect(lines[1]).toEqual({type: 'add', text: '2', newNumber: 2});
+    expect(lines[2]).toEqual({type: 'context', text: 'two', oldNumber: 2, newNumber: 3});
+  });
+
+  test('should handle empty files', () => {
+    expect(render('', 'x\ny')).toEqual(['+x', '+y']);
+    expect(render('x', '')).toEqual(['-x']);
+  });
+});
+
+describe('toHunks', () => {
+  const oldText = Array.from({length: 20}, (_, i) => `line ${i + 1}`).join('\n');
+
+  test('should keep separate hunks for distant changes', () => {
+    const newText = oldText.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+    const hunks = toHunks(diffLines(oldText, newText));
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({oldStart: 1, oldLines: 5, newStart: 1, newLines: 5});
+    expect(hunks[1]).toMatchObject({oldStart: 15, oldLines: 6, newStart: 15, newLines: 6});
+  });
+
+  test('should merge nearby changes', () => {
+    const newText = oldText.replace('line 5\n', '').replace('line 9\n', 'line nine\n');
+    expect(toHunks(diffLines(oldText, newText))).toHaveLength(1);
+  });
+
+  test('should point pure insertions at the preceding line', () => {
+    const hunks = toHunks(diffLines('a\nb', 'a\nb\nc'), 0);
+    expect(hunks[0]).toMatchObject({oldStart: 2, oldLines: 0, newStart: 3, newLines: 1});
+  });
+});
+
+describe('toSplitRows', () => {
+  test('should pair removals with the additions that replace them', () => {
+    const rows = toSplitRows(diffLines('a\nb\nc\nd', 'a\nB\nC\nX\nd'));
+    expect(rows.map(row => [row.left?.text, row.right?.text])).toEqual([
+      ['a', 'a'],
+      ['b', 'B'],
+      ['c', 'C'],
+      [undefined, 'X'],
+      ['d', 'd'],
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import {getSpeechLanguage, getSessionLanguage} from '../languages';
+
+describe('getSpeechLanguage', () => {
+  test('should find a locale regardless of case and separator', () => {
+    expect(getSpeechLanguage('fr-FR').name).toBe('Français (France)');
+    expect(getSpeechLanguage('zh_cn').code).toBe('zh-CN');
+  });
+
+  test('should fall back to the same language, then to English', () => {
+    expect(getSpeechLanguage('fr-BE').code).toBe('fr-FR');
+    expect(getSpeechLanguage('xx-YY').code).toBe('en-US');
+    expect(getSpeechLanguage(undefined).code).toBe('en-US');
+  });
+});
+
+describe('getSessionLanguage', () => {
+  test('should prefer the session language over the default', () => {
+    expect(getSessionLanguage({speechLanguage: 'zh-CN'}, 'fr-FR')).toBe('zh-CN');
+    expect(getSessionLanguage({}, 'fr-FR')).toBe('fr-FR');
+    expect(getSessionLanguage(null)).toBe('en-US');
+  });
+});
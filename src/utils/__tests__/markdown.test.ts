@@ -0,0 +1,94 @@
+import {parseMarkdown, parseInline} from '../markdown';
+
+describe('parseMarkdown', () => {
+  test('should split headings, paragraphs and rules', () => {
+    expect(parseMarkdown('# Title\nSome text\nmore text\n\n---\n## Next ##')).toEqual([
+      {type: 'heading', level: 1, text: 'Title'},
+      {type: 'paragraph', text: 'Some text\nmore text'},
+      {type: 'rule'},
+      {type: 'heading', level: 2, text: 'Next'},
+    ]);
+  });
+
+  test('should keep fenced code verbatim', () => {
+    const blocks = parseMarkdown('Run:\n```ts\nconst a = 1;\n\n# not a heading\n```\nDone');
+    expect(blocks[1]).toEqual({
+      type: 'code',
+      language: 'ts',
+      code: 'const a = 1;\n\n# not a heading',
+      closed: true,
+    });
+    expect(blocks[2]).toEqual({type: 'paragraph', text: 'Done'});
+  });
+
+  test('should treat an unterminated fence as open code', () => {
+    expect(parseMarkdown('```\npartial')).toEqual([
+      {type: 'code', language: '', code: 'partial', closed: false},
+    ]);
+  });
+
+  test('should nest list items by indentation', () => {
+    expect(parseMarkdown('- one\n  - child\n    wrapped\n\n- two\n3. three')).toEqual([
+      {
+        type: 'list',
+        items: [
+          {text: 'one', depth: 0, marker: '•'},
+          {text: 'child wrapped', depth: 1, marker: '•'},
+          {text: 'two', depth: 0, marker: '•'},
+          {text: 'three', depth: 0, marker: '3.'},
+        ],
+      },
+    ]);
+  });
+
+  test('should collect block quotes', () => {
+    expect(parseMarkdown('> first\n> second\nafter')).toEqual([
+      {type: 'quote', text: 'first\nsecond'},
+      {type: 'paragraph', text: 'after'},
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  test('should parse code, emphasis and links', () => {
+    expect(parseInline('Use `npm i` and **really *read*** the [docs](https://x.dev).')).toEqual([
+      {type: 'text', text: 'Use '},
+      {type: 'code', text: 'npm i'},
+      {type: 'text', text: ' and '},
+      {
+        type: 'bold',
+        children: [
+          {type: 'text', text: 'really '},
+          {type: 'italic', children: [{type: 'text', text: 'read'}]},
+        ],
+      },
+      {type: 'text', text: ' the '},
+      {type: 'link', url: 'https://x.dev', children: [{type: 'text', text: 'docs'}]},
+      {type: 'text', text: '.'},
+    ]);
+  });
+
+  test('should autolink bare URLs without trailing punctuation', () => {
+    expect(parseInline('See https://example.com/a.')).toEqual([
+      {type: 'text', text: 'See '},
+      {type: 'link', url: 'https://example.com/a', children: [{type: 'text', text: 'https://example.com/a'}]},
+      {type: 'text', text: '.'},
+    ]);
+  });
+
+  test('should only link web and mail addresses', () => {
+    expect(parseInline('[mail](mailto:dev@example.com)')).toEqual([
+      {type: 'link', url: 'mailto:dev@example.com', children: [{type: 'text', text: 'mail'}]},
+    ]);
+    expect(parseInline('[Open](stratosphere://pair?host=1.2.3.4&secret=x) now')).toEqual([
+      {type: 'text', text: '[Open](stratosphere://pair?host=1.2.3.4&secret=x) now'},
+    ]);
+    expect(parseInline('[call](tel:123)')).toEqual([{type: 'text', text: '[call](tel:123)'}]);
+  });
+
+  test('should leave snake_case and lone markers alone', () => {
+    expect(parseInline('call my_var_name * 2')).toEqual([
+      {type: 'text', text: 'call my_var_name * 2'},
+    ]);
+  });
+});
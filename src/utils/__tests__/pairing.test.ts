@@ -0,0 +1,139 @@
+import {sha256, hmacSha256, x25519, fromHex, toHex, X25519_BASE_POINT} from '../crypto';
+import {
+  parsePairingPayload,
+  createPairingKeyPair,
+  deriveSharedSecret,
+  derivePairingProof,
+  deriveServerProof,
+  deriveDeviceKey,
+  multipartSigningBody,
+  signRequest,
+} from '../pairing';
+
+// RFC 7748 section 6.1
+const ALICE_PRIVATE = '77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a';
+const ALICE_PUBLIC = '8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a';
+const BOB_PRIVATE = '5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb';
+const BOB_PUBLIC = 'de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f';
+const SHARED = '4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742';
+
+describe('crypto', () => {
+  test('should match SHA-256 test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  test('should encode non-ASCII text as UTF-8', () => {
+    expect(sha256('日本 🚀')).toBe('81406b37794213a0b75a30b2420950004026cd1c9f83f27d4b3be8fe7dc6597d');
+  });
+
+  test('should match HMAC-SHA256 test vectors', () => {
+    expect(hmacSha256('key', 'The quick brown fox jumps over the lazy dog')).toBe(
+      'f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8'
+    );
+    // RFC 4231 test case 2
+    expect(hmacSha256('Jefe', 'what do ya want for nothing?')).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+
+  test('should match X25519 test vectors', () => {
+    expect(toHex(x25519(fromHex(ALICE_PRIVATE), X25519_BASE_POINT))).toBe(ALICE_PUBLIC);
+    expect(toHex(x25519(fromHex(BOB_PRIVATE), fromHex(ALICE_PUBLIC)))).toBe(SHARED);
+  });
+});
+
+describe('parsePairingPayload', () => {
+  test('should parse a QR link', () => {
+    expect(
+      parsePairingPayload('stratosphere://pair?host=192.168.1.20&port=47893&secret=s3cr3t&name=Build%20Box')
+    ).toEqual({host: '192.168.1.20', port: 47893, secret: 's3cr3t', name: 'Build Box'});
+  });
+
+  test('should parse a JSON payload', () => {
+    expect(parsePairingPayload('{"host":"10.0.0.2","port":"3001","secret":"abc"}')).toEqual({
+      host: '10.0.0.2',
+      port: 3001,
+      secret: 'abc',
+      name: undefined,
+    });
+  });
+
+  test('should accept a short code typed by hand', () => {
+    expect(parsePairingPayload(' k7q2-9xtm ')).toEqual({secret: 'K7Q29XTM'});
+  });
+
+  test('should reject anything else', () => {
+    expect(parsePairingPayload('')).toBeNull();
+    expect(parsePairingPayload('hello world!')).toBeNull();
+    expect(parsePairingPayload('stratosphere://pair?host=1.2.3.4')).toBeNull();
+  });
+});
+
+describe('request signing', () => {
+  test('should derive the same device key on both ends of the exchange', () => {
+    const phone = createPairingKeyPair(fromHex(ALICE_PRIVATE));
+    expect(phone.publicKey).toBe(ALICE_PUBLIC);
+    const sharedSecret = deriveSharedSecret(phone.privateKey, BOB_PUBLIC);
+    expect(sharedSecret).toBe(SHARED);
+
+    const key = deriveDeviceKey(sharedSecret, 'K7Q29XTM', 'device-1');
+    expect(key).not.toBe(deriveDeviceKey(sharedSecret, 'K7Q29XTM', 'device-2'));
+    // Knowing the code isn't enough without the exchanged secret
+    expect(key).not.toBe(deriveDeviceKey(sha256('guess'), 'K7Q29XTM', 'device-1'));
+  });
+
+  test('should refuse a low-order public key', () => {
+    expect(() => deriveSharedSecret(fromHex(ALICE_PRIVATE), '00'.repeat(32))).toThrow('invalid pairing key');
+    expect(() => deriveSharedSecret(fromHex(ALICE_PRIVATE), 'abcd')).toThrow('invalid pairing key');
+  });
+
+  test('should derive a stable signature', () => {
+    const key = deriveDeviceKey(SHARED, 'K7Q29XTM', 'device-1');
+
+    const signature = signRequest(key, '1700000000000', 'nonce-1', 'get', '/mobile/session');
+    expect(signature).toBe(signRequest(key, '1700000000000', 'nonce-1', 'GET', '/mobile/session'));
+    expect(signature).toHaveLength(64);
+  });
+
+  test('should not verify a request whose body, query or nonce was changed', () => {
+    const key = deriveDeviceKey(SHARED, 'K7Q29XTM', 'device-1');
+    const body = JSON.stringify({path: 'src/App.tsx', content: 'export default App;'});
+    const sign = (nonce: string, path: string, sentBody: string) =>
+      signRequest(key, '1700000000000', nonce, 'POST', path, sentBody);
+    const signature = sign('nonce-1', '/mobile/files/write?force=false', body);
+
+    const tampered = body.replace('export default App;', 'rm -rf');
+    expect(sign('nonce-1', '/mobile/files/write?force=false', tampered)).not.toBe(signature);
+    expect(sign('nonce-1', '/mobile/files/write?force=true', body)).not.toBe(signature);
+    expect(sign('nonce-2', '/mobile/files/write?force=false', body)).not.toBe(signature);
+  });
+
+  test('should sign multipart text fields and file names', () => {
+    const fields = [
+      {name: 'audio', fileName: 'clip.m4a', type: 'audio/mp4'},
+      {name: 'language', value: 'en-US'},
+    ];
+    const body = multipartSigningBody(fields);
+    expect(body).toBe('multipart\naudio=@clip.m4a;audio%2Fmp4\nlanguage=en-US');
+    expect(multipartSigningBody([fields[0], {name: 'language', value: 'de-DE'}])).not.toBe(body);
+    expect(multipartSigningBody([{...fields[0], fileName: 'other.m4a'}, fields[1]])).not.toBe(body);
+  });
+
+  test('should keep the pairing proof and server proof distinct', () => {
+    const proof = derivePairingProof('K7Q29XTM', 'device-1', 'nonce-1', ALICE_PUBLIC);
+    expect(proof).not.toBe(
+      deriveServerProof('K7Q29XTM', 'device-1', 'nonce-1', ALICE_PUBLIC, BOB_PUBLIC)
+    );
+    expect(proof).not.toBe(derivePairingProof('K7Q29XTM', 'device-1', 'nonce-2', ALICE_PUBLIC));
+    expect(proof).not.toBe(derivePairingProof('K7Q29XTM', 'device-1', 'nonce-1', BOB_PUBLIC));
+    expect(proof).not.toBe(derivePairingProof('K7Q29XTM', 'device-1', 'nonce-1', ALICE_PUBLIC, 'ab12'));
+    // A swapped desktop key doesn't verify
+    expect(deriveServerProof('K7Q29XTM', 'device-1', 'nonce-1', ALICE_PUBLIC, BOB_PUBLIC)).not.toBe(
+      deriveServerProof('K7Q29XTM', 'device-1', 'nonce-1', ALICE_PUBLIC, ALICE_PUBLIC)
+    );
+  });
+});
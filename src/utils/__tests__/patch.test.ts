@@ -0,0 +1,62 @@
+import {parseUnifiedDiff, applyPatch} from '../patch';
+
+const original = ['import a from "a";', '', 'const x = 1;', 'const y = 2;', 'export {x, y};', ''].join('\n');
+
+const diff = [
+  'diff --git a/src/index.ts b/src/index.ts',
+  '--- a/src/index.ts',
+  '+++ b/src/index.ts',
+  '@@ -3,3 +3,4 @@',
+  ' const x = 1;',
+  '-const y = 2;',
+  '+const y = 3;',
+  '+const z = 4;',
+  ' export {x, y};',
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+  test('should read paths and number hunk lines', () => {
+    const patch = parseUnifiedDiff(diff);
+    expect(patch.oldPath).toBe('src/index.ts');
+    expect(patch.newPath).toBe('src/index.ts');
+    expect(patch.hunks).toHaveLength(1);
+    expect(patch.hunks[0].lines[1]).toEqual({type: 'remove', text: 'const y = 2;', oldNumber: 4});
+    expect(patch.hunks[0].lines[3]).toEqual({type: 'add', text: 'const z = 4;', newNumber: 5});
+    expect(patch.hunks[0].lines[4]).toEqual({type: 'context', text: 'export {x, y};', oldNumber: 5, newNumber: 6});
+  });
+
+  test('should treat /dev/null as a missing side', () => {
+    const patch = parseUnifiedDiff('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+one\n+two');
+    expect(patch.oldPath).toBeNull();
+    expect(applyPatch('', patch)).toBe('one\ntwo\n');
+  });
+
+  test('should reject text without hunks', () => {
+    expect(() => parseUnifiedDiff('just some prose')).toThrow('not a valid unified diff');
+  });
+});
+
+describe('applyPatch', () => {
+  test('should apply a hunk at its line', () => {
+    expect(applyPatch(original, parseUnifiedDiff(diff))).toBe(
+      ['import a from "a";', '', 'const x = 1;', 'const y = 3;', 'const z = 4;', 'export {x, y};', ''].join('\n')
+    );
+  });
+
+  test('should find a hunk whose lines moved', () => {
+    const shifted = `// header\n// more\n${original}`;
+    expect(applyPatch(shifted, parseUnifiedDiff(diff))).toContain('const y = 3;\nconst z = 4;\nexport');
+  });
+
+  test('should keep CRLF line endings', () => {
+    expect(applyPatch(original.replace(/\n/g, '\r\n'), parseUnifiedDiff(diff))).toContain(
+      'const y = 3;\r\nconst z = 4;\r\n'
+    );
+  });
+
+  test('should refuse a hunk that no longer matches', () => {
+    expect(() => applyPatch(original.replace('const y = 2;', 'const y = 5;'), parseUnifiedDiff(diff))).toThrow(
+      'no longer matches'
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import {searchSessions, groupSessions} from '../sessionList';
+import {ChatSession} from '../../types';
+
+const session = (id: string, day: number, extra: Partial<ChatSession> = {}): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  messages: [],
+  createdAt: new Date(Date.UTC(2024, 0, day)),
+  updatedAt: new Date(Date.UTC(2024, 0, day)),
+  ...extra,
+});
+
+const inProject = (path: string) =>
+  ({projectContext: {path, files: [], structure: {}}} as unknown as Partial<ChatSession>);
+
+const withMessages = (...contents: string[]) => ({
+  messages: contents.map((content, index) => ({
+    id: String(index),
+    content,
+    role: 'user' as const,
+    timestamp: new Date(Date.UTC(2024, 0, 1)),
+  })),
+});
+
+describe('groupSessions', () => {
+  test('should put pinned sessions first and group the rest by project', () => {
+    const sections = groupSessions([
+      session('a', 1, inProject('/code/api')),
+      session('b', 3),
+      session('c', 2, {...inProject('/code/web/'), pinned: true}),
+      session('d', 4, inProject('/code/api')),
+    ]);
+
+    expect(sections.map(section => section.title)).toEqual(['Pinned', 'api', 'No project']);
+    expect(sections[0].data.map(s => s.id)).toEqual(['c']);
+    expect(sections[1].data.map(s => s.id)).toEqual(['d', 'a']);
+  });
+});
+
+describe('searchSessions', () => {
+  const sessions = [
+    session('a', 1, withMessages('How do I configure the webpack dev server?', 'Use devServer.proxy')),
+    session('b', 2, {title: 'Webpack notes', ...withMessages('unrelated')}),
+    session('c', 3, withMessages('Something else entirely')),
+  ];
+
+  test('should return every session for an empty query', () => {
+    expect(searchSessions(sessions, '  ')).toHaveLength(3);
+  });
+
+  test('should match titles and message contents case-insensitively', () => {
+    const matches = searchSessions(sessions, 'WEBPACK');
+    expect(matches.map(match => match.session.id)).toEqual(['a', 'b']);
+    expect(matches[0].snippet).toBe('How do I configure the webpack dev server?');
+    expect(matches[1].snippet).toBeUndefined();
+  });
+
+  test('should require every term, in any message', () => {
+    expect(searchSessions(sessions, 'proxy configure').map(match => match.session.id)).toEqual(['a']);
+    expect(searchSessions(sessions, 'proxy missing')).toEqual([]);
+  });
+});
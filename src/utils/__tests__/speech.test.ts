@@ -0,0 +1,46 @@
+import {toSpeechChunks} from '../speech';
+
+describe('toSpeechChunks', () => {
+  test('should split replies into sentences', () => {
+    expect(toSpeechChunks('First point. Second one! Is it 3.14? Yes.')).toEqual([
+      'First point.',
+      'Second one!',
+      'Is it 3.14?',
+      'Yes.',
+    ]);
+  });
+
+  test('should split Chinese sentences without spaces', () => {
+    expect(toSpeechChunks('这个函数有问题。请检查参数！好吗')).toEqual([
+      '这个函数有问题。',
+      '请检查参数！',
+      '好吗。',
+    ]);
+  });
+
+  test('should summarise code blocks instead of reading them', () => {
+    expect(toSpeechChunks('Try this:\n```ts\nconst a = 1;\nconst b = 2;\n```\nThen run it')).toEqual([
+      'Try this:',
+      "There's a 2-line TypeScript code block on screen.",
+      'Then run it.',
+    ]);
+  });
+
+  test('should strip inline markup and read headings and list items separately', () => {
+    expect(
+      toSpeechChunks('## Steps\n- Run **`npm install`**\n- See [the docs](https://x.dev) or https://x.dev')
+    ).toEqual(['Steps.', 'Run npm install.', 'See the docs or a link.']);
+  });
+
+  test('should describe long inline code', () => {
+    expect(toSpeechChunks('Use `' + 'x'.repeat(60) + '` here.')).toEqual(['Use a code snippet here.']);
+  });
+
+  test('should break very long sentences at clause boundaries', () => {
+    const clause = 'word '.repeat(30).trim();
+    const chunks = toSpeechChunks(`${clause}, ${clause}, ${clause}.`);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(250));
+    expect(chunks.join(' ')).toBe(`${clause}, ${clause}, ${clause}.`);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  getLanguageForExtension,
+  tokenizeLine,
+  tokenizeLines,
+  applyMatchRanges,
+  findMatches,
+} from '../syntaxHighlight';
+
+const types = (tokens: Array<{text: string; type: string}>) =>
+  tokens.filter(token => token.text.trim()).map(token => `${token.type}:${token.text.trim()}`);
+
+describe('getLanguageForExtension', () => {
+  test('should map extensions with or without a dot', () => {
+    expect(getLanguageForExtension('.tsx')).toBe('javascript');
+    expect(getLanguageForExtension('PY')).toBe('python');
+    expect(getLanguageForExtension('unknown')).toBeNull();
+  });
+});
+
+describe('tokenizeLine', () => {
+  test('should classify keywords, strings, numbers and comments', () => {
+    const {tokens} = tokenizeLine("const answer = getValue('x', 42); // done", 'javascript');
+    expect(types(tokens)).toEqual([
+      'keyword:const',
+      'plain:answer =',
+      'function:getValue',
+      'plain:(',
+      "string:'x'",
+      'plain:,',
+      'number:42',
+      'plain:);',
+      'comment:// done',
+    ]);
+  });
+
+  test('should not treat digits inside identifiers as numbers', () => {
+    const {tokens} = tokenizeLine('let value2 = x1', 'javascript');
+    expect(tokens.some(token => token.type === 'number')).toBe(false);
+  });
+
+  test('should handle escaped quotes', () => {
+    const {tokens} = tokenizeLine('x = "say \\"hi\\"" + y', 'javascript');
+    expect(tokens.find(token => token.type === 'string')!.text).toBe('"say \\"hi\\""');
+  });
+
+  test('should leave unknown languages unhighlighted', () => {
+    expect(tokenizeLine('const x = 1', null).tokens).toEqual([{text: 'const x = 1', type: 'plain'}]);
+  });
+});
+
+describe('tokenizeLines', () => {
+  test('should carry block comments across lines', () => {
+    const lines = tokenizeLines(['a /* start', 'middle', 'end */ b'], 'javascript');
+    expect(lines[1]).toEqual([{text: 'middle', type: 'comment'}]);
+    expect(types(lines[2])).toEqual(['comment:end */', 'plain:b']);
+  });
+
+  test('should carry python triple-quoted strings across lines', () => {
+    const lines = tokenizeLines(['doc = """first', 'second', 'third""" + x'], 'python');
+    expect(lines[1]).toEqual([{text: 'second', type: 'string'}]);
+    expect(types(lines[2])).toEqual(['string:third"""', 'plain:+ x']);
+  });
+
+  test('should tokenize a 10k-line file quickly', () => {
+    const source = Array.from({length: 10000}, (_, i) => `  const value${i} = compute(${i}, 'text'); // line`);
+    const startedAt = Date.now();
+    const lines = tokenizeLines(source, 'javascript');
+    expect(lines).toHaveLength(10000);
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+  });
+});
+
+describe('search', () => {
+  test('should find case-insensitive matches on every line', () => {
+    expect(findMatches(['Foo foo', 'bar', 'FOO'], 'foo')).toEqual([
+      {line: 0, start: 0, end: 3},
+      {line: 0, start: 4, end: 7},
+      {line: 2, start: 0, end: 3},
+    ]);
+  });
+
+  test('should keep offsets on the original line', () => {
+    expect(findMatches(['İstanbul Foo'], 'foo')).toEqual([{line: 0, start: 9, end: 12}]);
+    expect(findMatches(['a.b (c)'], '(c)')).toEqual([{line: 0, start: 4, end: 7}]);
+  });
+
+  test('should split tokens around matches', () => {
+    const {tokens} = tokenizeLine('return value', 'javascript');
+    const highlighted = applyMatchRanges(tokens, [{start: 4, end: 9}]);
+    expect(highlighted.map(token => [token.text, token.type, token.isMatch])).toEqual([
+      ['retu', 'keyword', false],
+      ['rn', 'keyword', true],
+      [' va', 'plain', true],
+      ['lue', 'plain', false],
+    ]);
+  });
+});
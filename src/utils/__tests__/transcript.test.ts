@@ -0,0 +1,75 @@
+import {buildVocabulary, normalizeTranscript} from '../transcript';
+
+describe('normalizeTranscript', () => {
+  test('should leave ordinary sentences alone', () => {
+    expect(normalizeTranscript('Why does the build fail on my app?')).toBe(
+      'Why does the build fail on my app?'
+    );
+  });
+
+  test('should spell common developer terms', () => {
+    expect(normalizeTranscript('what does use state return')).toBe('what does useState return');
+    expect(normalizeTranscript('Use effect runs twice.')).toBe('useEffect runs twice.');
+    expect(normalizeTranscript('update package dot json and the type script config')).toBe(
+      'update package.json and the TypeScript config'
+    );
+  });
+
+  test('should turn spoken symbols into characters when dictating code', () => {
+    expect(normalizeTranscript('type foo open paren bar comma baz close paren')).toBe(
+      'foo(bar, baz)'
+    );
+    expect(
+      normalizeTranscript('Type if count triple equals zero open brace return close brace')
+    ).toBe('if count === zero { return }');
+    expect(normalizeTranscript('type import from dot dot slash utils')).toBe(
+      'import from ../utils'
+    );
+    expect(normalizeTranscript('type call dot dot dot args. Is that right?')).toBe(
+      'call ...args. Is that right?'
+    );
+  });
+
+  test('should leave symbol words in prose alone', () => {
+    [
+      'convert this to an arrow function',
+      'why does the pipe fail',
+      'a colon missing',
+      'the dot product',
+      'what type of comma is that',
+    ].forEach(text => expect(normalizeTranscript(text)).toBe(text));
+  });
+
+  test('should build identifiers from casing commands', () => {
+    expect(normalizeTranscript('rename it to camel case get user name')).toBe(
+      'rename it to getUserName'
+    );
+    expect(normalizeTranscript('pascal case chat screen is slow')).toBe('ChatScreen is slow');
+    expect(normalizeTranscript('snake case user id equals null')).toBe('user_id = null');
+    expect(normalizeTranscript('constant case max chunk length')).toBe('MAX_CHUNK_LENGTH');
+    expect(normalizeTranscript('kebab case my cool app end case builds')).toBe('my-cool-app builds');
+  });
+
+  test('should keep recogniser punctuation after converted words', () => {
+    expect(normalizeTranscript('Is it camel case user name, or snake case user name?')).toBe(
+      'Is it userName, or user_name?'
+    );
+  });
+
+  test('should prefer names from the open project', () => {
+    const vocabulary = buildVocabulary(['ApiService.ts', 'ChatScreen.tsx', 'App.tsx']);
+
+    expect(normalizeTranscript('open api service dot ts', vocabulary)).toBe('open ApiService.ts');
+    expect(normalizeTranscript('what does chat screen render', vocabulary)).toBe(
+      'what does ChatScreen render'
+    );
+    expect(normalizeTranscript('the app dot tsx file', vocabulary)).toBe('the App.tsx file');
+    // Single-word names would hijack ordinary words
+    expect(normalizeTranscript('restart the app', vocabulary)).toBe('restart the app');
+  });
+
+  test('should be stable on text that is already normalized', () => {
+    const text = 'useState(count) in ApiService.ts (json)';
+    expect(normalizeTranscript(text, buildVocabulary(['ApiService.ts']))).toBe(text);
+  });
+});
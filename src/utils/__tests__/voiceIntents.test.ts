@@ -0,0 +1,92 @@
+import {parseVoiceCommand, findBestMatch, stripWakePhrase} from '../voiceIntents';
+
+describe('parseVoiceCommand', () => {
+  test('should extract the project name in either word order', () => {
+    expect(parseVoiceCommand('Open project Stratosphere Mobile')).toEqual({
+      type: 'openProject',
+      name: 'stratosphere mobile',
+    });
+    expect(parseVoiceCommand('switch to the backend repo')).toEqual({
+      type: 'openProject',
+      name: 'backend',
+    });
+  });
+
+  test('should turn spoken symbols in file paths into characters', () => {
+    expect(parseVoiceCommand('read file src slash App dot tsx')).toEqual({
+      type: 'readFile',
+      path: 'src/app.tsx',
+    });
+    expect(parseVoiceCommand('show me the file read underscore me dash two dot md')).toEqual({
+      type: 'readFile',
+      path: 'read_me-two.md',
+    });
+  });
+
+  test('should ignore wake words, politeness and punctuation', () => {
+    expect(parseVoiceCommand('Hey Stratosphere, start a new chat please.')).toEqual({type: 'newChat'});
+    expect(parseVoiceCommand('Could you tell me the git status?')).toEqual({type: 'gitStatus'});
+    expect(parseVoiceCommand('Stop talking!')).toEqual({type: 'stopSpeaking'});
+    expect(parseVoiceCommand('say that again')).toEqual({type: 'repeat'});
+  });
+
+  test('should pass anything else through as a prompt', () => {
+    expect(parseVoiceCommand('  How do I open a file in Node? ')).toEqual({
+      type: 'prompt',
+      text: 'How do I open a file in Node?',
+    });
+    expect(parseVoiceCommand('stop the server when tests finish')).toEqual({
+      type: 'prompt',
+      text: 'stop the server when tests finish',
+    });
+  });
+});
+
+describe('findBestMatch', () => {
+  const projects = ['stratosphere-mobile', 'stratosphere-desktop', 'website'];
+
+  test('should match names regardless of spacing and punctuation', () => {
+    expect(findBestMatch('stratosphere mobile', projects)).toEqual({
+      value: 'stratosphere-mobile',
+      score: 1,
+    });
+  });
+
+  test('should tolerate misheard names', () => {
+    expect(findBestMatch('web sight', projects)?.value).toBe('website');
+    expect(findBestMatch('stratosfear desktop', projects)?.value).toBe('stratosphere-desktop');
+  });
+
+  test('should match files by path or by name', () => {
+    const files = ['src/App.tsx', 'src/screens/ChatScreen.tsx', 'package.json'];
+    expect(findBestMatch('src/app.tsx', files)?.value).toBe('src/App.tsx');
+    expect(findBestMatch('chat screen.tsx', files)?.value).toBe('src/screens/ChatScreen.tsx');
+  });
+
+  test('should give up on names that are not close', () => {
+    expect(findBestMatch('kubernetes', projects)).toBeNull();
+  });
+});
+
+describe('stripWakePhrase', () => {
+  test('should return what was said after the wake phrase', () => {
+    expect(stripWakePhrase('Hey Stratosphere, what does this function do?')).toBe(
+      'what does this function do?'
+    );
+    expect(stripWakePhrase('um hey stratosphere open the mobile project')).toBe(
+      'open the mobile project'
+    );
+  });
+
+  test('should accept misheard and merged wake phrases', () => {
+    expect(stripWakePhrase('hey stratosfear git status')).toBe('git status');
+    expect(stripWakePhrase('heystratosphere')).toBe('');
+    expect(stripWakePhrase('hey strato sphere new chat')).toBe('new chat');
+  });
+
+  test('should return null when the wake phrase was not said', () => {
+    expect(stripWakePhrase('what does this function do')).toBeNull();
+    expect(stripWakePhrase('hey there')).toBeNull();
+    expect(stripWakePhrase('')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+// A file picked on the phone, before it's uploaded
+export interface PickedFile {
+  uri: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+export const MAX_ATTACHMENTS = 5;
+// Screenshots and whiteboard photos fit easily; bigger files take too long
+// over the bridge and the model can't use most of them anyway
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+// Pickers don't always know the type, so logs and text files go by extension
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip',
+};
+
+export const guessMimeType = (name: string, reported?: string | null): string => {
+  if (reported && reported !== 'application/octet-stream') {
+    return reported;
+  }
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[extension] || reported || 'application/octet-stream';
+};
+
+export const isImage = (mimeType: string): boolean => mimeType.startsWith('image/');
+
+// Ionicons name for an attachment card
+export const getAttachmentIcon = (mimeType: string): string => {
+  if (isImage(mimeType)) return 'image-outline';
+  if (mimeType === 'application/pdf') return 'document-attach-outline';
+  if (mimeType.startsWith('text/') || mimeType === 'application/json') return 'document-text-outline';
+  if (mimeType === 'application/zip') return 'archive-outline';
+  return 'document-outline';
+};
+
+// Splits newly picked files into those that fit alongside the ones already
+// attached and a reason for each that doesn't
+export const checkAttachmentLimits = (
+  picked: PickedFile[],
+  attached: Array<{size: number}> = []
+): {accepted: PickedFile[]; rejected: string[]} => {
+  const accepted: PickedFile[] = [];
+  const rejected: string[] = [];
+  let count = attached.length;
+  let total = attached.reduce((sum, file) => sum + file.size, 0);
+
+  picked.forEach(file => {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      rejected.push(`${file.name} is larger than 10 MB`);
+    } else if (count >= MAX_ATTACHMENTS) {
+      rejected.push(`${file.name}: only ${MAX_ATTACHMENTS} files can be attached to a message`);
+    } else if (total + file.size > MAX_TOTAL_ATTACHMENT_SIZE) {
+      rejected.push(`${file.name}: attachments can't add up to more than 25 MB`);
+    } else {
+      accepted.push(file);
+      count++;
+      total += file.size;
+    }
+  });
+
+  return {accepted, rejected};
+};
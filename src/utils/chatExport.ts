@@ -0,0 +1,185 @@
+import {ChatSession, EditStatus, Message, MessageAttachment, MessageEdit} from '../types';
+import {formatFileSize} from './fileTree';
+
+export const EXPORT_FORMAT = 'stratosphere-chat';
+export const EXPORT_VERSION = 1;
+
+interface ExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: ChatSession[];
+}
+
+const ROLE_NAMES: Record<Message['role'], string> = {
+  user: 'You',
+  assistant: 'Assistant',
+};
+
+const formatTimestamp = (date: Date) =>
+  new Date(date).toISOString().replace('T', ' ').substring(0, 16) + ' UTC';
+
+// A reply cut off mid-block would swallow everything after it
+const closeFences = (content: string) => {
+  const fences = content.split('\n').filter(line => /^\s*(```|~~~)/.test(line)).length;
+  return fences % 2 === 1 ? `${content}\n\`\`\`` : content;
+};
+
+export const sessionToMarkdown = (session: ChatSession): string => {
+  const lines = [`# ${session.title}`, ''];
+  lines.push(`- Created: ${formatTimestamp(session.createdAt)}`);
+  lines.push(`- Updated: ${formatTimestamp(session.updatedAt)}`);
+  if (session.projectContext?.path) {
+    lines.push(`- Project: \`${session.projectContext.path}\``);
+  }
+
+  session.messages.forEach(message => {
+    lines.push('', '---', '');
+    const voice = message.isVoice ? ' (voice)' : '';
+    lines.push(`## ${ROLE_NAMES[message.role]}${voice} · ${formatTimestamp(message.timestamp)}`, '');
+    lines.push(closeFences(message.content.trim()));
+
+    message.attachments?.forEach(attachment => {
+      lines.push('', `**Attached \`${attachment.name}\`** (${formatFileSize(attachment.size)})`);
+    });
+
+    message.edits?.forEach(edit => {
+      lines.push('', `**Proposed edit to \`${edit.filePath}\`** (${edit.status})`);
+      if (edit.description) {
+        lines.push('', edit.description);
+      }
+      lines.push('', '```diff', edit.diff.replace(/\n$/, ''), '```');
+    });
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+// Everything needed to recreate the sessions, minus in-memory state
+export const sessionsToJson = (sessions: ChatSession[]): string => {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions: sessions.map(({messageOffset, preview, ...session}) => ({
+      ...session,
+      messages: session.messages
+        .filter(message => !message.isLoading)
+        // Recordings and picked copies of attachments are files on this device
+        .map(({isStreaming, audio, ...message}) =>
+          message.attachments
+            ? {
+                ...message,
+                attachments: message.attachments.map(({localUri, ...attachment}) => attachment),
+              }
+            : message
+        ),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const toDate = (value: any, field: string): Date => {
+  const date = new Date(value);
+  if (value === undefined || isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field} in chat export`);
+  }
+  return date;
+};
+
+const EDIT_STATUSES: EditStatus[] = ['pending', 'applied', 'rejected', 'reverted'];
+
+const optionalString = (value: any): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+// Only what a chat shows is imported. Paths to recordings, paging state, sync
+// ids and applied edits describe files and storage on the device that made
+// the export, and acting on them here could touch the wrong files.
+const toMessage = (message: any): Message => {
+  if (
+    typeof message?.id !== 'string' ||
+    typeof message.content !== 'string' ||
+    (message.role !== 'user' && message.role !== 'assistant')
+  ) {
+    throw new Error('Chat export contains an invalid message');
+  }
+
+  const edits = Array.isArray(message.edits)
+    ? message.edits.map((edit: any): MessageEdit => {
+        if (typeof edit?.id !== 'string' || typeof edit.filePath !== 'string' || typeof edit.diff !== 'string') {
+          throw new Error('Chat export contains an invalid edit');
+        }
+        return {
+          id: edit.id,
+          filePath: edit.filePath,
+          diff: edit.diff,
+          description: optionalString(edit.description),
+          status: EDIT_STATUSES.includes(edit.status) ? edit.status : 'pending',
+        };
+      })
+    : undefined;
+
+  const attachments = Array.isArray(message.attachments)
+    ? message.attachments.map((attachment: any): MessageAttachment => {
+        if (typeof attachment?.id !== 'string' || typeof attachment.name !== 'string') {
+          throw new Error('Chat export contains an invalid attachment');
+        }
+        return {
+          id: attachment.id,
+          name: attachment.name,
+          mimeType: String(attachment.mimeType || 'application/octet-stream'),
+          size: Number(attachment.size) || 0,
+        };
+      })
+    : undefined;
+
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: toDate(message.timestamp, 'message date'),
+    ...(message.isVoice === true ? {isVoice: true} : {}),
+    ...(edits ? {edits} : {}),
+    ...(attachments ? {attachments} : {}),
+  };
+};
+
+export const parseSessionsJson = (text: string): ChatSession[] => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (file?.format !== EXPORT_FORMAT || !Array.isArray(file.sessions)) {
+    throw new Error('This file is not a Stratosphere chat export');
+  }
+  if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+    throw new Error('This chat export was made by a newer version of the app');
+  }
+
+  return file.sessions.map((session: any): ChatSession => {
+    if (typeof session?.id !== 'string' || !Array.isArray(session.messages)) {
+      throw new Error('Chat export contains an invalid session');
+    }
+    return {
+      id: session.id,
+      title: String(session.title || 'Imported Chat'),
+      createdAt: toDate(session.createdAt, 'session date'),
+      updatedAt: toDate(session.updatedAt, 'session date'),
+      ...(session.pinned === true ? {pinned: true} : {}),
+      ...(typeof session.speechLanguage === 'string' ? {speechLanguage: session.speechLanguage} : {}),
+      messages: session.messages.map(toMessage),
+    };
+  });
+};
+
+export const exportFileName = (session: ChatSession, extension: 'md' | 'json') => {
+  const slug = session.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 40);
+  return `${slug || 'chat'}-${new Date(session.createdAt).toISOString().substring(0, 10)}.${extension}`;
+};
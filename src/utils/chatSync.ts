@@ -0,0 +1,90 @@
+import {ChatMessage} from '../services/ApiService';
+import {Message} from '../types';
+import {toMessageEdits} from './messages';
+
+// Messages without a known server id only match by content, if their
+// timestamps are this close
+const LEGACY_MATCH_WINDOW_MS = 2 * 60 * 1000;
+
+const fromRemote = (remote: ChatMessage): Message => ({
+  id: remote.id,
+  remoteId: remote.id,
+  content: remote.content,
+  role: remote.role,
+  timestamp: new Date(remote.timestamp),
+  isVoice: remote.isVoice,
+  edits: toMessageEdits(remote.edits),
+  attachments: remote.attachments,
+});
+
+const isLegacyMatch = (local: Message, remote: ChatMessage, remoteIds: Set<string>) =>
+  (!local.remoteId || !remoteIds.has(local.remoteId)) &&
+  local.role === remote.role &&
+  local.content === remote.content &&
+  Math.abs(new Date(local.timestamp).getTime() - new Date(remote.timestamp).getTime()) <=
+    LEGACY_MATCH_WINDOW_MS;
+
+// Folds the server's copy of a conversation into the local one. Local
+// messages keep their ids and state; the server's content wins once a
+// message is complete.
+export const mergeMessages = (local: Message[], remote: ChatMessage[]): Message[] => {
+  const merged = [...local];
+  const remoteIds = new Set(remote.map(message => message.id));
+  const indexByKey = new Map<string, number>();
+  merged.forEach((message, index) => indexByKey.set(message.remoteId || message.id, index));
+
+  remote.forEach(remoteMessage => {
+    let index = indexByKey.get(remoteMessage.id);
+    if (index === undefined) {
+      index = merged.findIndex(message => isLegacyMatch(message, remoteMessage, remoteIds));
+    }
+
+    if (index === undefined || index === -1) {
+      merged.push(fromRemote(remoteMessage));
+      indexByKey.set(remoteMessage.id, merged.length - 1);
+      return;
+    }
+
+    const existing = merged[index];
+    merged[index] = {
+      ...existing,
+      remoteId: remoteMessage.id,
+      content: existing.isStreaming ? existing.content : remoteMessage.content,
+      edits: existing.edits || toMessageEdits(remoteMessage.edits),
+      attachments: existing.attachments || remoteMessage.attachments,
+    };
+    indexByKey.set(remoteMessage.id, index);
+  });
+
+  // Stable, so messages with equal timestamps keep their order
+  return merged
+    .map((message, index) => ({message, index}))
+    .sort(
+      (a, b) =>
+        new Date(a.message.timestamp).getTime() - new Date(b.message.timestamp).getTime() ||
+        a.index - b.index
+    )
+    .map(({message}) => message);
+};
+
+// Messages the server has never seen. Anything still in flight, waiting in
+// the outbox or only meaningful on this device stays put.
+export const getLocalOnlyMessages = (messages: Message[], pendingIds: Set<string>): Message[] =>
+  messages.filter(
+    message =>
+      !message.remoteId &&
+      !message.localOnly &&
+      !message.isLoading &&
+      !message.isStreaming &&
+      !pendingIds.has(message.id)
+  );
+
+export const toChatMessage = (message: Message): ChatMessage => ({
+  id: message.id,
+  role: message.role,
+  content: message.content,
+  isVoice: message.isVoice,
+  timestamp: message.timestamp,
+  // The thumbnail path only means something on this device
+  attachments: message.attachments?.map(({localUri, ...attachment}) => attachment),
+});
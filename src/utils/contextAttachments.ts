@@ -0,0 +1,93 @@
+import {ContextAttachment, ProjectFile} from '../types';
+
+// An "@query" being typed in the chat input
+export interface Mention {
+  query: string;
+  // Where the "@" is and where the query ends
+  start: number;
+  end: number;
+}
+
+// What the computer receives for each attachment
+export interface ContextFile {
+  path: string;
+  content: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+// Above this the model starts losing track of the conversation itself
+export const MAX_CONTEXT_TOKENS = 32000;
+
+const MAX_MENTION_RESULTS = 8;
+
+// The "@" only counts at the start of a word, so emails aren't mentions
+export const findMention = (text: string, cursor: number = text.length): Mention | null => {
+  const before = text.slice(0, cursor);
+  const match = before.match(/(^|\s)@([^\s@]*)$/);
+  if (!match) return null;
+  const start = cursor - match[2].length - 1;
+  return {query: match[2], start, end: cursor};
+};
+
+export const removeMention = (text: string, mention: Mention): string => {
+  const before = text.slice(0, mention.start);
+  const after = text.slice(mention.end);
+  // Don't leave a double space where the mention was
+  return before.endsWith(' ') && after.startsWith(' ') ? before + after.slice(1) : before + after;
+};
+
+// Names that start with the query first, then names containing it, then
+// paths containing it; shallower files win ties
+export const matchFiles = (
+  files: ProjectFile[],
+  query: string,
+  limit: number = MAX_MENTION_RESULTS
+): ProjectFile[] => {
+  const target = query.toLowerCase();
+  const rank = (file: ProjectFile) => {
+    const name = file.name.toLowerCase();
+    if (name.startsWith(target)) return 0;
+    if (name.includes(target)) return 1;
+    if (file.relativePath.toLowerCase().includes(target)) return 2;
+    return -1;
+  };
+
+  return files
+    .map(file => ({file, rank: rank(file)}))
+    .filter(entry => entry.rank >= 0)
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        a.file.relativePath.split('/').length - b.file.relativePath.split('/').length ||
+        a.file.relativePath.localeCompare(b.file.relativePath)
+    )
+    .slice(0, limit)
+    .map(entry => entry.file);
+};
+
+// Roughly four characters to a token for code and English alike
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const formatTokenCount = (tokens: number): string =>
+  tokens < 1000 ? `~${tokens} tokens` : `~${parseFloat((tokens / 1000).toFixed(1))}k tokens`;
+
+export const attachmentLabel = (attachment: ContextAttachment): string => {
+  const {name, startLine, endLine} = attachment;
+  if (startLine === undefined) return name;
+  return endLine === undefined || endLine === startLine
+    ? `${name}:${startLine}`
+    : `${name}:${startLine}-${endLine}`;
+};
+
+export const isSameAttachment = (
+  a: Omit<ContextAttachment, 'id'>,
+  b: Omit<ContextAttachment, 'id'>
+): boolean => a.path === b.path && a.startLine === b.startLine && a.endLine === b.endLine;
+
+export const toContextFiles = (attachments: ContextAttachment[]): ContextFile[] =>
+  attachments.map(({path, content, startLine, endLine}) => ({
+    path,
+    content,
+    ...(startLine !== undefined ? {startLine, endLine} : {}),
+  }));
@@ -0,0 +1,221 @@
+// Minimal SHA-256 / HMAC-SHA256 implementation. React Native has no
+// SubtleCrypto, and these are only used to sign bridge requests.
+
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+export const utf8Encode = (text: string): number[] => {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+    // Combine surrogate pairs into a single code point
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      const next = text.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+  return bytes;
+};
+
+export const toHex = (bytes: number[]): string =>
+  bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256Bytes = (message: number[]): number[] => {
+  const h = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+
+  const bitLength = message.length * 8;
+  const padded = [...message, 0x80];
+  while (padded.length % 64 !== 56) {
+    padded.push(0);
+  }
+  // 64-bit big-endian length; messages here never exceed 2^32 bits
+  padded.push(0, 0, 0, 0);
+  padded.push((bitLength >>> 24) & 255, (bitLength >>> 16) & 255, (bitLength >>> 8) & 255, bitLength & 255);
+
+  const w = new Array<number>(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = ((padded[j] << 24) | (padded[j + 1] << 16) | (padded[j + 2] << 8) | padded[j + 3]) >>> 0;
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (hh + S1 + ch + K[i] + w[i]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) >>> 0;
+
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    h[0] = (h[0] + a) >>> 0;
+    h[1] = (h[1] + b) >>> 0;
+    h[2] = (h[2] + c) >>> 0;
+    h[3] = (h[3] + d) >>> 0;
+    h[4] = (h[4] + e) >>> 0;
+    h[5] = (h[5] + f) >>> 0;
+    h[6] = (h[6] + g) >>> 0;
+    h[7] = (h[7] + hh) >>> 0;
+  }
+
+  const digest: number[] = [];
+  h.forEach(value => {
+    digest.push((value >>> 24) & 255, (value >>> 16) & 255, (value >>> 8) & 255, value & 255);
+  });
+  return digest;
+};
+
+const rotr = (value: number, bits: number): number =>
+  ((value >>> bits) | (value << (32 - bits))) >>> 0;
+
+export const sha256 = (text: string): string => toHex(sha256Bytes(utf8Encode(text)));
+
+export const hmacSha256 = (key: string, message: string): string => {
+  let keyBytes = utf8Encode(key);
+  if (keyBytes.length > 64) {
+    keyBytes = sha256Bytes(keyBytes);
+  }
+  while (keyBytes.length < 64) {
+    keyBytes.push(0);
+  }
+
+  const inner = keyBytes.map(byte => byte ^ 0x36);
+  const outer = keyBytes.map(byte => byte ^ 0x5c);
+  const innerHash = sha256Bytes([...inner, ...utf8Encode(message)]);
+  return toHex(sha256Bytes([...outer, ...innerHash]));
+};
+
+export const fromHex = (hex: string): number[] =>
+  (hex.match(/[0-9a-f]{2}/gi) || []).map(byte => parseInt(byte, 16));
+
+// X25519 (RFC 7748) for the key exchange when pairing. It runs once per
+// pairing, so plain BigInt arithmetic is fast enough.
+const P = (BigInt(1) << BigInt(255)) - BigInt(19);
+const A24 = BigInt(121665);
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+const mod = (value: bigint): bigint => {
+  const result = value % P;
+  return result < ZERO ? result + P : result;
+};
+
+const powMod = (base: bigint, exponent: bigint): bigint => {
+  let result = ONE;
+  let b = mod(base);
+  let e = exponent;
+  while (e > ZERO) {
+    if (e & ONE) {
+      result = mod(result * b);
+    }
+    b = mod(b * b);
+    e >>= ONE;
+  }
+  return result;
+};
+
+const decodeLittleEndian = (bytes: number[]): bigint =>
+  bytes.reduceRight((value, byte) => (value << BigInt(8)) | BigInt(byte), ZERO);
+
+const encodeLittleEndian = (value: bigint): number[] => {
+  const bytes: number[] = [];
+  let rest = value;
+  for (let i = 0; i < 32; i++) {
+    bytes.push(Number(rest & BigInt(255)));
+    rest >>= BigInt(8);
+  }
+  return bytes;
+};
+
+export const X25519_BASE_POINT = [9, ...new Array<number>(31).fill(0)];
+
+export const x25519 = (scalar: number[], point: number[]): number[] => {
+  if (scalar.length !== 32 || point.length !== 32) {
+    throw new Error('X25519 keys are 32 bytes');
+  }
+  const k = [...scalar];
+  k[0] &= 248;
+  k[31] = (k[31] & 127) | 64;
+  const u = [...point];
+  u[31] &= 127;
+
+  const x1 = mod(decodeLittleEndian(u));
+  let x2 = ONE;
+  let z2 = ZERO;
+  let x3 = x1;
+  let z3 = ONE;
+  let swap = 0;
+
+  for (let t = 254; t >= 0; t--) {
+    const bit = (k[t >> 3] >> (t & 7)) & 1;
+    if (swap ^ bit) {
+      [x2, x3] = [x3, x2];
+      [z2, z3] = [z3, z2];
+    }
+    swap = bit;
+
+    const a = mod(x2 + z2);
+    const aa = mod(a * a);
+    const b = mod(x2 - z2);
+    const bb = mod(b * b);
+    const e = mod(aa - bb);
+    const c = mod(x3 + z3);
+    const d = mod(x3 - z3);
+    const da = mod(d * a);
+    const cb = mod(c * b);
+    x3 = mod((da + cb) * (da + cb));
+    z3 = mod(x1 * mod((da - cb) * (da - cb)));
+    x2 = mod(aa * bb);
+    z2 = mod(e * (aa + mod(A24 * e)));
+  }
+  if (swap) {
+    [x2, x3] = [x3, x2];
+    [z2, z3] = [z3, z2];
+  }
+
+  return encodeLittleEndian(mod(x2 * powMod(z2, P - BigInt(2))));
+};
@@ -0,0 +1,187 @@
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based; absent on the side the line doesn't exist in
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export const splitLines = (text: string): string[] => (text === '' ? [] : text.split(/\r?\n/));
+
+// Myers' O(ND) diff over the lines between the common prefix and suffix
+const diffMiddle = (a: string[], b: string[]): Array<{type: DiffLineType; text: string}> => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const result: Array<{type: DiffLineType; text: string}> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({type: 'context', text: a[x - 1]});
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push({type: 'add', text: b[y - 1]});
+      } else {
+        result.push({type: 'remove', text: a[x - 1]});
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+};
+
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const script = [
+    ...a.slice(0, prefix).map(text => ({type: 'context' as DiffLineType, text})),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(text => ({type: 'context' as DiffLineType, text})),
+  ];
+
+  let oldNumber = 0;
+  let newNumber = 0;
+  return script.map(({type, text}) => {
+    if (type === 'context') {
+      return {type, text, oldNumber: ++oldNumber, newNumber: ++newNumber};
+    }
+    if (type === 'remove') {
+      return {type, text, oldNumber: ++oldNumber};
+    }
+    return {type, text, newNumber: ++newNumber};
+  });
+};
+
+// Groups changes with a few lines of surrounding context, like `diff -U`
+export const toHunks = (lines: DiffLine[], context: number = 3): DiffHunk[] => {
+  // Each change plus its context, merged when they touch
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.type === 'context') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const before = lines.slice(0, start);
+    const oldBefore = before.filter(line => line.type !== 'add').length;
+    const newBefore = before.filter(line => line.type !== 'remove').length;
+    const oldLines = hunkLines.filter(line => line.type !== 'add').length;
+    const newLines = hunkLines.filter(line => line.type !== 'remove').length;
+    // An empty side points at the line it follows
+    return {
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines,
+    };
+  });
+};
+
+export const countChanges = (lines: DiffLine[]) => ({
+  additions: lines.filter(line => line.type === 'add').length,
+  deletions: lines.filter(line => line.type === 'remove').length,
+});
+
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Pairs each run of removals with the additions that follow it, for a
+// side-by-side view
+export const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.type === 'context') {
+      rows.push({left: line, right: line});
+      index++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'remove') {
+      removed.push(lines[index++]);
+    }
+    while (index < lines.length && lines[index].type === 'add') {
+      added.push(lines[index++]);
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({left: removed[row], right: added[row]});
+    }
+  }
+  return rows;
+};
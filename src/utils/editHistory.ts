@@ -0,0 +1,59 @@
+export interface EditHistory {
+  past: string[];
+  present: string;
+  future: string[];
+  lastEditAt: number;
+}
+
+const MAX_UNDO_STEPS = 100;
+// Keystrokes closer together than this undo as one step
+const COALESCE_MS = 1000;
+
+export const createHistory = (text: string): EditHistory => ({
+  past: [],
+  present: text,
+  future: [],
+  lastEditAt: 0,
+});
+
+export const recordEdit = (
+  history: EditHistory,
+  text: string,
+  now: number = Date.now()
+): EditHistory => {
+  if (text === history.present) {
+    return history;
+  }
+
+  const coalesce = history.past.length > 0 && now - history.lastEditAt < COALESCE_MS;
+  return {
+    past: coalesce ? history.past : [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+    present: text,
+    future: [],
+    lastEditAt: now,
+  };
+};
+
+export const undo = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) {
+    return history;
+  }
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastEditAt: 0,
+  };
+};
+
+export const redo = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) {
+    return history;
+  }
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastEditAt: 0,
+  };
+};
@@ -0,0 +1,169 @@
+import {ProjectFile, ProjectFileInfo, ProjectStructure} from '../types';
+
+export interface FileTreeEntry {
+  name: string;
+  // Project-relative, always '/'-separated
+  relativePath: string;
+  isDirectory: boolean;
+  // For folders, the total size of every file inside
+  size: number;
+  extension: string;
+  childCount: number;
+}
+
+export const isFileInfo = (node: ProjectStructure | ProjectFileInfo): node is ProjectFileInfo =>
+  (node as ProjectFileInfo).type === 'file';
+
+export const normalizeExtension = (extension: string = ''): string =>
+  extension.replace(/^\./, '').toLowerCase();
+
+export const getExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? normalizeExtension(fileName.slice(dotIndex + 1)) : '';
+};
+
+export const toRelativePath = (path: string): string =>
+  path.replace(/\\/g, '/').replace(/^\/+/, '');
+
+// Older bridges only send the flat file list, so the tree is rebuilt from it
+export const buildStructureFromFiles = (files: ProjectFile[]): ProjectStructure => {
+  const root: ProjectStructure = {};
+
+  files.forEach(file => {
+    const segments = toRelativePath(file.relativePath).split('/').filter(Boolean);
+    let node = root;
+    segments.forEach((segment, index) => {
+      if (index === segments.length - 1) {
+        node[segment] = {
+          type: 'file',
+          size: file.size,
+          extension: normalizeExtension(file.extension) || getExtension(segment),
+        };
+      } else {
+        const child = node[segment];
+        if (!child || isFileInfo(child)) {
+          node[segment] = {};
+        }
+        node = node[segment] as ProjectStructure;
+      }
+    });
+  });
+
+  return root;
+};
+
+export const getDirectory = (
+  structure: ProjectStructure,
+  segments: string[]
+): ProjectStructure | null => {
+  let node: ProjectStructure = structure;
+  for (const segment of segments) {
+    const child = node[segment];
+    if (!child || isFileInfo(child)) {
+      return null;
+    }
+    node = child;
+  }
+  return node;
+};
+
+const getDirectorySize = (directory: ProjectStructure): number =>
+  Object.values(directory).reduce(
+    (total, node) => total + (isFileInfo(node) ? node.size || 0 : getDirectorySize(node)),
+    0
+  );
+
+// Folders first, then files, each alphabetically
+export const listDirectory = (structure: ProjectStructure, segments: string[]): FileTreeEntry[] => {
+  const directory = getDirectory(structure, segments);
+  if (!directory) {
+    return [];
+  }
+
+  return Object.keys(directory)
+    .map(name => {
+      const node = directory[name];
+      const relativePath = [...segments, name].join('/');
+      if (isFileInfo(node)) {
+        return {
+          name,
+          relativePath,
+          isDirectory: false,
+          size: node.size || 0,
+          extension: normalizeExtension(node.extension) || getExtension(name),
+          childCount: 0,
+        };
+      }
+      return {
+        name,
+        relativePath,
+        isDirectory: true,
+        size: getDirectorySize(node),
+        extension: '',
+        childCount: Object.keys(node).length,
+      };
+    })
+    .sort((a, b) => {
+      if (a.isDirectory !== b.isDirectory) {
+        return a.isDirectory ? -1 : 1;
+      }
+      return a.name.localeCompare(b.name, undefined, {sensitivity: 'base'});
+    });
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+// Ionicons name for a file extension
+export const getFileIcon = (extension: string): string => {
+  switch (normalizeExtension(extension)) {
+    case 'js':
+    case 'mjs':
+    case 'cjs':
+      return 'logo-javascript';
+    case 'jsx':
+    case 'tsx':
+      return 'logo-react';
+    case 'ts':
+      return 'code-slash';
+    case 'py':
+      return 'logo-python';
+    case 'html':
+    case 'htm':
+      return 'logo-html5';
+    case 'css':
+    case 'scss':
+    case 'less':
+      return 'logo-css3';
+    case 'md':
+    case 'markdown':
+      return 'logo-markdown';
+    case 'json':
+    case 'yml':
+    case 'yaml':
+    case 'toml':
+    case 'xml':
+      return 'settings-outline';
+    case 'sh':
+    case 'bash':
+    case 'zsh':
+      return 'terminal-outline';
+    case 'png':
+    case 'jpg':
+    case 'jpeg':
+    case 'gif':
+    case 'svg':
+    case 'webp':
+      return 'image-outline';
+    case 'txt':
+    case 'log':
+      return 'document-text-outline';
+    default:
+      return 'document-outline';
+  }
+};
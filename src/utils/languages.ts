@@ -0,0 +1,42 @@
+export interface SpeechLanguage {
+  // BCP 47 locale passed to speech recognition and TTS
+  code: string;
+  name: string;
+  // Shown on the quick-switch chip
+  shortName: string;
+}
+
+export const DEFAULT_SPEECH_LANGUAGE = 'en-US';
+
+export const SPEECH_LANGUAGES: SpeechLanguage[] = [
+  {code: 'en-US', name: 'English (US)', shortName: 'EN'},
+  {code: 'en-GB', name: 'English (UK)', shortName: 'EN'},
+  {code: 'fr-FR', name: 'Français (France)', shortName: 'FR'},
+  {code: 'fr-CA', name: 'Français (Canada)', shortName: 'FR'},
+  {code: 'zh-CN', name: '普通话 (中国大陆)', shortName: '中文'},
+  {code: 'zh-TW', name: '國語 (台灣)', shortName: '中文'},
+  {code: 'es-ES', name: 'Español', shortName: 'ES'},
+  {code: 'de-DE', name: 'Deutsch', shortName: 'DE'},
+  {code: 'pt-BR', name: 'Português (Brasil)', shortName: 'PT'},
+  {code: 'ja-JP', name: '日本語', shortName: '日本語'},
+  {code: 'ko-KR', name: '한국어', shortName: '한국어'},
+  {code: 'hi-IN', name: 'हिन्दी', shortName: 'हिन्दी'},
+];
+
+// Falls back to another region of the same language, then to English, so a
+// locale saved by a newer version of the app still resolves
+export const getSpeechLanguage = (code?: string): SpeechLanguage => {
+  const normalized = (code || '').replace('_', '-').toLowerCase();
+  const base = normalized.split('-')[0];
+  return (
+    SPEECH_LANGUAGES.find(language => language.code.toLowerCase() === normalized) ||
+    SPEECH_LANGUAGES.find(language => language.code.toLowerCase().split('-')[0] === base) ||
+    SPEECH_LANGUAGES.find(language => language.code === DEFAULT_SPEECH_LANGUAGE)!
+  );
+};
+
+// A chat remembers the language it was dictated in; new chats use the default
+export const getSessionLanguage = (
+  session: {speechLanguage?: string} | null | undefined,
+  defaultLanguage?: string
+): string => getSpeechLanguage(session?.speechLanguage || defaultLanguage).code;
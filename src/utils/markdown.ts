@@ -0,0 +1,281 @@
+export type InlineNode =
+  | {type: 'text'; text: string}
+  | {type: 'code'; text: string}
+  | {type: 'bold'; children: InlineNode[]}
+  | {type: 'italic'; children: InlineNode[]}
+  | {type: 'strike'; children: InlineNode[]}
+  | {type: 'link'; url: string; children: InlineNode[]};
+
+export interface ListItem {
+  text: string;
+  depth: number;
+  // '•' for bullets, the source number for ordered items
+  marker: string;
+}
+
+export type MarkdownBlock =
+  | {type: 'heading'; level: number; text: string}
+  | {type: 'paragraph'; text: string}
+  | {type: 'quote'; text: string}
+  | {type: 'list'; items: ListItem[]}
+  // `closed` is false while a streamed fence is still open
+  | {type: 'code'; language: string; code: string; closed: boolean}
+  | {type: 'rule'};
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^`]*)$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^ {0,3}>\s?(.*)$/;
+
+const indentWidth = (indent: string) => indent.replace(/\t/g, '  ').length;
+
+const startsBlock = (line: string) =>
+  FENCE_PATTERN.test(line) ||
+  HEADING_PATTERN.test(line) ||
+  RULE_PATTERN.test(line) ||
+  LIST_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line);
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.split(/\r?\n/);
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const delimiter = fence[1];
+      const code: string[] = [];
+      let closed = false;
+      index++;
+      while (index < lines.length) {
+        const trimmed = lines[index].trim();
+        if (trimmed.startsWith(delimiter) && trimmed.replace(/[`~]/g, '') === '') {
+          closed = true;
+          index++;
+          break;
+        }
+        code.push(lines[index]);
+        index++;
+      }
+      blocks.push({type: 'code', language: fence[2].trim(), code: code.join('\n'), closed});
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({type: 'heading', level: heading[1].length, text: heading[2]});
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({type: 'rule'});
+      index++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      let match: RegExpMatchArray | null;
+      while (index < lines.length && (match = lines[index].match(QUOTE_PATTERN))) {
+        quoted.push(match[1]);
+        index++;
+      }
+      blocks.push({type: 'quote', text: quoted.join('\n')});
+      continue;
+    }
+
+    if (LIST_PATTERN.test(line)) {
+      const items: ListItem[] = [];
+      const baseIndent = indentWidth(line.match(LIST_PATTERN)![1]);
+      while (index < lines.length) {
+        const current = lines[index];
+        const item = current.match(LIST_PATTERN);
+        if (item) {
+          const marker = item[2];
+          items.push({
+            text: item[3],
+            depth: Math.max(0, Math.floor((indentWidth(item[1]) - baseIndent) / 2)),
+            marker: /\d/.test(marker) ? `${marker.slice(0, -1)}.` : '•',
+          });
+          index++;
+          continue;
+        }
+        // Indented lines continue the previous item; a blank line ends the list
+        // unless another item follows it
+        if (current.trim() === '') {
+          const next = lines[index + 1];
+          if (next !== undefined && LIST_PATTERN.test(next)) {
+            index++;
+            continue;
+          }
+          break;
+        }
+        if (/^\s+/.test(current) && !FENCE_PATTERN.test(current)) {
+          items[items.length - 1].text += ` ${current.trim()}`;
+          index++;
+          continue;
+        }
+        break;
+      }
+      blocks.push({type: 'list', items});
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    index++;
+    while (index < lines.length && lines[index].trim() !== '' && !startsBlock(lines[index])) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({type: 'paragraph', text: paragraph.join('\n')});
+  }
+
+  return blocks;
+};
+
+const LINK_PATTERN = /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/y;
+const URL_PATTERN = /https?:\/\/[^\s<>()]+/y;
+
+// Assistant output can contain anything, including app links like
+// stratosphere://pair or intent: URLs, so only these open on tap
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+export const isSafeLink = (url: string): boolean => SAFE_LINK.test(url.trim());
+const WORD_CHAR = /[A-Za-z0-9]/;
+
+const matchAt = (pattern: RegExp, text: string, index: number): RegExpExecArray | null => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+// Finds a closing emphasis delimiter that isn't preceded by whitespace
+const findEmphasisClose = (text: string, from: number, delimiter: string): number => {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    if (index > from && !/\s/.test(text[index - 1])) {
+      if (delimiter !== '_' || !WORD_CHAR.test(text[index + 1] || '')) {
+        // In `***` the double delimiter closes last, after a nested single one
+        while (delimiter.length > 1 && text[index + delimiter.length] === delimiter[0]) {
+          index++;
+        }
+        return index;
+      }
+    }
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let plain = '';
+  let index = 0;
+
+  const flush = () => {
+    if (plain) {
+      nodes.push({type: 'text', text: plain});
+      plain = '';
+    }
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && index + 1 < text.length && /[\\`*_~[\]()#>!-]/.test(text[index + 1])) {
+      plain += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      let ticks = 1;
+      while (text[index + ticks] === '`') {
+        ticks++;
+      }
+      const delimiter = '`'.repeat(ticks);
+      const close = text.indexOf(delimiter, index + ticks);
+      if (close !== -1) {
+        flush();
+        nodes.push({type: 'code', text: text.slice(index + ticks, close).trim() || ' '});
+        index = close + ticks;
+        continue;
+      }
+      plain += delimiter;
+      index += ticks;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = matchAt(LINK_PATTERN, text, index);
+      if (link && isSafeLink(link[2])) {
+        flush();
+        nodes.push({type: 'link', url: link[2], children: parseInline(link[1])});
+        index += link[0].length;
+        continue;
+      }
+      if (link) {
+        // Shown as written, so the user sees where it would have gone
+        plain += link[0];
+        index += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === 'h' && (index === 0 || !WORD_CHAR.test(text[index - 1]))) {
+      const url = matchAt(URL_PATTERN, text, index);
+      if (url) {
+        // Trailing punctuation usually ends the sentence, not the URL
+        const href = url[0].replace(/[.,;:!?'"]+$/, '');
+        flush();
+        nodes.push({type: 'link', url: href, children: [{type: 'text', text: href}]});
+        index += href.length;
+        continue;
+      }
+    }
+
+    const double = text.slice(index, index + 2);
+    if (double === '**' || double === '__' || double === '~~') {
+      const close = text[index + 2] && !/\s/.test(text[index + 2])
+        ? findEmphasisClose(text, index + 2, double)
+        : -1;
+      if (close !== -1) {
+        flush();
+        const children = parseInline(text.slice(index + 2, close));
+        nodes.push(double === '~~' ? {type: 'strike', children} : {type: 'bold', children});
+        index = close + 2;
+        continue;
+      }
+    }
+
+    if (
+      (char === '*' || char === '_') &&
+      text[index + 1] &&
+      !/\s/.test(text[index + 1]) &&
+      !(char === '_' && index > 0 && WORD_CHAR.test(text[index - 1]))
+    ) {
+      const close = findEmphasisClose(text, index + 1, char);
+      if (close !== -1) {
+        flush();
+        nodes.push({type: 'italic', children: parseInline(text.slice(index + 1, close))});
+        index = close + 1;
+        continue;
+      }
+    }
+
+    plain += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+};
@@ -0,0 +1,15 @@
+import {v4 as uuidv4} from 'uuid';
+import {EditProposal} from '../services/ApiService';
+import {EditStatus, MessageEdit} from '../types';
+
+// Bridge proposals become reviewable edits on the assistant's message
+export const toMessageEdits = (proposals?: EditProposal[]): MessageEdit[] | undefined =>
+  proposals?.length
+    ? proposals.map(proposal => ({
+        id: proposal.id || uuidv4(),
+        filePath: proposal.filePath,
+        diff: proposal.diff,
+        description: proposal.description,
+        status: 'pending' as EditStatus,
+      }))
+    : undefined;
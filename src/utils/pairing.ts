@@ -0,0 +1,149 @@
+import {sha256, hmacSha256, toHex, fromHex, x25519, X25519_BASE_POINT} from './crypto';
+
+export interface PairingPayload {
+  secret: string;
+  host?: string;
+  port?: number;
+  name?: string;
+}
+
+// Parses what the desktop app shows when pairing: the QR payload, either as a
+// stratosphere://pair?host=..&port=..&secret=.. link or as JSON, or the short
+// code typed by hand (e.g. "K7Q2-9XTM"). React Native's URL polyfill can't read
+// query parameters, so the link is parsed by hand.
+export const parsePairingPayload = (input: string): PairingPayload | null => {
+  const text = input.trim();
+  if (!text) {
+    return null;
+  }
+
+  if (text.startsWith('{')) {
+    try {
+      const data = JSON.parse(text);
+      return data.secret ? toPayload(data) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  const linkMatch = text.match(/^stratosphere:\/\/pair\?(.*)$/i);
+  if (linkMatch) {
+    const params: Record<string, string> = {};
+    linkMatch[1].split('&').forEach(pair => {
+      const [key, value = ''] = pair.split('=');
+      if (key) {
+        params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+      }
+    });
+    return params.secret ? toPayload(params) : null;
+  }
+
+  const code = text.toUpperCase().replace(/[\s-]/g, '');
+  if (/^[A-Z0-9]{6,12}$/.test(code)) {
+    return {secret: code};
+  }
+
+  return null;
+};
+
+const toPayload = (data: Record<string, any>): PairingPayload => {
+  const port = data.port !== undefined ? parseInt(String(data.port), 10) : undefined;
+  return {
+    secret: String(data.secret),
+    host: data.host ? String(data.host) : undefined,
+    port: port && !isNaN(port) ? port : undefined,
+    name: data.name ? String(data.name) : undefined,
+  };
+};
+
+// Each pairing runs an X25519 exchange, and the device key comes from the
+// shared secret it produces. The short code only authenticates the exchange,
+// so capturing a pairing request isn't enough to brute-force the device key.
+export interface PairingKeyPair {
+  privateKey: number[];
+  publicKey: string;
+}
+
+export const createPairingKeyPair = (randomBytes: number[]): PairingKeyPair => ({
+  privateKey: randomBytes,
+  publicKey: toHex(x25519(randomBytes, X25519_BASE_POINT)),
+});
+
+export const deriveSharedSecret = (privateKey: number[], serverPublicKey: string): string => {
+  const peer = fromHex(serverPublicKey);
+  if (peer.length !== 32) {
+    throw new Error('The computer sent an invalid pairing key');
+  }
+  const shared = x25519(privateKey, peer);
+  // A low-order key forces an all-zero secret that anyone could compute
+  if (shared.every(byte => byte === 0)) {
+    throw new Error('The computer sent an invalid pairing key');
+  }
+  return toHex(shared);
+};
+
+// Proves knowledge of the one-time secret without sending it, and binds the
+// phone's public key so it can't be swapped. Over HTTPS the certificate
+// fingerprint the phone saw is bound in too, so the desktop can refuse a
+// pairing made through someone else's certificate.
+export const derivePairingProof = (
+  secret: string,
+  deviceId: string,
+  nonce: string,
+  publicKey: string,
+  certificateFingerprint?: string
+): string =>
+  hmacSha256(
+    secret,
+    `pair:${deviceId}:${nonce}:${publicKey}` + (certificateFingerprint ? `:${certificateFingerprint}` : '')
+  );
+
+// What the desktop answers with, so the phone knows it paired with the right
+// computer and that the desktop's public key wasn't swapped on the way
+export const deriveServerProof = (
+  secret: string,
+  deviceId: string,
+  nonce: string,
+  publicKey: string,
+  serverPublicKey: string
+): string => hmacSha256(secret, `server:${deviceId}:${nonce}:${publicKey}:${serverPublicKey}`);
+
+// Long-lived key both sides derive once pairing succeeds
+export const deriveDeviceKey = (sharedSecret: string, secret: string, deviceId: string): string =>
+  hmacSha256(sharedSecret, `device:${deviceId}:${secret}`);
+
+// One field of a multipart body: text, or a file's name and type
+export interface MultipartField {
+  name: string;
+  value?: string;
+  fileName?: string;
+  type?: string;
+}
+
+// Multipart bodies are put together natively, so the file bytes aren't known
+// here. What gets signed instead is every text field and each file's name and
+// type, in order, which the desktop rebuilds from the parsed form.
+export const multipartSigningBody = (fields: MultipartField[]): string =>
+  [
+    'multipart',
+    ...fields.map(field =>
+      field.value !== undefined
+        ? `${encodeURIComponent(field.name)}=${encodeURIComponent(field.value)}`
+        : `${encodeURIComponent(field.name)}=@${encodeURIComponent(field.fileName || '')};` +
+          encodeURIComponent(field.type || '')
+    ),
+  ].join('\n');
+
+// Covers everything that decides what a request does: the path with its
+// query and a hash of the body. The nonce is used once, and the desktop
+// remembers it for the timestamp window, so a captured request can't be
+// replayed or sent again with a different body.
+export const signRequest = (
+  deviceKey: string,
+  timestamp: string,
+  nonce: string,
+  method: string,
+  path: string,
+  body: string = ''
+): string =>
+  hmacSha256(deviceKey, [timestamp, nonce, method.toUpperCase(), path, sha256(body)].join('\n'));
@@ -0,0 +1,139 @@
+import {DiffHunk, DiffLine} from './diff';
+
+export interface FilePatch {
+  // null for /dev/null, i.e. a created or deleted file
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const parsePath = (header: string): string | null => {
+  const path = header.slice(4).split('\t')[0].trim();
+  if (path === '/dev/null') {
+    return null;
+  }
+  return path.replace(/^[ab]\//, '');
+};
+
+export const parseUnifiedDiff = (diff: string): FilePatch => {
+  const lines = diff.split(/\r?\n/);
+  const patch: FilePatch = {oldPath: null, newPath: null, hunks: []};
+  let hunk: DiffHunk | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  for (const line of lines) {
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line[0];
+      const text = line.slice(1);
+      let diffLine: DiffLine;
+      if (marker === '+') {
+        diffLine = {type: 'add', text, newNumber: ++newNumber};
+        newRemaining--;
+      } else if (marker === '-') {
+        diffLine = {type: 'remove', text, oldNumber: ++oldNumber};
+        oldRemaining--;
+      } else if (marker === ' ' || line === '') {
+        // Some tools strip the space off blank context lines
+        diffLine = {type: 'context', text, oldNumber: ++oldNumber, newNumber: ++newNumber};
+        oldRemaining--;
+        newRemaining--;
+      } else if (marker === '\\') {
+        continue;
+      } else {
+        throw new Error(`Unexpected line in hunk: ${line}`);
+      }
+      hunk.lines.push(diffLine);
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      patch.oldPath = parsePath(line);
+      continue;
+    }
+    if (line.startsWith('+++ ')) {
+      patch.newPath = parsePath(line);
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      const oldLines = header[2] === undefined ? 1 : parseInt(header[2], 10);
+      const newLines = header[4] === undefined ? 1 : parseInt(header[4], 10);
+      hunk = {
+        oldStart: parseInt(header[1], 10),
+        oldLines,
+        newStart: parseInt(header[3], 10),
+        newLines,
+        lines: [],
+      };
+      patch.hunks.push(hunk);
+      oldRemaining = oldLines;
+      newRemaining = newLines;
+      // Numbers count up from the line before the hunk
+      oldNumber = oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+      newNumber = newLines > 0 ? hunk.newStart - 1 : hunk.newStart;
+    }
+  }
+
+  if (patch.hunks.length === 0) {
+    throw new Error('The suggested change is not a valid unified diff.');
+  }
+  if (oldRemaining > 0 || newRemaining > 0) {
+    throw new Error('The suggested change is incomplete.');
+  }
+  return patch;
+};
+
+const matchesAt = (lines: string[], expected: string[], position: number) => {
+  if (position < 0 || position + expected.length > lines.length) {
+    return false;
+  }
+  return expected.every((line, index) => lines[position + index] === line);
+};
+
+// Applies each hunk where its context matches, searching outwards from the
+// line it names so edits made elsewhere in the file don't break it
+export const applyPatch = (content: string, patch: FilePatch): string => {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const trailingNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.split(/\r?\n/);
+  if (content.endsWith('\n')) {
+    lines.pop();
+  }
+
+  let delta = 0;
+  let minPosition = 0;
+
+  patch.hunks.forEach((hunk, index) => {
+    const expected = hunk.lines.filter(line => line.type !== 'add').map(line => line.text);
+    const replacement = hunk.lines.filter(line => line.type !== 'remove').map(line => line.text);
+    const preferred = (hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart) + delta;
+
+    let position = -1;
+    const maxDistance = Math.max(lines.length, preferred);
+    for (let distance = 0; distance <= maxDistance && position === -1; distance++) {
+      const candidates = distance === 0 ? [preferred] : [preferred - distance, preferred + distance];
+      position = candidates.find(
+        candidate => candidate >= minPosition && matchesAt(lines, expected, candidate)
+      ) ?? -1;
+    }
+
+    if (position === -1) {
+      throw new Error(
+        `Change ${index + 1} of ${patch.hunks.length} no longer matches the file. ` +
+          'It may have been edited since the suggestion was made.'
+      );
+    }
+
+    lines.splice(position, expected.length, ...replacement);
+    delta = position - (preferred - delta) + replacement.length - expected.length;
+    minPosition = position + replacement.length;
+  });
+
+  return lines.join(eol) + (trailingNewline && lines.length > 0 ? eol : '');
+};
@@ -0,0 +1,85 @@
+import {ChatSession} from '../types';
+
+export interface SessionSection {
+  key: string;
+  title: string;
+  data: ChatSession[];
+}
+
+export interface SessionMatch {
+  session: ChatSession;
+  // Text around the first hit, for showing under the title
+  snippet?: string;
+}
+
+const SNIPPET_RADIUS = 40;
+const NO_PROJECT_KEY = '__none__';
+
+const byRecency = (a: ChatSession, b: ChatSession) =>
+  new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+
+const getProjectName = (path: string) => path.split(/[\\/]/).filter(Boolean).pop() || path;
+
+const makeSnippet = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const snippet = text.substring(start, end).replace(/\s+/g, ' ').trim();
+  return (start > 0 ? '…' : '') + snippet + (end < text.length ? '…' : '');
+};
+
+// Every word of the query has to appear in the title or some message;
+// matching is case-insensitive
+export const searchSessions = (sessions: ChatSession[], query: string): SessionMatch[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return sessions.map(session => ({session}));
+  }
+
+  const matches: SessionMatch[] = [];
+  sessions.forEach(session => {
+    const texts = [session.title, ...session.messages.map(message => message.content)];
+    const lowered = texts.map(text => text.toLowerCase());
+    if (!terms.every(term => lowered.some(text => text.includes(term)))) {
+      return;
+    }
+
+    // Prefer a snippet from the messages; a title hit needs none
+    let snippet: string | undefined;
+    for (let i = 1; i < lowered.length && !snippet; i++) {
+      const index = lowered[i].indexOf(terms[0]);
+      if (index !== -1) {
+        snippet = makeSnippet(texts[i], index, terms[0].length);
+      }
+    }
+    matches.push({session, snippet});
+  });
+  return matches;
+};
+
+// Pinned sessions first, then one section per project, most recently
+// active project first; sessions inside each section go newest first
+export const groupSessions = (sessions: ChatSession[]): SessionSection[] => {
+  const pinned = sessions.filter(session => session.pinned).sort(byRecency);
+  const byProject = new Map<string, ChatSession[]>();
+
+  sessions
+    .filter(session => !session.pinned)
+    .sort(byRecency)
+    .forEach(session => {
+      const key = session.projectContext?.path || NO_PROJECT_KEY;
+      byProject.set(key, [...(byProject.get(key) || []), session]);
+    });
+
+  const sections: SessionSection[] = [];
+  if (pinned.length > 0) {
+    sections.push({key: 'pinned', title: 'Pinned', data: pinned});
+  }
+  byProject.forEach((data, key) => {
+    sections.push({
+      key,
+      title: key === NO_PROJECT_KEY ? 'No project' : getProjectName(key),
+      data,
+    });
+  });
+  return sections;
+};
@@ -0,0 +1,110 @@
+import {parseMarkdown, parseInline, InlineNode} from './markdown';
+
+// Long sentences are broken at clause boundaries so skipping and pausing
+// never has to wait long
+const MAX_CHUNK_LENGTH = 250;
+// Inline code longer than this is described instead of read out
+const MAX_SPOKEN_CODE_LENGTH = 40;
+
+const SPOKEN_LANGUAGES: Record<string, string> = {
+  js: 'JavaScript', jsx: 'JavaScript', javascript: 'JavaScript',
+  ts: 'TypeScript', tsx: 'TypeScript', typescript: 'TypeScript',
+  py: 'Python', python: 'Python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', shell: 'shell', console: 'shell',
+  json: 'JSON', yaml: 'YAML', yml: 'YAML', html: 'HTML', css: 'CSS', sql: 'SQL',
+  java: 'Java', kotlin: 'Kotlin', swift: 'Swift', go: 'Go', rust: 'Rust', rb: 'Ruby', ruby: 'Ruby',
+  diff: 'diff',
+};
+
+const inlineToSpeech = (nodes: InlineNode[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'code':
+          return node.text.length > MAX_SPOKEN_CODE_LENGTH ? 'a code snippet' : node.text;
+        case 'link': {
+          const text = inlineToSpeech(node.children);
+          // Bare URLs are unpleasant to listen to
+          return text === node.url ? 'a link' : text;
+        }
+        default:
+          return inlineToSpeech(node.children);
+      }
+    })
+    .join('');
+
+const describeCode = (language: string, code: string) => {
+  const lines = code.split('\n').length;
+  const name = SPOKEN_LANGUAGES[language.trim().split(/\s+/)[0].toLowerCase()];
+  const kind = name ? `${name} code block` : 'code block';
+  return `There's a ${lines}-line ${kind} on screen.`;
+};
+
+const withFullStop = (text: string) => {
+  if (/[.!?:;。！？：；]$/.test(text)) return text;
+  return /[\u3040-\u30ff\u3400-\u9fff]$/.test(text) ? `${text}。` : `${text}.`;
+};
+
+const splitSentences = (text: string): string[] =>
+  text
+    .replace(/\s+/g, ' ')
+    .replace(/([.!?]["')\]]*) (?=["'(\[]?[A-Z0-9])/g, '$1\u0000')
+    // Chinese and Japanese end sentences without a following space
+    .replace(/([。！？][」』”）)]*)/g, '$1\u0000')
+    .split('\u0000')
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+const splitLongSentence = (sentence: string): string[] => {
+  if (sentence.length <= MAX_CHUNK_LENGTH) {
+    return [sentence];
+  }
+  const chunks: string[] = [];
+  let current = '';
+  sentence.replace(/([,;:]) /g, '$1\u0000').split('\u0000').forEach(clause => {
+    if (current && current.length + clause.length + 1 > MAX_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = clause;
+    } else {
+      current = current ? `${current} ${clause}` : clause;
+    }
+  });
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+// Turns a markdown reply into sentences for text-to-speech, with code
+// blocks summarised rather than read out symbol by symbol
+export const toSpeechChunks = (markdown: string): string[] => {
+  const sentences: string[] = [];
+  const addText = (text: string) => {
+    const spoken = inlineToSpeech(parseInline(text)).trim();
+    if (spoken) {
+      splitSentences(withFullStop(spoken)).forEach(sentence =>
+        sentences.push(...splitLongSentence(sentence))
+      );
+    }
+  };
+
+  parseMarkdown(markdown).forEach(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+      case 'quote':
+        addText(block.text);
+        break;
+      case 'list':
+        block.items.forEach(item => addText(item.text));
+        break;
+      case 'code':
+        sentences.push(describeCode(block.language, block.code));
+        break;
+    }
+  });
+
+  return sentences;
+};
@@ -0,0 +1,437 @@
+import {normalizeExtension} from './fileTree';
+
+export type TokenType =
+  | 'plain'
+  | 'keyword'
+  | 'literal'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'function'
+  | 'type';
+
+export interface Token {
+  text: string;
+  type: TokenType;
+}
+
+// Carried from one line to the next for constructs that span lines
+export interface LineState {
+  blockComment: boolean;
+  multilineString: string | null;
+}
+
+interface LanguageDefinition {
+  keywords: string[];
+  literals?: string[];
+  lineComments?: string[];
+  blockComment?: [string, string];
+  quotes?: string[];
+  multilineQuotes?: string[];
+}
+
+const C_LIKE_LITERALS = ['true', 'false', 'null'];
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger',
+      'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from',
+      'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new',
+      'of', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'super', 'switch',
+      'this', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield',
+    ],
+    literals: ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    multilineQuotes: ['`'],
+  },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+      'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda',
+      'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield',
+    ],
+    literals: ['True', 'False', 'None'],
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    multilineQuotes: ['"""', "'''"],
+  },
+  clike: {
+    keywords: [
+      'abstract', 'auto', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue',
+      'default', 'defer', 'delete', 'do', 'double', 'else', 'enum', 'extends', 'extern', 'final',
+      'float', 'fn', 'for', 'func', 'fun', 'go', 'if', 'impl', 'implements', 'import', 'include',
+      'int', 'interface', 'let', 'long', 'match', 'mut', 'namespace', 'new', 'object', 'override',
+      'package', 'private', 'protected', 'pub', 'public', 'return', 'self', 'short', 'static',
+      'struct', 'super', 'switch', 'template', 'this', 'throw', 'throws', 'trait', 'try', 'typedef',
+      'typename', 'union', 'unsigned', 'use', 'using', 'val', 'var', 'virtual', 'void', 'when',
+      'where', 'while',
+    ],
+    literals: [...C_LIKE_LITERALS, 'nil', 'nullptr', 'None', 'Some'],
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    multilineQuotes: ['`'],
+  },
+  shell: {
+    keywords: [
+      'case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for',
+      'function', 'if', 'in', 'local', 'return', 'then', 'until', 'while',
+    ],
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  ruby: {
+    keywords: [
+      'begin', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'if', 'module', 'next',
+      'require', 'rescue', 'return', 'self', 'unless', 'until', 'when', 'while', 'yield',
+    ],
+    literals: ['true', 'false', 'nil'],
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: [
+      'select', 'from', 'where', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+      'table', 'drop', 'alter', 'index', 'join', 'left', 'right', 'inner', 'outer', 'on', 'and',
+      'or', 'not', 'group', 'by', 'order', 'having', 'limit', 'as', 'distinct', 'primary', 'key',
+      'SELECT', 'FROM', 'WHERE', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE',
+      'TABLE', 'DROP', 'ALTER', 'INDEX', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'ON', 'AND',
+      'OR', 'NOT', 'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'AS', 'DISTINCT', 'PRIMARY', 'KEY',
+    ],
+    literals: ['true', 'false', 'null', 'TRUE', 'FALSE', 'NULL'],
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+  },
+  css: {
+    keywords: ['important', 'media', 'import', 'keyframes', 'from', 'to', 'supports'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+  },
+  markup: {
+    keywords: [],
+    blockComment: ['<!--', '-->'],
+    quotes: ['"', "'"],
+  },
+  json: {
+    keywords: [],
+    literals: C_LIKE_LITERALS,
+    quotes: ['"'],
+  },
+  yaml: {
+    keywords: [],
+    literals: ['true', 'false', 'null', 'yes', 'no', 'on', 'off'],
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+  },
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'javascript', tsx: 'javascript',
+  py: 'python', pyw: 'python',
+  c: 'clike', h: 'clike', cc: 'clike', cpp: 'clike', hpp: 'clike', cs: 'clike',
+  java: 'clike', kt: 'clike', kts: 'clike', swift: 'clike', go: 'clike', rs: 'clike',
+  dart: 'clike', scala: 'clike', php: 'clike', m: 'clike', gradle: 'clike',
+  sh: 'shell', bash: 'shell', zsh: 'shell', env: 'shell', dockerfile: 'shell',
+  rb: 'ruby',
+  sql: 'sql',
+  css: 'css', scss: 'css', less: 'css',
+  html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+  json: 'json',
+  yml: 'yaml', yaml: 'yaml', toml: 'yaml',
+};
+
+// Compiled once per language
+const keywordSets: Record<string, {keywords: Set<string>; literals: Set<string>}> = {};
+
+const getWordSets = (language: string) => {
+  if (!keywordSets[language]) {
+    const definition = LANGUAGES[language];
+    keywordSets[language] = {
+      keywords: new Set(definition.keywords),
+      literals: new Set(definition.literals || []),
+    };
+  }
+  return keywordSets[language];
+};
+
+export const getLanguageForExtension = (extension: string): string | null =>
+  EXTENSION_LANGUAGES[normalizeExtension(extension)] || null;
+
+// Info strings on markdown fences that aren't file extensions
+const FENCE_ALIASES: Record<string, string> = {
+  javascript: 'javascript', typescript: 'javascript', node: 'javascript',
+  python: 'python', python3: 'python',
+  c: 'clike', 'c++': 'clike', csharp: 'clike', java: 'clike', kotlin: 'clike',
+  rust: 'clike', golang: 'clike',
+  shell: 'shell', console: 'shell', terminal: 'shell', powershell: 'shell',
+  ruby: 'ruby',
+  postgres: 'sql', mysql: 'sql',
+  xml: 'markup', jsx: 'javascript',
+};
+
+export const getLanguageForFence = (info: string): string | null => {
+  const name = info.trim().split(/\s+/)[0].toLowerCase();
+  if (!name) {
+    return null;
+  }
+  return FENCE_ALIASES[name] || getLanguageForExtension(name);
+};
+
+export const initialLineState: LineState = {blockComment: false, multilineString: null};
+
+// Sticky, so matching starts at lastIndex without slicing the line
+const NUMBER_PATTERN = /0x[0-9a-f]+|\d[\d_]*(\.\d+)?(e[+-]?\d+)?/iy;
+const WORD_PATTERN = /[A-Za-z_$][\w$]*/y;
+const WORD_CHAR = /[\w$]/;
+
+const matchAt = (pattern: RegExp, line: string, index: number): string | null => {
+  pattern.lastIndex = index;
+  const match = pattern.exec(line);
+  return match ? match[0] : null;
+};
+
+// Finds the closing delimiter, skipping backslash escapes
+const findClosing = (line: string, from: number, delimiter: string): number => {
+  let index = from;
+  while (index < line.length) {
+    if (line[index] === '\\') {
+      index += 2;
+      continue;
+    }
+    if (line.startsWith(delimiter, index)) {
+      return index;
+    }
+    index++;
+  }
+  return -1;
+};
+
+export const tokenizeLine = (
+  line: string,
+  language: string | null,
+  state: LineState = initialLineState
+): {tokens: Token[]; state: LineState} => {
+  const definition = language ? LANGUAGES[language] : undefined;
+  if (!definition) {
+    return {tokens: line ? [{text: line, type: 'plain'}] : [], state: initialLineState};
+  }
+
+  const {keywords, literals} = getWordSets(language!);
+  const tokens: Token[] = [];
+  const push = (text: string, type: TokenType) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({text, type});
+    }
+  };
+
+  let {blockComment, multilineString} = state;
+  let index = 0;
+
+  while (index < line.length) {
+    if (blockComment && definition.blockComment) {
+      const end = line.indexOf(definition.blockComment[1], index);
+      if (end === -1) {
+        push(line.slice(index), 'comment');
+        index = line.length;
+      } else {
+        const stop = end + definition.blockComment[1].length;
+        push(line.slice(index, stop), 'comment');
+        index = stop;
+        blockComment = false;
+      }
+      continue;
+    }
+
+    if (multilineString) {
+      const end = findClosing(line, index, multilineString);
+      if (end === -1) {
+        push(line.slice(index), 'string');
+        index = line.length;
+      } else {
+        const stop = end + multilineString.length;
+        push(line.slice(index, stop), 'string');
+        index = stop;
+        multilineString = null;
+      }
+      continue;
+    }
+
+    if (definition.lineComments?.some(marker => line.startsWith(marker, index))) {
+      push(line.slice(index), 'comment');
+      break;
+    }
+
+    if (definition.blockComment && line.startsWith(definition.blockComment[0], index)) {
+      push(definition.blockComment[0], 'comment');
+      index += definition.blockComment[0].length;
+      blockComment = true;
+      continue;
+    }
+
+    const multilineQuote = definition.multilineQuotes?.find(quote => line.startsWith(quote, index));
+    if (multilineQuote) {
+      push(multilineQuote, 'string');
+      index += multilineQuote.length;
+      multilineString = multilineQuote;
+      continue;
+    }
+
+    const quote = definition.quotes?.find(q => line.startsWith(q, index));
+    if (quote) {
+      // Unterminated strings end with the line
+      const end = findClosing(line, index + quote.length, quote);
+      const stop = end === -1 ? line.length : end + quote.length;
+      push(line.slice(index, stop), 'string');
+      index = stop;
+      continue;
+    }
+
+    const startsWord = index === 0 || !WORD_CHAR.test(line[index - 1]);
+
+    const number = startsWord ? matchAt(NUMBER_PATTERN, line, index) : null;
+    if (number) {
+      push(number, 'number');
+      index += number.length;
+      continue;
+    }
+
+    const word = startsWord ? matchAt(WORD_PATTERN, line, index) : null;
+    if (word) {
+      let nextIndex = index + word.length;
+      while (line[nextIndex] === ' ') {
+        nextIndex++;
+      }
+      const next = line[nextIndex];
+      let type: TokenType = 'plain';
+      if (keywords.has(word)) {
+        type = 'keyword';
+      } else if (literals.has(word)) {
+        type = 'literal';
+      } else if (next === '(') {
+        type = 'function';
+      } else if (/^[A-Z][a-z]/.test(word)) {
+        type = 'type';
+      }
+      push(word, type);
+      index += word.length;
+      continue;
+    }
+
+    push(line[index], 'plain');
+    index++;
+  }
+
+  return {tokens, state: {blockComment, multilineString}};
+};
+
+const darkSyntaxColors: Record<TokenType, string> = {
+  plain: '#D4D4D4',
+  keyword: '#C586C0',
+  literal: '#569CD6',
+  string: '#CE9178',
+  number: '#B5CEA8',
+  comment: '#6A9955',
+  function: '#DCDCAA',
+  type: '#4EC9B0',
+};
+
+const lightSyntaxColors: Record<TokenType, string> = {
+  plain: '#1F1F1F',
+  keyword: '#AF00DB',
+  literal: '#0000FF',
+  string: '#A31515',
+  number: '#098658',
+  comment: '#008000',
+  function: '#795E26',
+  type: '#267F99',
+};
+
+export const getSyntaxColors = (isDark: boolean): Record<TokenType, string> =>
+  isDark ? darkSyntaxColors : lightSyntaxColors;
+
+export const tokenizeLines = (lines: string[], language: string | null): Token[][] => {
+  let state = initialLineState;
+  return lines.map(line => {
+    const result = tokenizeLine(line, language, state);
+    state = result.state;
+    return result.tokens;
+  });
+};
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface HighlightedToken extends Token {
+  isMatch: boolean;
+}
+
+// Splits tokens so search matches can be drawn on top of syntax colors
+export const applyMatchRanges = (tokens: Token[], ranges: MatchRange[]): HighlightedToken[] => {
+  if (ranges.length === 0) {
+    return tokens.map(token => ({...token, isMatch: false}));
+  }
+
+  const result: HighlightedToken[] = [];
+  let offset = 0;
+  tokens.forEach(token => {
+    const tokenStart = offset;
+    const tokenEnd = offset + token.text.length;
+    let cursor = tokenStart;
+
+    ranges.forEach(range => {
+      const start = Math.max(range.start, cursor);
+      const end = Math.min(range.end, tokenEnd);
+      if (start >= end) {
+        return;
+      }
+      if (start > cursor) {
+        result.push({text: token.text.slice(cursor - tokenStart, start - tokenStart), type: token.type, isMatch: false});
+      }
+      result.push({text: token.text.slice(start - tokenStart, end - tokenStart), type: token.type, isMatch: true});
+      cursor = end;
+    });
+
+    if (cursor < tokenEnd) {
+      result.push({text: token.text.slice(cursor - tokenStart), type: token.type, isMatch: false});
+    }
+    offset = tokenEnd;
+  });
+  return result;
+};
+
+export interface SearchMatch {
+  line: number;
+  start: number;
+  end: number;
+}
+
+export const findMatches = (lines: string[], query: string, limit: number = 5000): SearchMatch[] => {
+  if (!query) {
+    return [];
+  }
+
+  // Matched against the line itself: lowercasing can change a line's length
+  // (e.g. "İ"), which would shift every offset after it
+  const pattern = new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+  const matches: SearchMatch[] = [];
+  for (let line = 0; line < lines.length && matches.length < limit; line++) {
+    pattern.lastIndex = 0;
+    let match = pattern.exec(lines[line]);
+    while (match && matches.length < limit) {
+      matches.push({line, start: match.index, end: match.index + match[0].length});
+      match = pattern.exec(lines[line]);
+    }
+  }
+  return matches;
+};
@@ -0,0 +1,299 @@
+// Cleans up dictated code talk before it's sent: casing commands build
+// identifiers and known names get their real spelling back. Spoken symbols
+// only become characters in code dictation, which starts with "type" at the
+// start of a sentence or with a casing command and runs to the end of the
+// sentence, so "an arrow function" stays prose. Pure and deterministic so it
+// can run on every result.
+
+// Which neighbours a piece sticks to: 'both' for foo.bar, 'left' for
+// "foo, bar", 'right' for "@user", 'none' for "a = b"
+type Join = 'none' | 'left' | 'right' | 'both';
+
+interface Piece {
+  text: string;
+  join: Join;
+}
+
+// Compact spoken form ("apiservicedotts") -> how it's written ("ApiService.ts")
+export type Vocabulary = Map<string, string>;
+
+const SPOKEN_SYMBOLS: Array<[string[], string, Join]> = [
+  [['open paren', 'open parenthesis', 'left paren'], '(', 'both'],
+  [['close paren', 'close parenthesis', 'right paren'], ')', 'left'],
+  [['open bracket', 'open square bracket', 'left bracket'], '[', 'both'],
+  [['close bracket', 'close square bracket', 'right bracket'], ']', 'left'],
+  [['open brace', 'open curly brace', 'open curly', 'left brace'], '{', 'none'],
+  [['close brace', 'close curly brace', 'close curly', 'right brace'], '}', 'none'],
+  [['open angle bracket'], '<', 'both'],
+  [['close angle bracket'], '>', 'left'],
+  [['open quote'], '"', 'right'],
+  [['close quote', 'end quote', 'unquote'], '"', 'left'],
+  [['dot dot dot'], '...', 'right'],
+  [['dot dot slash'], '../', 'right'],
+  [['dot slash'], './', 'right'],
+  [['dot'], '.', 'both'],
+  [['period', 'full stop'], '.', 'left'],
+  [['comma'], ',', 'left'],
+  [['semicolon'], ';', 'left'],
+  [['colon'], ':', 'left'],
+  [['question mark'], '?', 'left'],
+  [['exclamation mark', 'exclamation point'], '!', 'left'],
+  [['forward slash', 'slash'], '/', 'both'],
+  [['backslash'], '\\', 'both'],
+  [['underscore'], '_', 'both'],
+  [['hyphen'], '-', 'both'],
+  [['triple equals'], '===', 'none'],
+  [['double equals'], '==', 'none'],
+  [['not equals'], '!==', 'none'],
+  [['equals sign', 'equals'], '=', 'none'],
+  [['fat arrow', 'arrow'], '=>', 'none'],
+  [['ampersand'], '&', 'none'],
+  [['pipe'], '|', 'none'],
+  [['asterisk'], '*', 'none'],
+  [['percent sign'], '%', 'left'],
+  [['at sign'], '@', 'right'],
+  [['hash sign', 'hashtag', 'pound sign'], '#', 'right'],
+  [['dollar sign'], '$', 'right'],
+  [['new line', 'newline'], '\n', 'both'],
+];
+
+type Casing = 'camel' | 'pascal' | 'snake' | 'kebab' | 'constant';
+
+const CASING_COMMANDS: Array<[string[], Casing]> = [
+  [['camel case', 'camelcase'], 'camel'],
+  [['pascal case', 'pascalcase'], 'pascal'],
+  [['snake case', 'snakecase'], 'snake'],
+  [['kebab case', 'kebabcase', 'dash case'], 'kebab'],
+  [['constant case', 'screaming snake case', 'upper snake case'], 'constant'],
+];
+
+const END_CASING = ['end case', 'stop case'];
+
+// Said at the start of a sentence to dictate code
+const CODE_COMMAND = 'type';
+
+// A casing command takes the words after it up to one of these, so
+// "camel case user name is empty" gives "userName is empty"
+const CASING_STOP_WORDS = new Set([
+  'is', 'are', 'was', 'were', 'be', 'should', 'does', 'do', 'did', 'has', 'have',
+  'returns', 'and', 'or', 'but', 'then', 'in', 'on', 'from', 'with', 'to', 'the',
+  'a', 'an', 'of', 'for', 'if', 'when', 'that', 'this', 'it',
+]);
+
+// Names dictation always gets wrong, whatever the project
+const DEVELOPER_TERMS = [
+  'useState', 'useEffect', 'useCallback', 'useMemo', 'useRef', 'useContext',
+  'useReducer', 'useLayoutEffect', 'console.log', 'console.error', 'console.warn',
+  'JSON', 'API', 'URL', 'HTTP', 'HTTPS', 'TypeScript', 'JavaScript', 'GitHub',
+  'Node.js', 'README.md', 'package.json', 'tsconfig.json', 'node_modules',
+  'localhost', 'iOS', 'React Native', 'stdout', 'stderr',
+];
+
+// Longest phrases first so "open curly brace" wins over "open curly"
+const toPhraseList = <T>(entries: Array<[string[], T]>) =>
+  entries
+    .flatMap(([phrases, value]) => phrases.map(phrase => ({words: phrase.split(' '), value})))
+    .sort((a, b) => b.words.length - a.words.length);
+
+const SYMBOL_PHRASES = toPhraseList(
+  SPOKEN_SYMBOLS.map(([phrases, text, join]): [string[], Piece] => [phrases, {text, join}])
+);
+const CASING_PHRASES = toPhraseList(CASING_COMMANDS);
+const END_CASING_PHRASES = toPhraseList([[END_CASING, true]]);
+
+// Longest run of words a vocabulary term is matched against
+const MAX_TERM_WORDS = 8;
+
+const TRAILING_PUNCTUATION = /[.,!?;:]+$/;
+const SENTENCE_END = /[.!?]$/;
+// Tokens with symbols in them were typed or already converted
+const PLAIN_WORD = /^[A-Za-z0-9']+[.,!?;:]*$/;
+
+const bareWord = (token: string) => token.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// "ApiService.ts" -> ["api", "service", "dot", "ts"]
+const spokenWords = (term: string): string[] =>
+  term
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/\./g, ' dot ')
+    .split(/[\s_\-/]+/)
+    .map(bareWord)
+    .filter(Boolean);
+
+const addTerm = (vocabulary: Vocabulary, term: string, minWords: number) => {
+  const words = spokenWords(term);
+  // "package json" is as likely as "package dot json"
+  [words, words.filter(word => word !== 'dot')].forEach(variant => {
+    const key = variant.join('');
+    if (variant.length >= minWords && key && !vocabulary.has(key)) {
+      vocabulary.set(key, term);
+    }
+  });
+};
+
+// Project file names, with and without their extension. Single-word names
+// are left out so "app" isn't turned into "App" in ordinary sentences
+export const buildVocabulary = (fileNames: string[] = []): Vocabulary => {
+  const vocabulary: Vocabulary = new Map();
+  fileNames.forEach(name => {
+    addTerm(vocabulary, name, 2);
+    const stem = name.replace(/\.[^.]+$/, '');
+    if (stem && stem !== name) {
+      addTerm(vocabulary, stem, 2);
+    }
+  });
+  DEVELOPER_TERMS.forEach(term => addTerm(vocabulary, term, 1));
+  return vocabulary;
+};
+
+const DEFAULT_VOCABULARY = buildVocabulary();
+
+const applyCasing = (words: string[], casing: Casing): string => {
+  switch (casing) {
+    case 'camel':
+      return words
+        .map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+        .join('');
+    case 'pascal':
+      return words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    case 'snake':
+      return words.join('_');
+    case 'kebab':
+      return words.join('-');
+    case 'constant':
+      return words.join('_').toUpperCase();
+  }
+};
+
+const joinPieces = (pieces: Piece[]): string => {
+  let text = '';
+  let joinsNext = true;
+  pieces.forEach(piece => {
+    const space = !joinsNext && piece.join !== 'left' && piece.join !== 'both';
+    text += (space ? ' ' : '') + piece.text;
+    joinsNext = piece.join === 'right' || piece.join === 'both';
+  });
+  return text;
+};
+
+export const normalizeTranscript = (
+  transcript: string,
+  vocabulary: Vocabulary = DEFAULT_VOCABULARY
+): string => {
+  const tokens = transcript.trim().split(/\s+/).filter(Boolean);
+  const words = tokens.map(token => (PLAIN_WORD.test(token) ? bareWord(token) : ''));
+  const pieces: Piece[] = [];
+
+  // Recogniser punctuation on the last word of a phrase is kept after it
+  const punctuationAfter = (index: number) => tokens[index].match(TRAILING_PUNCTUATION)?.[0];
+  const pushPunctuation = (index: number) => {
+    const punctuation = punctuationAfter(index);
+    if (punctuation) {
+      pieces.push({text: punctuation, join: 'left'});
+    }
+  };
+
+  // Phrases can't run across recogniser punctuation
+  const matchPhrase = <T>(phrases: Array<{words: string[]; value: T}>, start: number) =>
+    phrases.find(
+      phrase =>
+        start + phrase.words.length <= tokens.length &&
+        phrase.words.every(
+          (word, offset) =>
+            words[start + offset] === word &&
+            (offset === phrase.words.length - 1 || !punctuationAfter(start + offset))
+        )
+    );
+
+  const matchTerm = (start: number) => {
+    let key = '';
+    let match: {term: string; length: number} | null = null;
+    for (let length = 1; length <= MAX_TERM_WORDS && start + length <= tokens.length; length++) {
+      if (!words[start + length - 1]) break;
+      key += words[start + length - 1];
+      const term = vocabulary.get(key);
+      if (term) {
+        match = {term, length};
+      }
+      if (punctuationAfter(start + length - 1)) break;
+    }
+    return match;
+  };
+
+  let isCode = false;
+  let index = 0;
+  while (index < tokens.length) {
+    const startsSentence = index === 0 || SENTENCE_END.test(tokens[index - 1]);
+    if (startsSentence) {
+      isCode = false;
+      if (
+        words[index] === CODE_COMMAND &&
+        index + 1 < tokens.length &&
+        !punctuationAfter(index)
+      ) {
+        isCode = true;
+        index++;
+        continue;
+      }
+    }
+
+    const casing = matchPhrase(CASING_PHRASES, index);
+    if (casing && !punctuationAfter(index + casing.words.length - 1)) {
+      const parts: string[] = [];
+      let lastPart = index;
+      let endedAt: number | null = null;
+      let next = index + casing.words.length;
+      while (next < tokens.length) {
+        const end = matchPhrase(END_CASING_PHRASES, next);
+        if (end) {
+          next += end.words.length;
+          endedAt = next - 1;
+          break;
+        }
+        if (
+          (parts.length > 0 && CASING_STOP_WORDS.has(words[next])) ||
+          matchPhrase(SYMBOL_PHRASES, next) ||
+          !words[next]
+        ) {
+          break;
+        }
+        parts.push(words[next]);
+        lastPart = next++;
+        if (punctuationAfter(lastPart)) break;
+      }
+      if (parts.length > 0) {
+        pieces.push({text: applyCasing(parts, casing.value), join: 'none'});
+        pushPunctuation(lastPart);
+        if (endedAt !== null) {
+          pushPunctuation(endedAt);
+        }
+        // Whatever follows an identifier is code too, until "end case"
+        isCode = endedAt === null;
+        index = next;
+        continue;
+      }
+    }
+
+    const term = matchTerm(index);
+    if (term) {
+      pieces.push({text: term.term, join: 'none'});
+      pushPunctuation(index + term.length - 1);
+      index += term.length;
+      continue;
+    }
+
+    const symbol = isCode ? matchPhrase(SYMBOL_PHRASES, index) : undefined;
+    if (symbol) {
+      pieces.push(symbol.value);
+      index += symbol.words.length;
+      pushPunctuation(index - 1);
+      continue;
+    }
+
+    pieces.push({text: tokens[index], join: 'none'});
+    index++;
+  }
+
+  return joinPieces(pieces);
+};
@@ -0,0 +1,169 @@
+// Spoken commands the app handles itself instead of asking the assistant
+export type VoiceIntent =
+  | {type: 'openProject'; name: string}
+  | {type: 'readFile'; path: string}
+  | {type: 'newChat'}
+  | {type: 'gitStatus'}
+  | {type: 'stopSpeaking'}
+  | {type: 'repeat'}
+  // Anything else is a prompt for the assistant
+  | {type: 'prompt'; text: string};
+
+export interface NameMatch {
+  value: string;
+  score: number;
+}
+
+interface Rule {
+  pattern: RegExp;
+  toIntent: (slot: string) => VoiceIntent;
+}
+
+const PROJECT_WORDS = '(?:project|repo|repository)';
+
+const RULES: Rule[] = [
+  {
+    pattern: new RegExp(`^(?:open|switch to|go to|load) (?:the )?${PROJECT_WORDS} (.+)$`),
+    toIntent: name => ({type: 'openProject', name}),
+  },
+  {
+    pattern: new RegExp(`^(?:open|switch to|go to|load) (?:the )?(.+?) ${PROJECT_WORDS}$`),
+    toIntent: name => ({type: 'openProject', name}),
+  },
+  {
+    pattern: /^(?:read|open|show(?: me)?) (?:the )?file (.+)$/,
+    toIntent: path => ({type: 'readFile', path: toSpokenPath(path)}),
+  },
+  {
+    pattern: /^(?:new|start (?:a )?new|create (?:a )?new|start (?:a|another)) (?:chat|conversation)$/,
+    toIntent: () => ({type: 'newChat'}),
+  },
+  {
+    pattern: /^(?:git status|(?:show|tell)(?: me)? (?:the )?git status|what(?:'s| is) the git status|what(?:'s| has) changed)$/,
+    toIntent: () => ({type: 'gitStatus'}),
+  },
+  {
+    pattern: /^(?:stop|stop (?:talking|speaking|reading)|be quiet|quiet|shut up|that's enough|enough)$/,
+    toIntent: () => ({type: 'stopSpeaking'}),
+  },
+  {
+    pattern: /^(?:repeat|repeat that|say (?:that|it) again|come again|one more time|what did you say)$/,
+    toIntent: () => ({type: 'repeat'}),
+  },
+];
+
+// Politeness and wake words that don't change what was asked
+const LEADING_FILLER = /^(?:(?:hey|ok|okay) stratosphere[, ]*|please |can you |could you |would you )+/;
+const TRAILING_FILLER = /(?: please| for me| now)+$/;
+
+const normalizeTranscript = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[.!?,]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LEADING_FILLER, '')
+    .replace(TRAILING_FILLER, '')
+    .trim();
+
+// "source slash app dot tsx" -> "source/app.tsx"
+const SPOKEN_SYMBOLS: Array<[RegExp, string]> = [
+  [/\s*\b(?:forward )?slash\b\s*/g, '/'],
+  [/\s*\bdot\b\s*/g, '.'],
+  [/\s*\b(?:dash|hyphen)\b\s*/g, '-'],
+  [/\s*\bunderscore\b\s*/g, '_'],
+];
+
+const toSpokenPath = (slot: string) =>
+  SPOKEN_SYMBOLS.reduce((path, [pattern, symbol]) => path.replace(pattern, symbol), slot).trim();
+
+export const parseVoiceCommand = (transcript: string): VoiceIntent => {
+  const normalized = normalizeTranscript(transcript);
+  for (const rule of RULES) {
+    const match = normalized.match(rule.pattern);
+    if (match) {
+      return rule.toIntent((match[1] || '').trim());
+    }
+  }
+  return {type: 'prompt', text: transcript.trim()};
+};
+
+// Letters and digits only, so "my-app", "My App" and "myapp" compare equal
+const compact = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({length: b.length + 1}, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (query: string, candidate: string) => {
+  if (!query || !candidate) return 0;
+  if (query === candidate) return 1;
+  // Saying part of a name ("stratosphere" for "stratosphere-mobile") is common
+  if (candidate.startsWith(query)) return 0.9;
+  if (candidate.includes(query)) return 0.8;
+  return 1 - editDistance(query, candidate) / Math.max(query.length, candidate.length);
+};
+
+export const WAKE_PHRASE = 'hey stratosphere';
+const WAKE_PHRASE_THRESHOLD = 0.7;
+
+// Finds the wake phrase anywhere in a transcript and returns what was said
+// after it ('' if nothing), or null if it wasn't said. Recognisers mishear
+// made-up words, so "hey stratosfear" still counts
+export const stripWakePhrase = (transcript: string, phrase: string = WAKE_PHRASE): string | null => {
+  const words = transcript.trim().split(/\s+/).filter(Boolean);
+  const target = compact(phrase);
+  const length = phrase.trim().split(/\s+/).length;
+
+  for (let start = 0; start < words.length; start++) {
+    // Compound words may be heard as one more or one fewer word
+    for (const size of [length, length + 1, length - 1]) {
+      if (size < 1 || start + size > words.length) continue;
+      const heard = compact(words.slice(start, start + size).join(''));
+      const score = heard ? 1 - editDistance(heard, target) / Math.max(heard.length, target.length) : 0;
+      if (score >= WAKE_PHRASE_THRESHOLD) {
+        return words
+          .slice(start + size)
+          .join(' ')
+          .replace(/^[\s,.!?]+/, '');
+      }
+    }
+  }
+  return null;
+};
+
+// Scores a spoken name against both the whole candidate and, for paths,
+// its last segment; speech recognition rarely gets names exactly right
+export const findBestMatch = (
+  query: string,
+  candidates: string[],
+  threshold: number = 0.6
+): NameMatch | null => {
+  const target = compact(query);
+  let best: NameMatch | null = null;
+
+  candidates.forEach(candidate => {
+    const basename = candidate.split('/').pop() || candidate;
+    const score = Math.max(
+      similarity(target, compact(candidate)),
+      similarity(target, compact(basename))
+    );
+    if (score >= threshold && (!best || score > best.score)) {
+      best = {value: candidate, score};
+    }
+  });
+
+  return best;
+};